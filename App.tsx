@@ -3,83 +3,139 @@ import Layout from './components/Layout';
 import Dashboard from './components/Dashboard';
 import TransactionGrid from './components/TransactionGrid';
 import CategoryManager from './components/CategoryManager';
+import AccountManager from './components/AccountManager';
+import HouseholdManager from './components/HouseholdManager';
+import RuleManager from './components/RuleManager';
 import PlanningView from './components/PlanningView';
+import ForecastView from './components/ForecastView';
 import ImportWizard from './components/ImportWizard';
 import TransactionForm from './components/TransactionForm';
+import AuthView from './components/AuthView';
+import SyncConflicts from './components/SyncConflicts';
+import NotificationCenter from './components/NotificationCenter';
 import { useFinanceData } from './hooks/useFinanceData';
-import { RecurringTransaction, Transaction, User } from './types';
-import { startOfMonth, endOfMonth, isWithinInterval, parseISO, addMonths, isBefore, isAfter } from 'date-fns';
+import { useHouseholds } from './hooks/useHouseholds';
+import { useAlerts } from './hooks/useAlerts';
+import { applyRules, applyRulesToHistory } from './utils/rules';
+import { buildRecurringTransaction, occurrenceId, occurrencesBetween } from './utils/recurrence';
+import { PendingMutation, RecurringTransaction, Session, Transaction } from './types';
+import { STORAGE_KEYS } from './constants';
+import { startOfMonth, endOfMonth } from 'date-fns';
 import { Loader2, CloudOff } from 'lucide-react';
 
-type ViewType = 'dashboard' | 'transactions' | 'categories' | 'planning';
+type ViewType = 'dashboard' | 'transactions' | 'categories' | 'planning' | 'forecast' | 'accounts' | 'households' | 'rules';
 
-const DEFAULT_USER: User = {
-  id: 'main-user',
-  name: 'Meu Financeiro',
-  email: 'admin@financeflow.local'
+const loadSession = (): Session | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.SESSION);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const loadParkedOutboxes = (): Record<string, PendingMutation[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.PARKED_OUTBOX) || '{}');
+  } catch {
+    return {};
+  }
 };
 
 const App: React.FC = () => {
+  const [session, setSession] = useState<Session | null>(loadSession);
   const [activeView, setActiveView] = useState<ViewType>('dashboard');
   const [showImport, setShowImport] = useState(false);
   const [showAdd, setShowAdd] = useState(false);
+  const [ruleDraft, setRuleDraft] = useState<Transaction | null>(null);
 
-  const { 
-    transactions, categories, budgets, recurring, loading, error,
-    addTransactions, updateTransaction, deleteTransaction,
-    addCategory, updateCategory, deleteCategory, updateBudget,
-    addRecurring, removeRecurring, updateRecurring
-  } = useFinanceData(DEFAULT_USER.id);
-
-  const generateRecurringTransaction = useCallback((item: RecurringTransaction, date: Date): Transaction => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(item.dayOfMonth).padStart(2, '0');
-    const dateStr = `${year}-${month}-${day}`;
-    
-    return {
-      id: `rec-commit-${item.id}-${year}-${month}`,
-      date: dateStr,
-      description: item.description,
-      amount: item.type === 'expense' ? -Math.abs(item.amount) : Math.abs(item.amount),
-      categoryId: item.categoryId,
-      type: item.type,
-      isRecurring: true,
-      recurringId: item.id
-    };
+  const handleLogin = (newSession: Session) => {
+    // Edições que ficaram na fila quando a sessão expirou voltam para ser reenviadas
+    const parked = loadParkedOutboxes();
+    if (parked[newSession.user.id]?.length) {
+      localStorage.setItem(STORAGE_KEYS.OUTBOX, JSON.stringify(parked[newSession.user.id]));
+      delete parked[newSession.user.id];
+      localStorage.setItem(STORAGE_KEYS.PARKED_OUTBOX, JSON.stringify(parked));
+    }
+    localStorage.setItem(STORAGE_KEYS.SESSION, JSON.stringify(newSession));
+    setSession(newSession);
+  };
+
+  // Limpa o cache local junto com a sessão para não vazar dados entre usuários do mesmo navegador
+  const handleLogout = useCallback((notifyServer = true) => {
+    const token = loadSession()?.token;
+    if (notifyServer && token) {
+      fetch('/api/auth?action=logout', { method: 'POST', headers: { Authorization: `Bearer ${token}` } }).catch(() => {});
+    }
+    // Os caches são por lar (ff_transactions:<lar>), então a limpeza vai pelo prefixo
+    const keys = Object.values(STORAGE_KEYS).filter(key => key !== STORAGE_KEYS.PARKED_OUTBOX);
+    Object.keys(localStorage)
+      .filter(name => keys.some(key => name === key || name.startsWith(`${key}:`)))
+      .forEach(name => localStorage.removeItem(name));
+    setSession(null);
   }, []);
 
+  // Sessão expirada não é uma saída voluntária: a fila offline fica guardada para o mesmo usuário
+  const handleUnauthorized = useCallback(() => {
+    const userId = loadSession()?.user.id;
+    let outbox: PendingMutation[] = [];
+    try {
+      outbox = JSON.parse(localStorage.getItem(STORAGE_KEYS.OUTBOX) || '[]');
+    } catch {}
+    if (userId && outbox.length > 0) {
+      const parked = loadParkedOutboxes();
+      parked[userId] = [...(parked[userId] || []), ...outbox];
+      localStorage.setItem(STORAGE_KEYS.PARKED_OUTBOX, JSON.stringify(parked));
+    }
+    handleLogout(false);
+  }, [handleLogout]);
+
+  const {
+    households, activeHousehold, dataHouseholdId, pendingInvites, members, sentInvites, error: householdError,
+    selectHousehold, invite, revokeInvite, respondToInvite,
+    updateMemberRole, removeMember, renameHousehold
+  } = useHouseholds(session?.token ?? null, handleUnauthorized);
+  const isReadOnly = activeHousehold?.role === 'viewer';
+
+  const { 
+    transactions, categories, budgets, recurring, accounts, importProfiles, rules, goals, loading, error,
+    pendingCount, conflicts, dismissConflict, clearConflicts,
+    addTransactions, updateTransaction, updateTransactions, deleteTransaction, deleteTransactions,
+    updateTransfer, deleteTransfer,
+    addCategory, updateCategory, deleteCategory, mergeCategories, updateBudget, copyBudgetsFromPreviousMonth,
+    addRecurring, removeRecurring, updateRecurring,
+    saveAccount, deleteAccount,
+    saveImportProfile, deleteImportProfile,
+    saveRule, deleteRule,
+    saveGoal, deleteGoal,
+    suggestCategories,
+    listAttachments, uploadAttachment, downloadAttachment, deleteAttachment
+  } = useFinanceData(session?.token ?? null, handleUnauthorized, dataHouseholdId);
+
+  const {
+    notifications, settings: alertSettings, unreadCount, error: alertError,
+    refresh: refreshAlerts, markRead, saveSettings: saveAlertSettings
+  } = useAlerts(session?.token ?? null, activeHousehold?.id, handleUnauthorized);
+
+  // Os alertas são avaliados no servidor ao gravar lançamentos; buscamos de novo quando a fila esvazia
   React.useEffect(() => {
-    if (recurring.length === 0 || loading) return;
+    if (pendingCount === 0) refreshAlerts();
+  }, [transactions, pendingCount, refreshAlerts]);
+
+  // Sair de propósito descarta a fila offline; avisamos antes se ainda há edições por enviar
+  const requestLogout = () => {
+    if (pendingCount > 0 && !confirm(`${pendingCount} alteração(ões) ainda não foram enviadas ao servidor e serão perdidas. Sair mesmo assim?`)) return;
+    handleLogout();
+  };
 
+  // Recorrências viram lançamentos no servidor (api/recurring.js, agendado no vercel.json); aqui só o lançamento manual
+  // "Lançar agora" no planejamento: a próxima ocorrência do mês que ainda não virou lançamento
+  const commitRecurring = (item: RecurringTransaction) => {
     const today = new Date();
-    const pendingLaunches: Transaction[] = [];
-
-    recurring.forEach(item => {
-      if (!item.active) return;
-      let currentCheck = item.startDate ? parseISO(item.startDate) : startOfMonth(addMonths(today, -12));
-      const futureLimit = addMonths(today, 1);
-      currentCheck = startOfMonth(currentCheck);
-      
-      while (isBefore(currentCheck, futureLimit)) {
-        if (item.endDate && isAfter(currentCheck, parseISO(item.endDate))) break;
-        const startOfM = startOfMonth(currentCheck);
-        const endOfM = endOfMonth(currentCheck);
-        const alreadyLaunched = transactions.some(t => 
-          t.recurringId === item.id && 
-          isWithinInterval(parseISO(t.date), { start: startOfM, end: endOfM })
-        );
-        if (!alreadyLaunched) {
-          pendingLaunches.push(generateRecurringTransaction(item, currentCheck));
-        }
-        currentCheck = addMonths(currentCheck, 1);
-      }
-    });
-
-    if (pendingLaunches.length > 0) {
-      addTransactions(pendingLaunches);
-    }
-  }, [recurring, transactions, loading, addTransactions, generateRecurringTransaction]);
+    const occurrence = occurrencesBetween(item, startOfMonth(today), endOfMonth(today))
+      .find(o => !transactions.some(t => t.id === occurrenceId(item, o)));
+    if (occurrence) addTransactions([buildRecurringTransaction(item, occurrence)]);
+  };
 
   const handleUpdateRecurringWithImpact = (id: string, updates: Partial<RecurringTransaction>, impactPast: boolean) => {
     updateRecurring(id, updates);
@@ -96,7 +152,38 @@ const App: React.FC = () => {
     }
   };
 
+  // Lançamentos manuais passam pelas mesmas regras da importação; transferências ficam de fora
+  const handleAddWithRules = (items: Transaction[]) => {
+    addTransactions(items.map(t => t.type === 'transfer' ? t : applyRules(t, rules)));
+  };
+
+  const handleCreateRule = (t: Transaction) => {
+    setRuleDraft(t);
+    setActiveView('rules');
+  };
+
+  const handleApplyRulesToHistory = () => {
+    const changed = applyRulesToHistory(transactions.filter(t => t.type !== 'transfer'), rules);
+    updateTransactions(changed);
+    return changed.length;
+  };
+
+  const clearRuleDraft = useCallback(() => setRuleDraft(null), []);
+
   const renderContent = () => {
+    const dashboard = (
+      <Dashboard
+        transactions={transactions}
+        categories={categories}
+        budgets={budgets}
+        accounts={accounts}
+        goals={goals}
+        isReadOnly={isReadOnly}
+        onSaveGoal={saveGoal}
+        onDeleteGoal={deleteGoal}
+      />
+    );
+
     if (error) {
       return (
         <div className="flex flex-col items-center justify-center h-96 space-y-4">
@@ -110,16 +197,26 @@ const App: React.FC = () => {
 
     switch (activeView) {
       case 'dashboard':
-        return <Dashboard transactions={transactions} categories={categories} budgets={budgets} />;
+        return dashboard;
       case 'transactions':
         return (
           <TransactionGrid 
             transactions={transactions} 
             categories={categories}
+            accounts={accounts}
             onAdd={() => setShowAdd(true)}
             onImport={() => setShowImport(true)}
             onUpdate={updateTransaction}
             onDelete={deleteTransaction}
+            onUpdateTransfer={updateTransfer}
+            onDeleteTransfer={deleteTransfer}
+            onCreateRule={handleCreateRule}
+            onBulkUpdate={updateTransactions}
+            onBulkDelete={deleteTransactions}
+            onListAttachments={listAttachments}
+            onUploadAttachment={uploadAttachment}
+            onDownloadAttachment={downloadAttachment}
+            onDeleteAttachment={deleteAttachment}
           />
         );
       case 'categories':
@@ -129,6 +226,48 @@ const App: React.FC = () => {
             onAdd={addCategory} 
             onUpdate={updateCategory}
             onDelete={deleteCategory} 
+            onMerge={mergeCategories}
+          />
+        );
+      case 'accounts':
+        return (
+          <AccountManager 
+            accounts={accounts} 
+            transactions={transactions}
+            onSave={saveAccount}
+            onDelete={deleteAccount} 
+          />
+        );
+      case 'rules':
+        return (
+          <RuleManager
+            rules={rules}
+            categories={categories}
+            accounts={accounts}
+            draft={ruleDraft}
+            onDraftConsumed={clearRuleDraft}
+            onSave={saveRule}
+            onDelete={deleteRule}
+            onApplyToHistory={handleApplyRulesToHistory}
+          />
+        );
+      case 'households':
+        return (
+          <HouseholdManager
+            user={session!.user}
+            households={households}
+            activeHousehold={activeHousehold}
+            members={members}
+            sentInvites={sentInvites}
+            pendingInvites={pendingInvites}
+            error={householdError}
+            onSelect={selectHousehold}
+            onInvite={invite}
+            onRevokeInvite={revokeInvite}
+            onRespondInvite={respondToInvite}
+            onUpdateRole={updateMemberRole}
+            onRemoveMember={removeMember}
+            onRename={renameHousehold}
           />
         );
       case 'planning':
@@ -138,20 +277,29 @@ const App: React.FC = () => {
             categories={categories} 
             budgets={budgets}
             recurring={recurring}
+            accounts={accounts}
             onUpdateBudget={updateBudget}
+            onCopyBudgets={copyBudgetsFromPreviousMonth}
+            onUpdateCategory={updateCategory}
             onAddRecurring={addRecurring}
             onRemoveRecurring={removeRecurring}
             onUpdateRecurring={handleUpdateRecurringWithImpact}
-            onCommitRecurring={(item) => addTransactions([generateRecurringTransaction(item, new Date())])}
+            onCommitRecurring={commitRecurring}
           />
         );
+      case 'forecast':
+        return <ForecastView transactions={transactions} recurring={recurring} categories={categories} accounts={accounts} />;
       default:
-        return <Dashboard transactions={transactions} categories={categories} budgets={budgets} />;
+        return dashboard;
     }
   };
 
+  if (!session) {
+    return <AuthView onLogin={handleLogin} />;
+  }
+
   return (
-    <Layout activeView={activeView} setActiveView={setActiveView} user={DEFAULT_USER}>
+    <Layout activeView={activeView} setActiveView={setActiveView} user={session.user} onLogout={requestLogout} household={activeHousehold}>
       {loading && (
         <div className="fixed inset-0 z-[100] bg-slate-50/60 backdrop-blur-[2px] flex items-center justify-center">
           <div className="bg-white p-6 rounded-3xl shadow-2xl flex flex-col items-center space-y-4 border border-slate-100">
@@ -163,20 +311,46 @@ const App: React.FC = () => {
 
       {renderContent()}
 
+      <NotificationCenter
+        notifications={notifications}
+        settings={alertSettings}
+        unreadCount={unreadCount}
+        error={alertError}
+        categories={categories}
+        isReadOnly={isReadOnly}
+        onMarkRead={markRead}
+        onSaveSettings={saveAlertSettings}
+      />
+
+      <SyncConflicts
+        pendingCount={pendingCount}
+        conflicts={conflicts}
+        onDismiss={dismissConflict}
+        onClear={clearConflicts}
+      />
+
       {showImport && (
         <ImportWizard 
           onClose={() => setShowImport(false)} 
           onImport={(items) => addTransactions(items)}
           categories={categories}
+          accounts={accounts}
           existingTransactions={transactions}
+          onLinkAccount={saveAccount}
+          importProfiles={importProfiles}
+          onSaveProfile={saveImportProfile}
+          onDeleteProfile={deleteImportProfile}
+          rules={rules}
+          onSuggestCategories={suggestCategories}
         />
       )}
 
       {showAdd && (
         <TransactionForm 
           onClose={() => setShowAdd(false)}
-          onAdd={(t) => addTransactions([t])}
+          onAdd={handleAddWithRules}
           categories={categories}
+          accounts={accounts}
         />
       )}
     </Layout>
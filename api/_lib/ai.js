@@ -0,0 +1,115 @@
+import { GoogleGenAI } from '@google/genai';
+
+// Cada chamada ao provedor recebe no máximo este número de descrições
+export const BATCH_SIZE = 50;
+// Teto por requisição, para uma importação enorme não virar dezenas de chamadas pagas
+export const MAX_DESCRIPTIONS = 500;
+
+const buildPrompt = (descriptions, categories) => `Classifique estas transações bancárias. Use apenas os IDs fornecidos.
+Categorias Disponíveis: ${categories.map(c => `${c.name} (id: ${c.id})`).join(', ')}.
+Entradas: ${JSON.stringify(descriptions)}.
+Retorne APENAS um objeto JSON plano onde a chave é a descrição e o valor é o id da categoria: {"DESC": "ID_CAT"}. Se não souber, ignore a chave.`;
+
+const parseJsonObject = (text) => {
+  const parsed = JSON.parse(text || '{}');
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+};
+
+const geminiProvider = {
+  name: 'gemini',
+  async classify(descriptions, categories) {
+    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    const response = await ai.models.generateContent({
+      model: process.env.GEMINI_MODEL || 'gemini-3-flash-preview',
+      contents: buildPrompt(descriptions, categories),
+      config: { responseMimeType: 'application/json' }
+    });
+    return parseJsonObject(response.text);
+  }
+};
+
+// Qualquer servidor compatível com a API de chat da OpenAI (OpenAI, Azure, Ollama, LM Studio...)
+const openAiProvider = {
+  name: 'openai',
+  async classify(descriptions, categories) {
+    const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${process.env.OPENAI_API_KEY || ''}`
+      },
+      body: JSON.stringify({
+        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        messages: [{ role: 'user', content: buildPrompt(descriptions, categories) }],
+        response_format: { type: 'json_object' },
+        temperature: 0
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`Provedor OpenAI respondeu ${response.status}`);
+    }
+    const data = await response.json();
+    return parseJsonObject(data.choices?.[0]?.message?.content);
+  }
+};
+
+const normalize = (value) => value
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase();
+
+// Determinístico e sem rede: escolhe a categoria cujo nome aparece na descrição.
+// Serve para desenvolvimento offline e testes, e como padrão quando nenhuma chave está configurada.
+const localProvider = {
+  name: 'local',
+  async classify(descriptions, categories) {
+    const result = {};
+    descriptions.forEach(description => {
+      const text = normalize(description);
+      const match = categories.find(c => normalize(c.name).split(/\s+/).some(word => word.length > 2 && text.includes(word)));
+      if (match) result[description] = match.id;
+    });
+    return result;
+  }
+};
+
+const PROVIDERS = { gemini: geminiProvider, openai: openAiProvider, local: localProvider };
+
+export function getProvider() {
+  const configured = process.env.AI_PROVIDER;
+  if (configured) {
+    const provider = PROVIDERS[configured];
+    if (!provider) throw new Error(`Provedor de IA desconhecido: ${configured}`);
+    return provider;
+  }
+  if (process.env.GEMINI_API_KEY) return geminiProvider;
+  if (process.env.OPENAI_API_KEY) return openAiProvider;
+  return localProvider;
+}
+
+// Divide em lotes, ignora lotes que falharem e descarta respostas com descrição
+// que não foi pedida ou id de categoria que não existe
+export async function classifyDescriptions(provider, descriptions, categories) {
+  const requested = new Set(descriptions);
+  const validIds = new Set(categories.map(c => c.id));
+  const suggestions = {};
+  let failedBatches = 0;
+
+  for (let i = 0; i < descriptions.length; i += BATCH_SIZE) {
+    const batch = descriptions.slice(i, i + BATCH_SIZE);
+    try {
+      const result = await provider.classify(batch, categories);
+      Object.entries(result).forEach(([description, categoryId]) => {
+        if (requested.has(description) && typeof categoryId === 'string' && validIds.has(categoryId)) {
+          suggestions[description] = categoryId;
+        }
+      });
+    } catch (error) {
+      console.error(`AI PROVIDER ERROR (${provider.name}):`, error);
+      failedBatches++;
+    }
+  }
+
+  return { suggestions, failedBatches };
+}
@@ -0,0 +1,192 @@
+import { effectiveBudgetAt, nextMonth } from './budgets.js';
+import { householdCategories } from './categories.js';
+import { deliver, getNotifiers } from './notifier.js';
+
+export const DEFAULT_THRESHOLDS = [80, 100];
+// Antes disso a média diária ainda oscila demais para projetar o mês
+const PACE_MIN_DAY = 3;
+
+export async function ensureAlertSchema(client) {
+  const queries = [
+    `CREATE TABLE IF NOT EXISTS alert_settings (
+      user_id TEXT PRIMARY KEY,
+      thresholds INTEGER[] NOT NULL DEFAULT '{80,100}',
+      pace BOOLEAN NOT NULL DEFAULT TRUE,
+      email BOOLEAN NOT NULL DEFAULT FALSE,
+      webhook_url TEXT,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS budget_notifications (
+      id SERIAL PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      category_id TEXT NOT NULL,
+      month TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      threshold INTEGER NOT NULL DEFAULT 0,
+      message TEXT NOT NULL,
+      spent DECIMAL(12,2) NOT NULL,
+      budget DECIMAL(12,2) NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      read_at TIMESTAMPTZ,
+      UNIQUE (user_id, category_id, month, kind, threshold)
+    )`
+  ];
+  for (const q of queries) {
+    await client.query(q);
+  }
+}
+
+export async function getAlertSettings(client, householdId) {
+  const result = await client.query(
+    'SELECT thresholds, pace, email, webhook_url as "webhookUrl" FROM alert_settings WHERE user_id = $1',
+    [householdId]
+  );
+  return result.rows[0] || { thresholds: DEFAULT_THRESHOLDS, pace: true, email: false, webhookUrl: null };
+}
+
+const formatMoney = (value) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+const formatMonth = (month) => `${month.slice(5)}/${month.slice(0, 4)}`;
+
+async function expensesSince(client, householdId, since) {
+  const result = await client.query(`
+    SELECT to_char(date, 'YYYY-MM') as month, category_id, amount::float, splits
+    FROM transactions
+    WHERE user_id = $1 AND type = 'expense' AND date >= $2::date
+  `, [householdId, `${since}-01`]);
+  return result.rows;
+}
+
+// Mesma conta de sumByCategory em utils/splits.ts: despesas são gravadas negativas e o gasto é o valor
+// absoluto de cada parte (lançamentos divididos contam em cada categoria)
+const partsOf = (t) => Array.isArray(t.splits) && t.splits.length > 1
+  ? t.splits.map(s => ({ categoryId: s.categoryId, amount: Number(s.amount) }))
+  : [{ categoryId: t.category_id, amount: t.amount }];
+
+// Gasto por mês e categoria; subcategorias também contam na principal, como no painel
+function rollUpSpending(expenses, categories) {
+  const parentOf = new Map(categories.map(c => [c.id, c.parent_id && c.parent_id !== c.id ? c.parent_id : null]));
+  const spending = new Map();
+  const add = (month, categoryId, value) => {
+    if (!spending.has(month)) spending.set(month, new Map());
+    const byCategory = spending.get(month);
+    byCategory.set(categoryId, (byCategory.get(categoryId) || 0) + value);
+  };
+  for (const t of expenses) {
+    for (const part of partsOf(t)) {
+      const spent = Math.abs(part.amount);
+      add(t.month, part.categoryId, spent);
+      const seen = new Set([part.categoryId]);
+      let parent = parentOf.get(part.categoryId);
+      while (parent && !seen.has(parent)) {
+        add(t.month, parent, spent);
+        seen.add(parent);
+        parent = parentOf.get(parent);
+      }
+    }
+  }
+  return spending;
+}
+
+// Mesma conta de rolloverCarry em utils/budgets.ts
+function carryOf(budgets, categories, spending, category, month) {
+  if (!category.rollover_from) return 0;
+  let carry = 0;
+  for (let m = category.rollover_from; m < month; m = nextMonth(m)) {
+    carry += effectiveBudgetAt(budgets, categories, category.id, m) - (spending.get(m)?.get(category.id) || 0);
+  }
+  return carry;
+}
+
+async function householdEmails(client, householdId) {
+  const result = await client.query(`
+    SELECT u.email FROM household_members m JOIN users u ON u.id = m.user_id
+    WHERE m.household_id = $1 AND m.role IN ('owner', 'editor')
+  `, [householdId]);
+  return result.rows.map(r => r.email);
+}
+
+// Confere os meses que tiveram gasto alterado e avisa cada categoria uma única vez por limite atingido.
+// O UNIQUE da tabela garante isso mesmo com gravações simultâneas. Meses que ainda não começaram
+// (parcelas e recorrências agendadas) ficam de fora: nada foi gasto neles ainda.
+export async function evaluateBudgetAlerts(client, householdId, months, now = new Date()) {
+  const currentMonth = now.toISOString().slice(0, 7);
+  const targetMonths = Array.from(new Set(months)).filter(month => month <= currentMonth).sort();
+  if (targetMonths.length === 0) return [];
+
+  const settings = await getAlertSettings(client, householdId);
+  const thresholds = [...settings.thresholds].sort((a, b) => a - b);
+
+  // As categorias padrão não têm linha no banco até serem editadas, mas também podem ter orçamento
+  const [householdCats, budgetsResult, notifiedResult] = await Promise.all([
+    householdCategories(client, householdId),
+    client.query('SELECT category_id, month, amount::float FROM budgets WHERE user_id = $1', [householdId]),
+    client.query(
+      'SELECT category_id, month, kind, MAX(threshold) as threshold FROM budget_notifications WHERE user_id = $1 AND month = ANY($2::text[]) GROUP BY 1, 2, 3',
+      [householdId, targetMonths]
+    )
+  ]);
+  const categories = householdCats.map(c => ({ id: c.id, name: c.name, parent_id: c.parentId, rollover_from: c.rolloverFrom }));
+  const budgets = budgetsResult.rows;
+  const notified = new Map(notifiedResult.rows.map(r => [`${r.category_id}|${r.month}|${r.kind}`, r.threshold]));
+
+  const since = [targetMonths[0], ...categories.map(c => c.rollover_from).filter(Boolean)].sort()[0];
+  const spending = rollUpSpending(await expensesSince(client, householdId, since), categories);
+
+  const today = now.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate();
+
+  const created = [];
+  for (const month of targetMonths) {
+    for (const category of categories) {
+      const budget = effectiveBudgetAt(budgets, categories, category.id, month)
+        + carryOf(budgets, categories, spending, category, month);
+      if (budget <= 0) continue;
+      const spent = spending.get(month)?.get(category.id) || 0;
+      const percent = (spent / budget) * 100;
+      const key = `${category.id}|${month}`;
+
+      const crossed = thresholds.filter(t => percent >= t).pop();
+      if (crossed !== undefined && crossed > (notified.get(`${key}|threshold`) ?? -1)) {
+        created.push({
+          categoryId: category.id, categoryName: category.name, month, kind: 'threshold', threshold: crossed, spent, budget,
+          message: crossed >= 100
+            ? `${category.name} estourou o orçamento de ${formatMonth(month)}: ${formatMoney(spent)} de ${formatMoney(budget)}.`
+            : `${category.name} já usou ${Math.floor(percent)}% do orçamento de ${formatMonth(month)}: ${formatMoney(spent)} de ${formatMoney(budget)}.`
+        });
+      }
+
+      // Ritmo: no mês corrente, a média diária até hoje levaria a categoria além do orçamento
+      if (settings.pace && month === currentMonth && today >= PACE_MIN_DAY && percent < 100 && !notified.has(`${key}|pace`)) {
+        const projected = (spent / today) * daysInMonth;
+        if (projected > budget) {
+          created.push({
+            categoryId: category.id, categoryName: category.name, month, kind: 'pace', threshold: 0, spent, budget,
+            message: `No ritmo atual, ${category.name} deve fechar ${formatMonth(month)} em ${formatMoney(projected)}, acima do orçamento de ${formatMoney(budget)}.`
+          });
+        }
+      }
+    }
+  }
+
+  const delivered = [];
+  for (const n of created) {
+    const result = await client.query(`
+      INSERT INTO budget_notifications (user_id, category_id, month, kind, threshold, message, spent, budget)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT DO NOTHING
+      RETURNING id
+    `, [householdId, n.categoryId, n.month, n.kind, n.threshold, n.message, n.spent, n.budget]);
+    if (result.rows.length > 0) delivered.push({ id: result.rows[0].id, ...n });
+  }
+  if (delivered.length === 0) return delivered;
+
+  const context = {
+    webhookUrl: settings.webhookUrl,
+    emails: settings.email ? await householdEmails(client, householdId) : []
+  };
+  const notifiers = getNotifiers();
+  for (const n of delivered) {
+    await deliver(notifiers, n, context);
+  }
+  return delivered;
+}
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateBudgetAlerts } from './alerts.js';
+
+process.env.NOTIFIERS = 'webhook';
+
+// Banco falso: responde às consultas de evaluateBudgetAlerts e guarda as notificações inseridas
+const fakeClient = ({ categories = [], budgets = [], expenses = [] }) => {
+  const inserted = [];
+  return {
+    inserted,
+    async query(sql, params) {
+      if (sql.includes('FROM alert_settings')) return { rows: [] };
+      if (sql.includes('FROM categories')) return { rows: categories };
+      if (sql.includes('FROM budgets')) return { rows: budgets };
+      if (sql.includes('FROM budget_notifications')) return { rows: [] };
+      if (sql.includes('FROM transactions')) return { rows: expenses };
+      if (sql.includes('INSERT INTO budget_notifications')) {
+        inserted.push({ categoryId: params[1], month: params[2], kind: params[3], threshold: params[4], spent: params[6] });
+        return { rows: [{ id: inserted.length }] };
+      }
+      return { rows: [] };
+    }
+  };
+};
+
+const food = { id: 'cat-food', name: 'Alimentação', parentId: null, rolloverFrom: null };
+const budget = { category_id: 'cat-food', month: '0000-01', amount: 100 };
+const now = new Date('2026-10-01T12:00:00Z');
+
+test('despesa acima do orçamento dispara o limite de 100%', async () => {
+  const client = fakeClient({
+    categories: [food],
+    budgets: [budget],
+    expenses: [{ month: '2026-10', category_id: 'cat-food', amount: -150, splits: null }]
+  });
+  const delivered = await evaluateBudgetAlerts(client, 'h1', ['2026-10'], now);
+  assert.equal(delivered.length, 1);
+  assert.deepEqual(client.inserted, [{ categoryId: 'cat-food', month: '2026-10', kind: 'threshold', threshold: 100, spent: 150 }]);
+});
+
+test('partes de lançamentos divididos contam na categoria de cada parte', async () => {
+  const client = fakeClient({
+    categories: [food, { id: 'cat-home', name: 'Casa', parentId: null, rolloverFrom: null }],
+    budgets: [budget],
+    expenses: [{
+      month: '2026-10', category_id: 'cat-home', amount: -200,
+      splits: [{ categoryId: 'cat-food', amount: -85 }, { categoryId: 'cat-home', amount: -115 }]
+    }]
+  });
+  await evaluateBudgetAlerts(client, 'h1', ['2026-10'], now);
+  assert.deepEqual(client.inserted.map(n => [n.categoryId, n.threshold, n.spent]), [['cat-food', 80, 85]]);
+});
+
+test('rollover desconta o que foi gasto além do orçamento nos meses anteriores', async () => {
+  const client = fakeClient({
+    categories: [{ ...food, rolloverFrom: '2026-09' }],
+    budgets: [budget],
+    expenses: [
+      { month: '2026-09', category_id: 'cat-food', amount: -130, splits: null },
+      { month: '2026-10', category_id: 'cat-food', amount: -60, splits: null }
+    ]
+  });
+  await evaluateBudgetAlerts(client, 'h1', ['2026-10'], now);
+  // Orçamento de outubro: 100 - 30 estourados em setembro = 70; 60 gastos = 85%
+  assert.deepEqual(client.inserted.map(n => [n.threshold, n.spent]), [[80, 60]]);
+});
+
+test('categorias padrão sem linha no banco também são avisadas, inclusive na principal', async () => {
+  const client = fakeClient({
+    categories: [{ id: 'cat-cafe', name: 'Café', parentId: 'cat-comida', rolloverFrom: null }],
+    budgets: [{ category_id: 'cat-comida', month: '0000-01', amount: 200 }],
+    expenses: [{ month: '2026-10', category_id: 'cat-cafe', amount: -170, splits: null }]
+  });
+  await evaluateBudgetAlerts(client, 'h1', ['2026-10'], now);
+  assert.deepEqual(client.inserted.map(n => [n.categoryId, n.threshold, n.spent]), [['cat-comida', 80, 170]]);
+});
+
+test('parcelas em meses futuros não disparam alertas', async () => {
+  const client = fakeClient({
+    categories: [food],
+    budgets: [budget],
+    expenses: [{ month: '2026-11', category_id: 'cat-food', amount: -150, splits: null }]
+  });
+  const delivered = await evaluateBudgetAlerts(client, 'h1', ['2026-11'], now);
+  assert.deepEqual(delivered, []);
+});
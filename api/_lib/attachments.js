@@ -0,0 +1,43 @@
+import { getStorage } from './storage.js';
+
+// Limite abaixo do teto de corpo das funções da Vercel (4,5 MB), já contando o base64
+export const MAX_ATTACHMENT_BYTES = 3 * 1024 * 1024;
+export const ALLOWED_CONTENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+
+export async function ensureAttachmentSchema(client) {
+  await client.query(`CREATE TABLE IF NOT EXISTS attachments (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    transaction_id TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    storage_key TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`);
+  await client.query('CREATE INDEX IF NOT EXISTS attachments_transaction_idx ON attachments (user_id, transaction_id)');
+}
+
+// A contagem de anexos vem junto com o lançamento; tocar o changed_at faz a sincronização
+// incremental reenviá-lo sem gerar nova versão (e portanto sem conflito com edições)
+export async function touchTransaction(client, householdId, transactionId) {
+  await client.query('UPDATE transactions SET changed_at = NOW() WHERE id = $1 AND user_id = $2', [transactionId, householdId]);
+}
+
+// Chamado ao excluir lançamentos; falhas no armazenamento não impedem a exclusão
+export async function removeAttachmentsOf(client, householdId, transactionIds) {
+  if (transactionIds.length === 0) return;
+  const result = await client.query(
+    'DELETE FROM attachments WHERE user_id = $1 AND transaction_id = ANY($2::text[]) RETURNING storage_key',
+    [householdId, transactionIds]
+  );
+  if (result.rows.length === 0) return;
+  const storage = getStorage();
+  for (const row of result.rows) {
+    try {
+      await storage.remove(row.storage_key);
+    } catch (error) {
+      console.error(`STORAGE ERROR (${storage.name}):`, error);
+    }
+  }
+}
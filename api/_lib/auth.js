@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+
+const SESSION_TTL_DAYS = 30;
+
+export async function ensureAuthSchema(client) {
+  const queries = [
+    `CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      password_hash TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS sessions (
+      token_hash TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      expires_at TIMESTAMPTZ NOT NULL
+    )`
+  ];
+
+  for (const q of queries) {
+    await client.query(q);
+  }
+}
+
+// Formato armazenado: scrypt$<salt hex>$<hash hex>
+export function hashPassword(password) {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export function verifyPassword(password, stored) {
+  const [scheme, saltHex, hashHex] = String(stored).split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = crypto.scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// Apenas o hash do token fica no banco; o token em si só existe no cliente
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+export async function createSession(client, userId) {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await client.query(
+    `INSERT INTO sessions (token_hash, user_id, expires_at) VALUES ($1, $2, NOW() + INTERVAL '${SESSION_TTL_DAYS} days')`,
+    [hashToken(token), userId]
+  );
+  return token;
+}
+
+export function getBearerToken(req) {
+  const header = req.headers?.authorization || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+export async function getSessionUser(client, req) {
+  const token = getBearerToken(req);
+  if (!token) return null;
+
+  const result = await client.query(`
+    SELECT u.id, u.name, u.email
+    FROM sessions s JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash = $1 AND s.expires_at > NOW()
+  `, [hashToken(token)]);
+  return result.rows[0] || null;
+}
+
+export async function deleteSession(client, req) {
+  const token = getBearerToken(req);
+  if (!token) return;
+  await client.query('DELETE FROM sessions WHERE token_hash = $1', [hashToken(token)]);
+}
@@ -0,0 +1,24 @@
+// Orçamento versionado por mês: cada valor vale a partir do seu mês (YYYY-MM) até o próximo
+// registro da categoria. Registros de antes do histórico ficam em BUDGET_BASE_MONTH e valem desde sempre.
+// Mesmas regras de utils/budgets.ts, sobre linhas do banco (category_id, month, amount).
+export const BUDGET_BASE_MONTH = '0000-01';
+
+export const isMonth = (value) => typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+
+export const nextMonth = (month) => {
+  const [year, m] = month.split('-').map(Number);
+  return m === 12 ? `${String(year + 1).padStart(4, '0')}-01` : `${String(year).padStart(4, '0')}-${String(m + 1).padStart(2, '0')}`;
+};
+
+export const budgetAt = (rows, categoryId, month) => rows
+  .filter(b => b.category_id === categoryId && b.month <= month)
+  .reduce((latest, b) => (!latest || b.month > latest.month ? b : latest), null);
+
+// Meta da categoria no mês: a própria ou, sem ela, a soma das subcategorias
+export const effectiveBudgetAt = (rows, categories, categoryId, month) => {
+  const own = budgetAt(rows, categoryId, month)?.amount || 0;
+  if (own > 0) return own;
+  return categories
+    .filter(c => c.parent_id === categoryId && c.id !== categoryId)
+    .reduce((sum, child) => sum + (budgetAt(rows, child.id, month)?.amount || 0), 0);
+};
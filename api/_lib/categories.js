@@ -0,0 +1,27 @@
+// Mesmas categorias padrão de constants.ts: existem no app mesmo sem linha no banco, até serem editadas
+export const DEFAULT_CATEGORIES = [
+  { id: 'cat-salario', name: 'Salário' },
+  { id: 'cat-stocks', name: 'Stocks' },
+  { id: 'cat-beneficios', name: 'Benefícios' },
+  { id: 'cat-compras', name: 'Compras' },
+  { id: 'cat-comida', name: 'Comida & Bebida' },
+  { id: 'cat-transporte', name: 'Transporte' },
+  { id: 'cat-entretenimento', name: 'Entretenimento' },
+  { id: 'cat-viagem', name: 'Viagem' },
+  { id: 'cat-saude', name: 'Saúde' },
+  { id: 'cat-educacao', name: 'Educação' },
+  { id: 'cat-familia', name: 'Família' },
+  { id: 'cat-investimento', name: 'Investimento' },
+  { id: 'cat-outras-despesas', name: 'Outras Despesas' },
+  { id: 'cat-outras-receitas', name: 'Outras Receitas' },
+  { id: 'cat-transferencia', name: 'Transferências' },
+  { id: 'cat-unassigned', name: 'Sem Categoria' },
+];
+
+// Categorias do lar como o app as vê: as padrão, sobrescritas pelas gravadas no banco
+export async function householdCategories(client, householdId) {
+  const { rows } = await client.query('SELECT id, name, parent_id as "parentId", rollover_from as "rolloverFrom" FROM categories WHERE user_id = $1', [householdId]);
+  const byId = new Map(DEFAULT_CATEGORIES.map(c => [c.id, { ...c, parentId: null, rolloverFrom: null }]));
+  rows.forEach(c => byId.set(c.id, c));
+  return Array.from(byId.values());
+}
@@ -0,0 +1,31 @@
+import pg from 'pg';
+const { Pool } = pg;
+
+// Use a singleton pattern for the pool to ensure it stays active across requests
+let pool;
+
+export function getPool() {
+  if (!pool) {
+    const connectionString = process.env.POSTGRES_URL || process.env.DATABASE_URL;
+    
+    if (!connectionString) {
+      throw new Error('Database connection string is missing in environment variables.');
+    }
+
+    pool = new Pool({
+      connectionString,
+      ssl: {
+        // ESSENCIAL: Permite certificados auto-assinados de provedores como Neon ou Supabase
+        rejectUnauthorized: false
+      },
+      max: 10,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 10000,
+    });
+    
+    pool.on('error', (err) => {
+      console.error('Unexpected error on idle database client', err);
+    });
+  }
+  return pool;
+}
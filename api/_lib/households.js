@@ -0,0 +1,57 @@
+export const ROLES = ['owner', 'editor', 'viewer'];
+
+export async function ensureHouseholdSchema(client) {
+  const queries = [
+    `CREATE TABLE IF NOT EXISTS households (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS household_members (
+      household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      role TEXT NOT NULL,
+      PRIMARY KEY (household_id, user_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS household_invites (
+      id TEXT PRIMARY KEY,
+      household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+      email TEXT NOT NULL,
+      role TEXT NOT NULL,
+      invited_by TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`
+  ];
+
+  for (const q of queries) {
+    await client.query(q);
+  }
+}
+
+// Todo usuário tem um lar pessoal com o mesmo id do usuário. Como as tabelas financeiras
+// continuam usando a coluna user_id, os dados gravados antes dos lares seguem acessíveis.
+export async function ensurePersonalHousehold(client, user) {
+  await client.query(
+    'INSERT INTO households (id, name) VALUES ($1, $2) ON CONFLICT (id) DO NOTHING',
+    [user.id, `Finanças de ${user.name}`]
+  );
+  await client.query(
+    "INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $1, 'owner') ON CONFLICT DO NOTHING",
+    [user.id]
+  );
+}
+
+export async function getRole(client, householdId, userId) {
+  const result = await client.query(
+    'SELECT role FROM household_members WHERE household_id = $1 AND user_id = $2',
+    [householdId, userId]
+  );
+  return result.rows[0]?.role || null;
+}
+
+// O lar ativo vem do header X-Household-Id; sem ele, usamos o lar pessoal
+export async function resolveHousehold(client, req, user) {
+  const householdId = req.headers?.['x-household-id'] || user.id;
+  const role = await getRole(client, householdId, user.id);
+  return role ? { householdId, role } : null;
+}
@@ -0,0 +1,175 @@
+import { addDays, occurrenceId, occurrencesBetween } from './recurrence.js';
+import { ensureAlertSchema, evaluateBudgetAlerts } from './alerts.js';
+import { ensureFinanceSchema } from './schema.js';
+import { removeAttachmentsOf } from './attachments.js';
+import { recordDeletion } from './sync.js';
+
+// Sem data de início, a primeira execução recupera até 12 meses de ocorrências
+const BACKFILL_MONTHS = 12;
+// O ajuste de dia útil pode puxar uma ocorrência para antes do ponto onde a última execução parou
+const ADJUSTMENT_MARGIN_DAYS = 7;
+
+const TEMPLATE_COLUMNS = `id, description, amount::float, category_id as "categoryId", account_id as "accountId", type, day_of_month as "dayOfMonth", frequency, recurrence_interval as "interval", day_of_week as "dayOfWeek", month_of_year as "monthOfYear", business_day as "businessDay", to_char(start_date, 'YYYY-MM-DD') as "startDate", to_char(end_date, 'YYYY-MM-DD') as "endDate", to_char(materialized_through, 'YYYY-MM-DD') as "materializedThrough"`;
+
+const monthStart = (now, offset) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1)).toISOString().slice(0, 10);
+
+const signedAmount = (item) => item.type === 'expense' ? -Math.abs(item.amount) : Math.abs(item.amount);
+
+// Ocorrências de recorrência excluídas pelo usuário (tombstones rec-commit-*), que não devem voltar
+async function occurrenceTombstones(client, householdId, prefix = 'rec-commit-') {
+  const { rows } = await client.query(
+    `SELECT record_id FROM deleted_records WHERE user_id = $1 AND table_name = 'transactions' AND record_id LIKE $2`,
+    [householdId, `${prefix}%`]
+  );
+  return new Set(rows.map(r => r.record_id));
+}
+
+// Meses futuros são descartados por evaluateBudgetAlerts
+async function alertChangedExpenses(client, householdId, changed, now) {
+  const months = changed.filter(t => t.type === 'expense').map(t => t.date.slice(0, 7));
+  if (months.length === 0) return;
+  try {
+    await ensureAlertSchema(client);
+    await evaluateBudgetAlerts(client, householdId, months, now);
+  } catch (error) {
+    console.error('BUDGET ALERTS ERROR:', error);
+  }
+}
+
+// Gera os lançamentos devidos até o fim do mês seguinte. Os ids seguem o período nominal (os mesmos do
+// botão de lançar no app), o INSERT ignora o que já existe e ocorrências excluídas pelo usuário não voltam:
+// os tombstones de ocorrências (rec-commit-*) não expiram justamente para isso.
+// Tudo numa transação, com trava por lar para que cron, CLI e gravações simultâneas não se atropelem.
+export async function materializeRecurring(client, householdId, now = new Date()) {
+  const horizon = addDays(monthStart(now, 2), -1);
+  const created = [];
+
+  await client.query('BEGIN');
+  try {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`recurring:${householdId}`]);
+
+    const { rows: templates } = await client.query(
+      `SELECT ${TEMPLATE_COLUMNS} FROM recurring_templates WHERE user_id = $1 AND active AND (materialized_through IS NULL OR materialized_through < $2::date)`,
+      [householdId, horizon]
+    );
+
+    if (templates.length > 0) {
+      const tombstones = await occurrenceTombstones(client, householdId);
+
+      for (const item of templates) {
+        const from = item.materializedThrough
+          ? addDays(item.materializedThrough, 1 - ADJUSTMENT_MARGIN_DAYS)
+          : (item.startDate || monthStart(now, -BACKFILL_MONTHS));
+
+        for (const occurrence of occurrencesBetween(item, from, horizon)) {
+          const id = occurrenceId(item, occurrence);
+          if (tombstones.has(id)) continue;
+          const result = await client.query(`
+            INSERT INTO transactions (id, user_id, date, description, amount, category_id, type, is_recurring, recurring_id, account_id)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, TRUE, $8, $9)
+            ON CONFLICT (user_id, id) DO NOTHING
+            RETURNING id
+          `, [id, householdId, occurrence.date, item.description, signedAmount(item), item.categoryId, item.type, item.id, item.accountId || 'acc-principal']);
+          if (result.rows.length > 0) created.push({ id, date: occurrence.date, type: item.type });
+        }
+
+        await client.query('UPDATE recurring_templates SET materialized_through = $1 WHERE id = $2 AND user_id = $3', [horizon, item.id, householdId]);
+      }
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+
+  await alertChangedExpenses(client, householdId, created, now);
+  return created;
+}
+
+// Depois de editar ou excluir uma recorrência, os lançamentos dela que ainda não venceram passam a seguir a
+// regra atual: os que continuam na agenda são atualizados (mantendo id e anexos) e os que saíram dela são
+// excluídos com tombstone, para que a sincronização incremental os remova dos outros aparelhos. Lançamentos
+// já vencidos ficam como estão. Recorrência excluída ou pausada não deixa nenhum lançamento futuro.
+export async function refreshUpcomingOccurrences(client, householdId, templateId, now = new Date()) {
+  const today = now.toISOString().slice(0, 10);
+  const horizon = addDays(monthStart(now, 2), -1);
+  const changed = [];
+  const removed = [];
+
+  await client.query('BEGIN');
+  try {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`recurring:${householdId}`]);
+
+    const { rows: [item] } = await client.query(
+      `SELECT ${TEMPLATE_COLUMNS} FROM recurring_templates WHERE id = $1 AND user_id = $2 AND active`,
+      [templateId, householdId]
+    );
+    const { rows: upcoming } = await client.query(
+      `SELECT id FROM transactions WHERE user_id = $1 AND recurring_id = $2 AND is_recurring AND date >= $3::date`,
+      [householdId, templateId, today]
+    );
+    const pending = new Set(upcoming.map(r => r.id));
+
+    const scheduled = new Set();
+    if (item) {
+      const tombstones = await occurrenceTombstones(client, householdId, `rec-commit-${templateId}-`);
+      // Começa no mês corrente: um lançamento pendente cujo dia novo já passou é movido, não perdido
+      for (const occurrence of occurrencesBetween(item, monthStart(now, 0), horizon)) {
+        const id = occurrenceId(item, occurrence);
+        if (tombstones.has(id) || (occurrence.date < today && !pending.has(id))) continue;
+        scheduled.add(id);
+        const result = await client.query(`
+          INSERT INTO transactions (id, user_id, date, description, amount, category_id, type, is_recurring, recurring_id, account_id)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, TRUE, $8, $9)
+          ON CONFLICT (user_id, id) DO UPDATE SET
+            date = EXCLUDED.date, description = EXCLUDED.description, amount = EXCLUDED.amount, category_id = EXCLUDED.category_id,
+            type = EXCLUDED.type, account_id = EXCLUDED.account_id, updated_at = NOW(), version = transactions.version + 1, changed_at = NOW()
+          WHERE transactions.date >= $10::date
+            AND (transactions.date, transactions.description, transactions.amount, transactions.category_id, transactions.type, transactions.account_id)
+              IS DISTINCT FROM (EXCLUDED.date, EXCLUDED.description, EXCLUDED.amount, EXCLUDED.category_id, EXCLUDED.type, EXCLUDED.account_id)
+          RETURNING id
+        `, [id, householdId, occurrence.date, item.description, signedAmount(item), item.categoryId, item.type, item.id, item.accountId || 'acc-principal', today]);
+        if (result.rows.length > 0) changed.push({ id, date: occurrence.date, type: item.type });
+      }
+    }
+
+    for (const id of pending) {
+      if (scheduled.has(id)) continue;
+      await client.query('DELETE FROM transactions WHERE id = $1 AND user_id = $2', [id, householdId]);
+      removed.push(id);
+    }
+    await recordDeletion(client, householdId, 'transactions', removed);
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+
+  // Arquivos só saem depois do COMMIT, para não sumirem se a transação for desfeita
+  await removeAttachmentsOf(client, householdId, removed);
+  await alertChangedExpenses(client, householdId, changed, now);
+  return { changed, removed };
+}
+
+// Execução agendada: percorre os lares com recorrências pendentes. A falha de um lar não impede os demais.
+export async function materializeAllHouseholds(client, now = new Date()) {
+  await ensureFinanceSchema(client);
+  const horizon = addDays(monthStart(now, 2), -1);
+  const { rows } = await client.query(
+    'SELECT DISTINCT user_id FROM recurring_templates WHERE active AND (materialized_through IS NULL OR materialized_through < $1::date)',
+    [horizon]
+  );
+
+  const summary = { households: rows.length, created: 0, failed: 0 };
+  for (const { user_id: householdId } of rows) {
+    try {
+      summary.created += (await materializeRecurring(client, householdId, now)).length;
+    } catch (error) {
+      summary.failed += 1;
+      console.error(`RECURRING ERROR (${householdId}):`, error);
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { refreshUpcomingOccurrences } from './materialize.js';
+
+// Banco falso: guarda os lançamentos e tombstones em memória e responde às consultas de refreshUpcomingOccurrences
+const fakeClient = ({ template = null, transactions = [], tombstones = [] }) => {
+  const rows = new Map(transactions.map(t => [t.id, { ...t }]));
+  const deleted = new Set(tombstones);
+  return {
+    rows,
+    deleted,
+    async query(sql, params = []) {
+      if (sql.includes('FROM recurring_templates')) return { rows: template ? [template] : [] };
+      if (sql.includes('FROM deleted_records')) {
+        return { rows: [...deleted].filter(id => id.startsWith(params[1].slice(0, -1))).map(record_id => ({ record_id })) };
+      }
+      if (sql.includes('INSERT INTO deleted_records')) {
+        deleted.add(params[2]);
+        return { rows: [] };
+      }
+      if (sql.includes('SELECT id FROM transactions')) {
+        return { rows: [...rows.values()].filter(t => t.recurringId === params[1] && t.date >= params[2]).map(t => ({ id: t.id })) };
+      }
+      if (sql.includes('INSERT INTO transactions')) {
+        const [id, , date, description, amount, categoryId, type, recurringId, accountId, today] = params;
+        const incoming = { id, date, description, amount, categoryId, type, recurringId, accountId };
+        const current = rows.get(id);
+        if (current && (current.date < today || JSON.stringify(current) === JSON.stringify(incoming))) return { rows: [] };
+        rows.set(id, incoming);
+        return { rows: [{ id }] };
+      }
+      if (sql.includes('DELETE FROM transactions')) {
+        rows.delete(params[0]);
+        return { rows: [] };
+      }
+      return { rows: [] };
+    }
+  };
+};
+
+const now = new Date('2026-10-19T12:00:00Z');
+const occurrence = (month, day, amount = -100) => ({
+  id: `rec-commit-r1-${month}`, date: `${month}-${day}`, description: 'Aluguel', amount,
+  categoryId: 'cat-casa', type: 'expense', recurringId: 'r1', accountId: 'acc-principal'
+});
+const rent = {
+  id: 'r1', description: 'Aluguel', amount: 100, categoryId: 'cat-casa', accountId: null, type: 'expense',
+  dayOfMonth: 25, frequency: 'monthly', interval: 1, dayOfWeek: null, monthOfYear: null, businessDay: 'none',
+  startDate: '2026-01-01', endDate: null
+};
+const materialized = [occurrence('2026-09', '25'), occurrence('2026-10', '25'), occurrence('2026-11', '25')];
+
+test('editar valor e dia atualiza só os lançamentos que ainda não venceram', async () => {
+  const client = fakeClient({ template: { ...rent, amount: 120, dayOfMonth: 5 }, transactions: materialized });
+  const { removed } = await refreshUpcomingOccurrences(client, 'h1', 'r1', now);
+
+  assert.deepEqual(removed, []);
+  assert.deepEqual(client.rows.get('rec-commit-r1-2026-09'), occurrence('2026-09', '25'));
+  // O de outubro ainda estava pendente: vai para o dia novo mesmo que ele já tenha passado
+  assert.deepEqual(client.rows.get('rec-commit-r1-2026-10'), occurrence('2026-10', '05', -120));
+  assert.deepEqual(client.rows.get('rec-commit-r1-2026-11'), occurrence('2026-11', '05', -120));
+});
+
+test('mudar a frequência troca os lançamentos pendentes sem duplicar', async () => {
+  const client = fakeClient({ template: { ...rent, frequency: 'weekly', dayOfWeek: 1 }, transactions: materialized });
+  const { removed } = await refreshUpcomingOccurrences(client, 'h1', 'r1', now);
+
+  assert.deepEqual(removed, ['rec-commit-r1-2026-10', 'rec-commit-r1-2026-11']);
+  assert.ok(client.deleted.has('rec-commit-r1-2026-10') && client.deleted.has('rec-commit-r1-2026-11'));
+  assert.deepEqual([...client.rows.keys()].sort(), [
+    'rec-commit-r1-2026-09',
+    'rec-commit-r1-2026-10-19', 'rec-commit-r1-2026-10-26',
+    'rec-commit-r1-2026-11-02', 'rec-commit-r1-2026-11-09', 'rec-commit-r1-2026-11-16', 'rec-commit-r1-2026-11-23', 'rec-commit-r1-2026-11-30'
+  ]);
+});
+
+test('ocorrências excluídas pelo usuário não voltam ao editar', async () => {
+  const client = fakeClient({
+    template: { ...rent, amount: 120 },
+    transactions: materialized.filter(t => t.id !== 'rec-commit-r1-2026-11'),
+    tombstones: ['rec-commit-r1-2026-11']
+  });
+  await refreshUpcomingOccurrences(client, 'h1', 'r1', now);
+  assert.equal(client.rows.has('rec-commit-r1-2026-11'), false);
+  assert.deepEqual(client.rows.get('rec-commit-r1-2026-10'), occurrence('2026-10', '25', -120));
+});
+
+test('excluir a recorrência remove os lançamentos futuros e mantém os vencidos', async () => {
+  const client = fakeClient({ transactions: materialized });
+  const { removed } = await refreshUpcomingOccurrences(client, 'h1', 'r1', now);
+
+  assert.deepEqual(removed, ['rec-commit-r1-2026-10', 'rec-commit-r1-2026-11']);
+  assert.deepEqual([...client.rows.keys()], ['rec-commit-r1-2026-09']);
+});
@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+
+// Registro local: uma linha JSON por alerta, no console ou em NOTIFY_LOG_FILE. Útil para desenvolvimento e testes.
+const logNotifier = {
+  name: 'log',
+  async send(notification) {
+    const line = JSON.stringify({ at: new Date().toISOString(), ...notification });
+    if (process.env.NOTIFY_LOG_FILE) {
+      await fs.appendFile(process.env.NOTIFY_LOG_FILE, `${line}\n`);
+    } else {
+      console.log('BUDGET ALERT:', line);
+    }
+  }
+};
+
+// POST com o alerta em JSON (Slack/Discord via adaptador, n8n, Zapier...); o endereço vem do lar ou de ALERT_WEBHOOK_URL
+const webhookNotifier = {
+  name: 'webhook',
+  async send(notification, { webhookUrl }) {
+    const url = webhookUrl || process.env.ALERT_WEBHOOK_URL;
+    if (!url) return;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'budget_alert', ...notification })
+    });
+    if (!response.ok) throw new Error(`Webhook respondeu ${response.status}`);
+  }
+};
+
+// Email pela API HTTP do Resend, para não depender de SMTP nas funções serverless
+const emailNotifier = {
+  name: 'email',
+  async send(notification, { emails }) {
+    if (!emails.length || !process.env.RESEND_API_KEY) return;
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${process.env.RESEND_API_KEY}`
+      },
+      body: JSON.stringify({
+        from: process.env.ALERT_EMAIL_FROM || 'FinanceFlow <alertas@financeflow.app>',
+        to: emails,
+        subject: `Alerta de orçamento: ${notification.categoryName}`,
+        text: notification.message
+      })
+    });
+    if (!response.ok) throw new Error(`Provedor de email respondeu ${response.status}`);
+  }
+};
+
+const NOTIFIERS = { log: logNotifier, webhook: webhookNotifier, email: emailNotifier };
+
+// NOTIFIERS=log,webhook escolhe os canais; sem a variável, todos ficam ativos e cada um
+// só envia quando tem o que precisa (endereço do webhook, chave do email)
+export function getNotifiers() {
+  const configured = process.env.NOTIFIERS;
+  if (!configured) return Object.values(NOTIFIERS);
+  return configured.split(',').map(name => name.trim()).filter(Boolean).map(name => {
+    const notifier = NOTIFIERS[name];
+    if (!notifier) throw new Error(`Canal de notificação desconhecido: ${name}`);
+    return notifier;
+  });
+}
+
+// Um canal com problema não impede os outros
+export async function deliver(notifiers, notification, context) {
+  for (const notifier of notifiers) {
+    try {
+      await notifier.send(notification, context);
+    } catch (error) {
+      console.error(`NOTIFIER ERROR (${notifier.name}):`, error);
+    }
+  }
+}
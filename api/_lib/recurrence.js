@@ -0,0 +1,102 @@
+// Mesmas regras de utils/recurrence.ts, com datas 'YYYY-MM-DD' calculadas em UTC para não depender do fuso do servidor.
+// Os templates chegam com os nomes do cliente (dayOfMonth, frequency, interval...).
+const utc = (year, month, day) => new Date(Date.UTC(year, month, day));
+const iso = (date) => date.toISOString().slice(0, 10);
+const parseDate = (value) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return utc(year, month - 1, day);
+};
+export const addDays = (value, days) => {
+  const date = parseDate(value);
+  return iso(utc(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+};
+const daysInMonth = (year, month) => utc(year, month + 1, 0).getUTCDate();
+
+// Sem data de início, intervalos maiores que 1 contam a partir de uma segunda-feira fixa
+const DEFAULT_ANCHOR = '2000-01-03';
+
+export function easterSunday(year) {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return iso(utc(year, month - 1, day));
+}
+
+const holidayCache = new Map();
+
+export function brazilianHolidays(year) {
+  if (holidayCache.has(year)) return holidayCache.get(year);
+  const fixed = ['01-01', '04-21', '05-01', '09-07', '10-12', '11-02', '11-15', '12-25'];
+  if (year >= 2024) fixed.push('11-20');
+  const easter = easterSunday(year);
+  const holidays = new Set([
+    ...fixed.map(day => `${year}-${day}`),
+    ...[-48, -47, -2, 60].map(offset => addDays(easter, offset))
+  ]);
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+export const isBusinessDay = (value) => {
+  const weekday = parseDate(value).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !brazilianHolidays(Number(value.slice(0, 4))).has(value);
+};
+
+export function adjustToBusinessDay(value, adjustment = 'none') {
+  if (adjustment === 'none') return value;
+  const step = adjustment === 'previous' ? -1 : 1;
+  let adjusted = value;
+  while (!isBusinessDay(adjusted)) adjusted = addDays(adjusted, step);
+  return adjusted;
+}
+
+// Ocorrências com data efetiva entre from e to (inclusive), no formato { key, date }
+export function occurrencesBetween(item, from, to) {
+  const frequency = item.frequency || 'monthly';
+  const interval = Math.max(1, item.interval || 1);
+  const startDate = item.startDate?.slice(0, 10);
+  const endDate = item.endDate?.slice(0, 10);
+  const anchor = parseDate(startDate || DEFAULT_ANCHOR);
+  const scanFrom = addDays(from, -7);
+  const scanTo = addDays(to, 7);
+  const nominal = [];
+
+  if (frequency === 'weekly') {
+    const weekday = item.dayOfWeek ?? anchor.getUTCDay();
+    const first = addDays(iso(anchor), (weekday - anchor.getUTCDay() + 7) % 7);
+    const step = 7 * interval;
+    const gap = Math.round((parseDate(scanFrom) - parseDate(first)) / 86400000);
+    const skip = Math.max(0, Math.ceil(gap / step));
+    for (let d = addDays(first, skip * step); d <= scanTo; d = addDays(d, step)) nominal.push(d);
+  } else {
+    const step = frequency === 'yearly' ? 12 * interval : interval;
+    const first = anchor.getUTCFullYear() * 12 + (frequency === 'yearly' ? (item.monthOfYear || anchor.getUTCMonth() + 1) - 1 : anchor.getUTCMonth());
+    const scanFromIndex = Number(scanFrom.slice(0, 4)) * 12 + Number(scanFrom.slice(5, 7)) - 1;
+    const scanToIndex = Number(scanTo.slice(0, 4)) * 12 + Number(scanTo.slice(5, 7)) - 1;
+    const skip = Math.max(0, Math.ceil((scanFromIndex - first) / step));
+    for (let index = first + skip * step; index <= scanToIndex; index += step) {
+      const year = Math.floor(index / 12);
+      const month = index % 12;
+      nominal.push(iso(utc(year, month, Math.min(Math.max(1, item.dayOfMonth), daysInMonth(year, month)))));
+    }
+  }
+
+  return nominal
+    .filter(d => (!startDate || d >= startDate) && (!endDate || d <= endDate))
+    .map(d => ({ key: frequency === 'weekly' ? d : d.slice(0, 7), date: adjustToBusinessDay(d, item.businessDay) }))
+    .filter(o => o.date >= from && o.date <= to);
+}
+
+// Mesmo id de utils/recurrence.ts; lá está quais mudanças na regra mantêm os ids
+export const occurrenceId = (item, occurrence) => `rec-commit-${item.id}-${occurrence.key}`;
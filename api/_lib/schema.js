@@ -0,0 +1,166 @@
+import { BUDGET_BASE_MONTH } from './budgets.js';
+
+// Ids vêm do cliente e se repetem entre lares (cat-*, acc-principal, importações), então a chave inclui o lar
+const HOUSEHOLD_SCOPED_TABLES = ['transactions', 'categories', 'recurring_templates', 'accounts', 'import_profiles', 'category_rules', 'goals'];
+
+// Tabelas financeiras do lar; usada pela API e pela materialização agendada, que pode rodar antes de qualquer acesso
+export async function ensureFinanceSchema(client) {
+  const queries = [
+    `CREATE TABLE IF NOT EXISTS categories (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      color TEXT NOT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS transactions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      date DATE NOT NULL,
+      description TEXT NOT NULL,
+      amount DECIMAL(12,2) NOT NULL,
+      category_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      is_recurring BOOLEAN DEFAULT FALSE,
+      recurring_id TEXT
+    )`,
+    `CREATE TABLE IF NOT EXISTS budgets (
+      user_id TEXT NOT NULL,
+      category_id TEXT NOT NULL,
+      amount DECIMAL(12,2) NOT NULL,
+      PRIMARY KEY (user_id, category_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS recurring_templates (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      description TEXT NOT NULL,
+      amount DECIMAL(12,2) NOT NULL,
+      category_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      day_of_month INTEGER NOT NULL,
+      active BOOLEAN DEFAULT TRUE,
+      start_date DATE,
+      end_date DATE
+    )`,
+    `CREATE TABLE IF NOT EXISTS accounts (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'BRL',
+      opening_balance DECIMAL(12,2) NOT NULL DEFAULT 0
+    )`,
+    `ALTER TABLE transactions ADD COLUMN IF NOT EXISTS account_id TEXT NOT NULL DEFAULT 'acc-principal'`,
+    `ALTER TABLE recurring_templates ADD COLUMN IF NOT EXISTS account_id TEXT`,
+    `ALTER TABLE recurring_templates ADD COLUMN IF NOT EXISTS frequency TEXT NOT NULL DEFAULT 'monthly'`,
+    `ALTER TABLE recurring_templates ADD COLUMN IF NOT EXISTS recurrence_interval INTEGER NOT NULL DEFAULT 1`,
+    `ALTER TABLE recurring_templates ADD COLUMN IF NOT EXISTS day_of_week INTEGER`,
+    `ALTER TABLE recurring_templates ADD COLUMN IF NOT EXISTS month_of_year INTEGER`,
+    `ALTER TABLE recurring_templates ADD COLUMN IF NOT EXISTS business_day TEXT NOT NULL DEFAULT 'none'`,
+    `ALTER TABLE recurring_templates ADD COLUMN IF NOT EXISTS materialized_through DATE`,
+    `ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_id TEXT`,
+    `ALTER TABLE accounts ADD COLUMN IF NOT EXISTS closing_day INTEGER`,
+    `ALTER TABLE accounts ADD COLUMN IF NOT EXISTS due_day INTEGER`,
+    `ALTER TABLE transactions ADD COLUMN IF NOT EXISTS installment_id TEXT`,
+    `ALTER TABLE transactions ADD COLUMN IF NOT EXISTS installment_number INTEGER`,
+    `ALTER TABLE transactions ADD COLUMN IF NOT EXISTS installment_count INTEGER`,
+    `ALTER TABLE transactions ADD COLUMN IF NOT EXISTS splits JSONB`,
+    `ALTER TABLE transactions ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}'`,
+    `ALTER TABLE transactions ADD COLUMN IF NOT EXISTS notes TEXT`,
+    `ALTER TABLE categories ADD COLUMN IF NOT EXISTS parent_id TEXT`,
+    `ALTER TABLE categories ADD COLUMN IF NOT EXISTS requires_receipt BOOLEAN NOT NULL DEFAULT FALSE`,
+    `ALTER TABLE categories ADD COLUMN IF NOT EXISTS rollover_from TEXT`,
+    `ALTER TABLE transactions ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1`,
+    `ALTER TABLE transactions ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()`,
+    `ALTER TABLE categories ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1`,
+    `ALTER TABLE categories ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()`,
+    `ALTER TABLE budgets ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1`,
+    `ALTER TABLE budgets ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()`,
+    `ALTER TABLE recurring_templates ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1`,
+    `ALTER TABLE recurring_templates ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()`,
+    `ALTER TABLE accounts ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1`,
+    `ALTER TABLE accounts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()`,
+    `ALTER TABLE transactions ADD COLUMN IF NOT EXISTS changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()`,
+    `ALTER TABLE categories ADD COLUMN IF NOT EXISTS changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()`,
+    `ALTER TABLE budgets ADD COLUMN IF NOT EXISTS changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()`,
+    `ALTER TABLE recurring_templates ADD COLUMN IF NOT EXISTS changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()`,
+    `ALTER TABLE accounts ADD COLUMN IF NOT EXISTS changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()`,
+    `CREATE INDEX IF NOT EXISTS transactions_changed_idx ON transactions (user_id, changed_at)`,
+    `CREATE INDEX IF NOT EXISTS categories_changed_idx ON categories (user_id, changed_at)`,
+    `CREATE INDEX IF NOT EXISTS budgets_changed_idx ON budgets (user_id, changed_at)`,
+    `ALTER TABLE budgets ADD COLUMN IF NOT EXISTS month TEXT NOT NULL DEFAULT '${BUDGET_BASE_MONTH}'`,
+    `DO $$ BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM information_schema.key_column_usage
+        WHERE table_name = 'budgets' AND constraint_name = 'budgets_pkey' AND column_name = 'month'
+      ) THEN
+        ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_pkey;
+        ALTER TABLE budgets ADD PRIMARY KEY (user_id, category_id, month);
+      END IF;
+    END $$`,
+    `CREATE INDEX IF NOT EXISTS recurring_templates_changed_idx ON recurring_templates (user_id, changed_at)`,
+    `CREATE INDEX IF NOT EXISTS accounts_changed_idx ON accounts (user_id, changed_at)`,
+    `ALTER TABLE accounts ADD COLUMN IF NOT EXISTS external_id TEXT`,
+    `CREATE TABLE IF NOT EXISTS import_profiles (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      header_signature TEXT NOT NULL,
+      header_row INTEGER NOT NULL DEFAULT 0,
+      mapping JSONB NOT NULL,
+      date_format TEXT NOT NULL DEFAULT 'auto',
+      decimal_separator TEXT NOT NULL DEFAULT 'auto',
+      invert_sign BOOLEAN NOT NULL DEFAULT FALSE,
+      account_id TEXT,
+      version INTEGER NOT NULL DEFAULT 1,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS category_rules (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      priority INTEGER NOT NULL DEFAULT 0,
+      active BOOLEAN NOT NULL DEFAULT TRUE,
+      conditions JSONB NOT NULL,
+      actions JSONB NOT NULL,
+      version INTEGER NOT NULL DEFAULT 1,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS goals (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      target_amount DECIMAL(12,2) NOT NULL,
+      target_date DATE NOT NULL,
+      start_date DATE NOT NULL,
+      initial_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+      source_type TEXT NOT NULL,
+      source_id TEXT NOT NULL,
+      color TEXT NOT NULL,
+      version INTEGER NOT NULL DEFAULT 1,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS deleted_records (
+      user_id TEXT NOT NULL,
+      table_name TEXT NOT NULL,
+      record_id TEXT NOT NULL,
+      deleted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (user_id, table_name, record_id)
+    )`,
+    ...HOUSEHOLD_SCOPED_TABLES.map(table => `DO $$ BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM information_schema.key_column_usage
+        WHERE table_name = '${table}' AND constraint_name = '${table}_pkey' AND column_name = 'user_id'
+      ) THEN
+        ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${table}_pkey;
+        ALTER TABLE ${table} ADD PRIMARY KEY (user_id, id);
+      END IF;
+    END $$`)
+  ];
+
+  for (const q of queries) {
+    await client.query(q);
+  }
+}
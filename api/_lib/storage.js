@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Arquivos em disco, para desenvolvimento. Em funções serverless o disco é efêmero: use S3.
+const localStorage = {
+  name: 'local',
+  root() {
+    return path.resolve(process.env.ATTACHMENTS_DIR || '.attachments');
+  },
+  resolve(key) {
+    const file = path.resolve(this.root(), key);
+    if (!file.startsWith(this.root() + path.sep)) throw new Error('Chave de anexo inválida');
+    return file;
+  },
+  async put(key, data) {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  },
+  async get(key) {
+    return fs.readFile(this.resolve(key));
+  },
+  async remove(key) {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+};
+
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+const encodeSegment = (segment) => encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// Qualquer serviço compatível com S3 (AWS, Cloudflare R2, MinIO, Backblaze...), assinado com
+// AWS Signature V4 direto no fetch para não depender do SDK
+const s3Storage = {
+  name: 's3',
+  url(key) {
+    const bucket = process.env.S3_BUCKET;
+    const region = process.env.S3_REGION || 'us-east-1';
+    const objectPath = key.split('/').map(encodeSegment).join('/');
+    if (process.env.S3_ENDPOINT) {
+      // Endpoints próprios (R2, MinIO) normalmente só aceitam o bucket no caminho
+      return new URL(`${process.env.S3_ENDPOINT.replace(/\/$/, '')}/${encodeSegment(bucket)}/${objectPath}`);
+    }
+    return new URL(`https://${bucket}.s3.${region}.amazonaws.com/${objectPath}`);
+  },
+  async request(method, key, body, contentType) {
+    const url = this.url(key);
+    const region = process.env.S3_REGION || 'us-east-1';
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const day = amzDate.slice(0, 8);
+    const payloadHash = sha256(body || '');
+
+    const headers = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    if (contentType) headers['content-type'] = contentType;
+
+    const names = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      names.map(n => `${n}:${headers[n]}\n`).join(''),
+      names.join(';'),
+      payloadHash
+    ].join('\n');
+    const scope = `${day}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${process.env.S3_SECRET_ACCESS_KEY || ''}`, day), region)
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host, ...sent } = headers;
+    const response = await fetch(url, {
+      method,
+      body,
+      headers: {
+        ...sent,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${process.env.S3_ACCESS_KEY_ID || ''}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`
+      }
+    });
+    if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+      throw new Error(`Armazenamento S3 respondeu ${response.status}`);
+    }
+    return response;
+  },
+  async put(key, data, contentType) {
+    await this.request('PUT', key, data, contentType);
+  },
+  async get(key) {
+    const response = await this.request('GET', key);
+    return Buffer.from(await response.arrayBuffer());
+  },
+  async remove(key) {
+    await this.request('DELETE', key);
+  }
+};
+
+const BACKENDS = { local: localStorage, s3: s3Storage };
+
+export function getStorage() {
+  const configured = process.env.STORAGE_BACKEND;
+  if (configured) {
+    const backend = BACKENDS[configured];
+    if (!backend) throw new Error(`Armazenamento desconhecido: ${configured}`);
+    return backend;
+  }
+  return process.env.S3_BUCKET ? s3Storage : localStorage;
+}
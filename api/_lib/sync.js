@@ -0,0 +1,34 @@
+// Last-writer-wins por registro. O cliente envia a versão que viu por último (version) e o
+// momento em que editou (updatedAt). Se o registro mudou no servidor desde então, prevalece
+// a edição mais recente e o conflito volta na resposta para aparecer na lista do app.
+export async function checkWrite(client, conflicts, { table, where, params, recordId, incoming }) {
+  const result = await client.query(`SELECT version, updated_at FROM ${table} WHERE ${where}`, params);
+  const current = result.rows[0] || null;
+
+  if (!current || incoming?.version === undefined || incoming?.version === null) {
+    return { apply: true, current };
+  }
+  if (Number(current.version) === Number(incoming.version)) {
+    return { apply: true, current };
+  }
+
+  const localTime = incoming.updatedAt ? new Date(incoming.updatedAt).getTime() : Date.now();
+  const serverWins = new Date(current.updated_at).getTime() > localTime;
+  conflicts.push({ table, recordId, resolution: serverWins ? 'server' : 'local' });
+  return { apply: !serverWins, current };
+}
+
+// Momento da edição usado no updated_at; edições offline mantêm a hora em que foram feitas
+export function editedAt(incoming) {
+  return incoming?.updatedAt || new Date().toISOString();
+}
+
+// Exclusões viram tombstones para que a sincronização incremental (?since=) as propague
+export async function recordDeletion(client, householdId, table, recordIds) {
+  for (const recordId of recordIds) {
+    await client.query(`
+      INSERT INTO deleted_records (user_id, table_name, record_id) VALUES ($1, $2, $3)
+      ON CONFLICT (user_id, table_name, record_id) DO UPDATE SET deleted_at = NOW()
+    `, [householdId, table, recordId]);
+  }
+}
@@ -0,0 +1,88 @@
+import { getPool } from './_lib/db.js';
+import { ensureAuthSchema, getSessionUser } from './_lib/auth.js';
+import { ensureHouseholdSchema, ensurePersonalHousehold, resolveHousehold } from './_lib/households.js';
+import { ensureAlertSchema, getAlertSettings } from './_lib/alerts.js';
+
+const NOTIFICATION_COLUMNS = `id, category_id as "categoryId", month, kind, threshold, message, spent::float, budget::float, created_at as "createdAt", read_at as "readAt"`;
+
+// Alertas de orçamento do lar: preferências e caixa de notificações. A avaliação acontece ao gravar lançamentos (finance.js).
+export default async function handler(req, res) {
+  const { method } = req;
+  const { action } = req.query;
+
+  let client;
+  try {
+    const p = getPool();
+    client = await p.connect();
+
+    await ensureAuthSchema(client);
+    const user = await getSessionUser(client, req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sessão inválida ou expirada.' });
+    }
+
+    await ensureHouseholdSchema(client);
+    await ensurePersonalHousehold(client, user);
+
+    const membership = await resolveHousehold(client, req, user);
+    if (!membership) {
+      return res.status(403).json({ error: 'Você não faz parte deste lar.' });
+    }
+    const householdId = membership.householdId;
+
+    await ensureAlertSchema(client);
+
+    if (method === 'GET') {
+      const [settings, notifications] = await Promise.all([
+        getAlertSettings(client, householdId),
+        client.query(`SELECT ${NOTIFICATION_COLUMNS} FROM budget_notifications WHERE user_id = $1 ORDER BY created_at DESC LIMIT 50`, [householdId])
+      ]);
+      return res.status(200).json({ settings, notifications: notifications.rows });
+    }
+
+    if (method === 'POST') {
+      const body = req.body || {};
+
+      // Marcar como lida é pessoal o bastante para valer também para quem só visualiza
+      if (action === 'markRead') {
+        const ids = Array.isArray(body.ids) ? body.ids.map(Number).filter(Number.isInteger) : null;
+        await client.query(
+          `UPDATE budget_notifications SET read_at = NOW() WHERE user_id = $1 AND read_at IS NULL${ids ? ' AND id = ANY($2::int[])' : ''}`,
+          ids ? [householdId, ids] : [householdId]
+        );
+        return res.status(200).json({ success: true });
+      }
+
+      if (action === 'saveSettings') {
+        if (membership.role === 'viewer') {
+          return res.status(403).json({ error: 'Seu acesso a este lar é somente leitura.' });
+        }
+        const thresholds = Array.from(new Set((Array.isArray(body.thresholds) ? body.thresholds : []).map(Number)))
+          .filter(t => Number.isInteger(t) && t > 0 && t <= 500)
+          .sort((a, b) => a - b);
+        if (thresholds.length === 0) {
+          return res.status(400).json({ error: 'Informe ao menos um limite entre 1% e 500%.' });
+        }
+        const webhookUrl = typeof body.webhookUrl === 'string' ? body.webhookUrl.trim() : '';
+        if (webhookUrl && !/^https:\/\/\S+$/.test(webhookUrl)) {
+          return res.status(400).json({ error: 'O webhook precisa ser um endereço https.' });
+        }
+        await client.query(`
+          INSERT INTO alert_settings (user_id, thresholds, pace, email, webhook_url)
+          VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (user_id) DO UPDATE SET thresholds = EXCLUDED.thresholds, pace = EXCLUDED.pace, email = EXCLUDED.email, webhook_url = EXCLUDED.webhook_url, updated_at = NOW()
+        `, [householdId, thresholds, body.pace !== false, !!body.email, webhookUrl || null]);
+        return res.status(200).json({ settings: await getAlertSettings(client, householdId) });
+      }
+
+      return res.status(400).json({ error: 'Ação inválida' });
+    }
+
+    return res.status(405).json({ error: 'Método não permitido' });
+  } catch (error) {
+    console.error('DATABASE CRITICAL ERROR:', error);
+    return res.status(500).json({ error: 'Erro na operação do banco de dados', details: error.message });
+  } finally {
+    if (client) client.release();
+  }
+}
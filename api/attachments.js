@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { getPool } from './_lib/db.js';
+import { ensureAuthSchema, getSessionUser } from './_lib/auth.js';
+import { ensureHouseholdSchema, ensurePersonalHousehold, resolveHousehold } from './_lib/households.js';
+import { ALLOWED_CONTENT_TYPES, MAX_ATTACHMENT_BYTES, ensureAttachmentSchema, touchTransaction } from './_lib/attachments.js';
+import { getStorage } from './_lib/storage.js';
+
+const ATTACHMENT_COLUMNS = `id, transaction_id as "transactionId", file_name as "fileName", content_type as "contentType", size, created_at as "createdAt"`;
+
+// Comprovantes dos lançamentos. O arquivo vai para o armazenamento configurado; o banco guarda só os metadados.
+export default async function handler(req, res) {
+  const { method } = req;
+  const { action } = req.query;
+
+  let client;
+  try {
+    const p = getPool();
+    client = await p.connect();
+
+    await ensureAuthSchema(client);
+    const user = await getSessionUser(client, req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sessão inválida ou expirada.' });
+    }
+
+    await ensureHouseholdSchema(client);
+    await ensurePersonalHousehold(client, user);
+
+    const membership = await resolveHousehold(client, req, user);
+    if (!membership) {
+      return res.status(403).json({ error: 'Você não faz parte deste lar.' });
+    }
+    if (method === 'POST' && membership.role === 'viewer') {
+      return res.status(403).json({ error: 'Seu acesso a este lar é somente leitura.' });
+    }
+    const householdId = membership.householdId;
+
+    await ensureAttachmentSchema(client);
+    const storage = getStorage();
+
+    if (method === 'GET') {
+      if (action === 'download') {
+        const result = await client.query('SELECT * FROM attachments WHERE id = $1 AND user_id = $2', [req.query.id, householdId]);
+        const attachment = result.rows[0];
+        if (!attachment) return res.status(404).json({ error: 'Anexo não encontrado.' });
+
+        const data = await storage.get(attachment.storage_key);
+        res.setHeader('Content-Type', attachment.content_type);
+        res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`);
+        return res.status(200).send(data);
+      }
+
+      const result = await client.query(
+        `SELECT ${ATTACHMENT_COLUMNS} FROM attachments WHERE user_id = $1 AND transaction_id = $2 ORDER BY created_at`,
+        [householdId, req.query.transactionId]
+      );
+      return res.status(200).json({ attachments: result.rows });
+    }
+
+    if (method === 'POST') {
+      const body = req.body || {};
+
+      if (action === 'upload') {
+        const { transactionId, fileName, contentType, data } = body;
+        if (!ALLOWED_CONTENT_TYPES.includes(contentType)) {
+          return res.status(400).json({ error: 'Envie um PDF ou uma foto (JPG, PNG, WEBP ou HEIC).' });
+        }
+        const buffer = Buffer.from(typeof data === 'string' ? data : '', 'base64');
+        if (buffer.length === 0) {
+          return res.status(400).json({ error: 'Arquivo vazio.' });
+        }
+        if (buffer.length > MAX_ATTACHMENT_BYTES) {
+          return res.status(400).json({ error: `O arquivo passa do limite de ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.` });
+        }
+        const owner = await client.query('SELECT 1 FROM transactions WHERE id = $1 AND user_id = $2', [transactionId, householdId]);
+        if (owner.rows.length === 0) {
+          return res.status(404).json({ error: 'Lançamento não encontrado.' });
+        }
+
+        const id = `att-${crypto.randomUUID()}`;
+        const storageKey = `${householdId}/${id}`;
+        await storage.put(storageKey, buffer, contentType);
+        const result = await client.query(`
+          INSERT INTO attachments (id, user_id, transaction_id, file_name, content_type, size, storage_key)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)
+          RETURNING ${ATTACHMENT_COLUMNS}
+        `, [id, householdId, transactionId, String(fileName || 'comprovante').slice(0, 200), contentType, buffer.length, storageKey]);
+        await touchTransaction(client, householdId, transactionId);
+        return res.status(200).json({ attachment: result.rows[0] });
+      }
+
+      if (action === 'delete') {
+        const result = await client.query(
+          'DELETE FROM attachments WHERE id = $1 AND user_id = $2 RETURNING transaction_id, storage_key',
+          [body.id, householdId]
+        );
+        const removed = result.rows[0];
+        if (removed) {
+          await storage.remove(removed.storage_key);
+          await touchTransaction(client, householdId, removed.transaction_id);
+        }
+        return res.status(200).json({ success: true });
+      }
+
+      return res.status(400).json({ error: 'Ação inválida' });
+    }
+
+    return res.status(405).json({ error: 'Método não permitido' });
+  } catch (error) {
+    console.error('DATABASE CRITICAL ERROR:', error);
+    return res.status(500).json({ error: 'Erro na operação do banco de dados', details: error.message });
+  } finally {
+    if (client) client.release();
+  }
+}
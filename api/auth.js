@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { getPool } from './_lib/db.js';
+import { ensureAuthSchema, hashPassword, verifyPassword, createSession, getSessionUser, deleteSession } from './_lib/auth.js';
+
+// Id do usuário único das versões anteriores, que não tinham login.
+// A primeira conta criada herda esse id para não perder o histórico já gravado.
+const LEGACY_USER_ID = 'main-user';
+
+export default async function handler(req, res) {
+  const { method } = req;
+  const { action } = req.query;
+
+  let client;
+  try {
+    const p = getPool();
+    client = await p.connect();
+
+    await ensureAuthSchema(client);
+
+    if (method === 'GET' && action === 'me') {
+      const user = await getSessionUser(client, req);
+      if (!user) return res.status(401).json({ error: 'Sessão inválida ou expirada.' });
+      return res.status(200).json({ user });
+    }
+
+    if (method === 'POST') {
+      const body = req.body || {};
+      const email = String(body.email || '').trim().toLowerCase();
+      const password = String(body.password || '');
+
+      switch (action) {
+        case 'signup': {
+          const name = String(body.name || '').trim();
+          if (!name || !email || password.length < 8) {
+            return res.status(400).json({ error: 'Informe nome, email e uma senha de pelo menos 8 caracteres.' });
+          }
+
+          const existing = await client.query('SELECT id FROM users WHERE email = $1', [email]);
+          if (existing.rows.length > 0) {
+            return res.status(409).json({ error: 'Este email já está cadastrado.' });
+          }
+
+          const count = await client.query('SELECT COUNT(*)::int AS total FROM users');
+          const id = count.rows[0].total === 0 ? LEGACY_USER_ID : `usr-${crypto.randomUUID()}`;
+
+          await client.query(
+            'INSERT INTO users (id, email, name, password_hash) VALUES ($1, $2, $3, $4)',
+            [id, email, name, hashPassword(password)]
+          );
+          const token = await createSession(client, id);
+          return res.status(201).json({ token, user: { id, name, email } });
+        }
+
+        case 'login': {
+          const result = await client.query('SELECT id, name, email, password_hash FROM users WHERE email = $1', [email]);
+          const row = result.rows[0];
+          if (!row || !verifyPassword(password, row.password_hash)) {
+            return res.status(401).json({ error: 'Credenciais inválidas. Tente novamente.' });
+          }
+          const token = await createSession(client, row.id);
+          return res.status(200).json({ token, user: { id: row.id, name: row.name, email: row.email } });
+        }
+
+        case 'logout':
+          await deleteSession(client, req);
+          return res.status(200).json({ success: true });
+
+        default:
+          return res.status(400).json({ error: 'Ação inválida' });
+      }
+    }
+
+    return res.status(405).json({ error: 'Método não permitido' });
+  } catch (error) {
+    console.error('AUTH CRITICAL ERROR:', error);
+    return res.status(500).json({
+      error: 'Erro na autenticação',
+      details: error.message
+    });
+  } finally {
+    if (client) client.release();
+  }
+}
@@ -0,0 +1,65 @@
+import { getPool } from './_lib/db.js';
+import { ensureAuthSchema, getSessionUser } from './_lib/auth.js';
+import { ensureHouseholdSchema, ensurePersonalHousehold, resolveHousehold } from './_lib/households.js';
+import { ensureFinanceSchema } from './_lib/schema.js';
+import { householdCategories } from './_lib/categories.js';
+import { MAX_DESCRIPTIONS, classifyDescriptions, getProvider } from './_lib/ai.js';
+
+// A chave do provedor fica só no servidor; o navegador manda descrições e recebe ids das categorias do lar
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Método não permitido' });
+  }
+
+  // As categorias vêm do banco, não do navegador, para a resposta nunca trazer um id de fora do lar
+  let client;
+  let categories;
+  try {
+    client = await getPool().connect();
+    await ensureAuthSchema(client);
+    const user = await getSessionUser(client, req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sessão inválida ou expirada.' });
+    }
+
+    await ensureHouseholdSchema(client);
+    await ensurePersonalHousehold(client, user);
+
+    const membership = await resolveHousehold(client, req, user);
+    if (!membership) {
+      return res.status(403).json({ error: 'Você não faz parte deste lar.' });
+    }
+
+    await ensureFinanceSchema(client);
+    categories = (await householdCategories(client, membership.householdId))
+      .filter(c => c.id !== 'cat-unassigned')
+      .map(c => ({ id: c.id, name: c.name }));
+  } catch (error) {
+    console.error('DATABASE CRITICAL ERROR:', error);
+    return res.status(500).json({ error: 'Erro na operação do banco de dados', details: error.message });
+  } finally {
+    if (client) client.release();
+  }
+
+  const body = req.body || {};
+  const requested = Array.from(new Set(
+    (Array.isArray(body.descriptions) ? body.descriptions : [])
+      .filter(d => typeof d === 'string' && d.trim())
+  ));
+  const descriptions = requested.slice(0, MAX_DESCRIPTIONS);
+  // Descrições além do teto voltam sem sugestão; o app avisa quantas ficaram de fora
+  const truncated = requested.length - descriptions.length;
+
+  if (descriptions.length === 0 || categories.length === 0) {
+    return res.status(200).json({ suggestions: {}, provider: null, failedBatches: 0, truncated });
+  }
+
+  try {
+    const provider = getProvider();
+    const { suggestions, failedBatches } = await classifyDescriptions(provider, descriptions, categories);
+    return res.status(200).json({ suggestions, provider: provider.name, failedBatches, truncated });
+  } catch (error) {
+    console.error('AI CRITICAL ERROR:', error);
+    return res.status(500).json({ error: 'Erro ao classificar lançamentos', details: error.message });
+  }
+}
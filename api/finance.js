@@ -1,153 +1,273 @@
-import pg from 'pg';
-const { Pool } = pg;
+import { getPool } from './_lib/db.js';
+import { ensureAuthSchema, getSessionUser } from './_lib/auth.js';
+import { ensureHouseholdSchema, ensurePersonalHousehold, resolveHousehold } from './_lib/households.js';
+import { checkWrite, editedAt, recordDeletion } from './_lib/sync.js';
+import { ensureAttachmentSchema, removeAttachmentsOf } from './_lib/attachments.js';
+import { budgetAt, isMonth } from './_lib/budgets.js';
+import { ensureFinanceSchema } from './_lib/schema.js';
+import { householdCategories } from './_lib/categories.js';
+import { ensureAlertSchema, evaluateBudgetAlerts } from './_lib/alerts.js';
+import { materializeRecurring, refreshUpcomingOccurrences } from './_lib/materialize.js';
 
-// Use a singleton pattern for the pool to ensure it stays active across requests
-let pool;
+const RECURRENCE_FREQUENCIES = ['weekly', 'monthly', 'yearly'];
+const BUSINESS_DAY_ADJUSTMENTS = ['none', 'previous', 'next'];
 
-function getPool() {
-  if (!pool) {
-    const connectionString = process.env.POSTGRES_URL || process.env.DATABASE_URL;
-    
-    if (!connectionString) {
-      throw new Error('Database connection string is missing in environment variables.');
-    }
+// Tombstones mais antigos que isso são descartados; cursores anteriores recebem a carga completa
+const TOMBSTONE_RETENTION_DAYS = 90;
 
-    pool = new Pool({
-      connectionString,
-      ssl: {
-        // ESSENCIAL: Permite certificados auto-assinados de provedores como Neon ou Supabase
-        rejectUnauthorized: false
-      },
-      max: 10,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-    
-    pool.on('error', (err) => {
-      console.error('Unexpected error on idle database client', err);
-    });
-  }
-  return pool;
+// Lançamento dividido: as partes precisam somar o valor total, conferido em centavos
+const hasSplits = (t) => Array.isArray(t.splits) && t.splits.length > 1;
+const invalidSplits = (t) => hasSplits(t) &&
+  t.splits.reduce((sum, s) => sum + Math.round(Number(s.amount) * 100), 0) !== Math.round(Number(t.amount) * 100);
+const splitsValue = (t) => hasSplits(t)
+  ? JSON.stringify(t.splits.map(s => ({ categoryId: s.categoryId, amount: Number(s.amount) })))
+  : null;
+const SPLITS_ERROR = 'As partes da divisão precisam somar o valor do lançamento.';
+
+// Mesma normalização de utils/tags.ts, para tags vindas de clientes antigos ou da API direta
+const tagsValue = (t) => Array.from(new Set(
+  (Array.isArray(t.tags) ? t.tags : [])
+    .filter(tag => typeof tag === 'string')
+    .map(tag => tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase())
+    .filter(Boolean)
+));
+const notesValue = (t) => (typeof t.notes === 'string' && t.notes.trim() ? t.notes.trim() : null);
+
+// Troca a categoria nos lançamentos divididos que a usam (nas partes e na principal), numa única versão
+async function reassignSplits(client, householdId, from, to) {
+  await client.query(`
+    UPDATE transactions SET
+      category_id = CASE WHEN category_id = $1 THEN $2 ELSE category_id END,
+      splits = (
+        SELECT jsonb_agg(CASE WHEN part->>'categoryId' = $1 THEN jsonb_set(part, '{categoryId}', to_jsonb($2::text)) ELSE part END)
+        FROM jsonb_array_elements(splits) part
+      ),
+      updated_at = NOW(), version = version + 1, changed_at = NOW()
+    WHERE user_id = $3 AND splits @> jsonb_build_array(jsonb_build_object('categoryId', $1::text))
+  `, [from, to, householdId]);
 }
 
-async function ensureSchema(client) {
-  const queries = [
-    `CREATE TABLE IF NOT EXISTS categories (
-      id TEXT PRIMARY KEY,
-      user_id TEXT NOT NULL,
-      name TEXT NOT NULL,
-      color TEXT NOT NULL
-    )`,
-    `CREATE TABLE IF NOT EXISTS transactions (
-      id TEXT PRIMARY KEY,
-      user_id TEXT NOT NULL,
-      date DATE NOT NULL,
-      description TEXT NOT NULL,
-      amount DECIMAL(12,2) NOT NULL,
-      category_id TEXT NOT NULL,
-      type TEXT NOT NULL,
-      is_recurring BOOLEAN DEFAULT FALSE,
-      recurring_id TEXT
-    )`,
-    `CREATE TABLE IF NOT EXISTS budgets (
-      user_id TEXT NOT NULL,
-      category_id TEXT NOT NULL,
-      amount DECIMAL(12,2) NOT NULL,
-      PRIMARY KEY (user_id, category_id)
-    )`,
-    `CREATE TABLE IF NOT EXISTS recurring_templates (
-      id TEXT PRIMARY KEY,
-      user_id TEXT NOT NULL,
-      description TEXT NOT NULL,
-      amount DECIMAL(12,2) NOT NULL,
-      category_id TEXT NOT NULL,
-      type TEXT NOT NULL,
-      day_of_month INTEGER NOT NULL,
-      active BOOLEAN DEFAULT TRUE,
-      start_date DATE,
-      end_date DATE
-    )`
-  ];
-
-  for (const q of queries) {
-    await client.query(q);
+// Mesma conta de utils/budgets.ts: o destino passa a valer a soma das duas em cada mês em que alguma mudou
+async function mergeBudgetHistory(client, householdId, fromId, targetId) {
+  const { rows } = await client.query(
+    'SELECT category_id, month, amount::float FROM budgets WHERE user_id = $1 AND category_id = ANY($2::text[])',
+    [householdId, [fromId, targetId]]
+  );
+  const fromRows = rows.filter(b => b.category_id === fromId);
+  if (fromRows.length === 0) return;
+
+  const months = Array.from(new Set(rows.map(b => b.month))).sort();
+  for (const month of months) {
+    const amount = (budgetAt(rows, fromId, month)?.amount || 0) + (budgetAt(rows, targetId, month)?.amount || 0);
+    await client.query(`
+      INSERT INTO budgets (user_id, category_id, month, amount) VALUES ($1, $2, $3, $4)
+      ON CONFLICT (user_id, category_id, month) DO UPDATE SET amount = EXCLUDED.amount, updated_at = NOW(), version = budgets.version + 1, changed_at = NOW()
+    `, [householdId, targetId, month, amount]);
   }
+  await client.query('DELETE FROM budgets WHERE category_id = $1 AND user_id = $2', [fromId, householdId]);
+  await recordDeletion(client, householdId, 'budgets', fromRows.map(b => `${fromId}|${b.month}`));
 }
 
 export default async function handler(req, res) {
   const { method } = req;
-  const { userId, action } = req.query;
-
-  if (!userId) {
-    return res.status(400).json({ error: 'User ID é obrigatório.' });
-  }
+  const { action } = req.query;
 
   let client;
   try {
     const p = getPool();
     client = await p.connect();
     
-    await ensureSchema(client);
+    await ensureAuthSchema(client);
+
+    // O usuário vem sempre da sessão, nunca da query string
+    const user = await getSessionUser(client, req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sessão inválida ou expirada.' });
+    }
+
+    await ensureHouseholdSchema(client);
+    await ensurePersonalHousehold(client, user);
+
+    const membership = await resolveHousehold(client, req, user);
+    if (!membership) {
+      return res.status(403).json({ error: 'Você não faz parte deste lar.' });
+    }
+    if (method === 'POST' && membership.role === 'viewer') {
+      return res.status(403).json({ error: 'Seu acesso a este lar é somente leitura.' });
+    }
+
+    // A coluna user_id das tabelas financeiras guarda o id do lar dono do registro
+    const householdId = membership.householdId;
+
+    await ensureFinanceSchema(client);
+    await ensureAttachmentSchema(client);
 
     if (method === 'GET') {
-      const [transactions, categories, budgets, recurring] = await Promise.all([
-        client.query('SELECT id, user_id as "userId", date, description, amount::float, category_id as "categoryId", type, is_recurring as "isRecurring", recurring_id as "recurringId" FROM transactions WHERE user_id = $1 ORDER BY date DESC', [userId]),
-        client.query('SELECT id, user_id as "userId", name, color FROM categories WHERE user_id = $1', [userId]),
-        client.query('SELECT category_id as "categoryId", amount::float FROM budgets WHERE user_id = $1', [userId]),
-        client.query('SELECT id, user_id as "userId", description, amount::float, category_id as "categoryId", type, day_of_month as "dayOfMonth", active, start_date as "startDate", end_date as "endDate" FROM recurring_templates WHERE user_id = $1', [userId])
+      // Ocorrências de recorrência excluídas ficam marcadas para sempre; senão a materialização as recriaria
+      await client.query(`
+        DELETE FROM deleted_records WHERE deleted_at < NOW() - INTERVAL '${TOMBSTONE_RETENTION_DAYS} days'
+          AND NOT (table_name = 'transactions' AND record_id LIKE 'rec-commit-%')
+      `);
+      const { rows: [{ now, oldest }] } = await client.query(
+        `SELECT NOW() as now, NOW() - INTERVAL '${TOMBSTONE_RETENTION_DAYS} days' as oldest`
+      );
+
+      // Com ?since= devolvemos só o que mudou depois do cursor. A janela de um minuto cobre
+      // gravações que ainda não tinham feito commit quando o cursor anterior foi gerado;
+      // reenviar um registro é inofensivo porque o cliente mescla por id.
+      const sinceDate = req.query.since ? new Date(req.query.since) : null;
+      const since = sinceDate && !isNaN(sinceDate.getTime()) && sinceDate > oldest ? sinceDate.toISOString() : null;
+      const changed = since ? ` AND changed_at > $2::timestamptz - INTERVAL '1 minute'` : '';
+      const params = since ? [householdId, since] : [householdId];
+
+      const [transactions, categories, budgets, recurring, accounts, importProfiles, rules, goals, deleted] = await Promise.all([
+        client.query(`SELECT id, user_id as "userId", date, description, amount::float, category_id as "categoryId", account_id as "accountId", type, is_recurring as "isRecurring", recurring_id as "recurringId", transfer_id as "transferId", installment_id as "installmentId", installment_number as "installmentNumber", installment_count as "installmentCount", splits, tags, notes, (SELECT COUNT(*)::int FROM attachments a WHERE a.user_id = transactions.user_id AND a.transaction_id = transactions.id) as "attachmentCount", version, updated_at as "updatedAt" FROM transactions WHERE user_id = $1${changed} ORDER BY date DESC`, params),
+        client.query(`SELECT id, user_id as "userId", name, color, parent_id as "parentId", requires_receipt as "requiresReceipt", rollover_from as "rolloverFrom", version, updated_at as "updatedAt" FROM categories WHERE user_id = $1${changed}`, params),
+        client.query(`SELECT category_id as "categoryId", month, amount::float, version, updated_at as "updatedAt" FROM budgets WHERE user_id = $1${changed}`, params),
+        client.query(`SELECT id, user_id as "userId", description, amount::float, category_id as "categoryId", type, day_of_month as "dayOfMonth", frequency, recurrence_interval as "interval", day_of_week as "dayOfWeek", month_of_year as "monthOfYear", business_day as "businessDay", active, to_char(start_date, 'YYYY-MM-DD') as "startDate", to_char(end_date, 'YYYY-MM-DD') as "endDate", account_id as "accountId", version, updated_at as "updatedAt" FROM recurring_templates WHERE user_id = $1${changed}`, params),
+        client.query(`SELECT id, name, kind, currency, opening_balance::float as "openingBalance", closing_day as "closingDay", due_day as "dueDay", external_id as "externalId", version, updated_at as "updatedAt" FROM accounts WHERE user_id = $1${changed}`, params),
+        client.query(`SELECT id, name, header_signature as "headerSignature", header_row as "headerRow", mapping, date_format as "dateFormat", decimal_separator as "decimalSeparator", invert_sign as "invertSign", account_id as "accountId", version, updated_at as "updatedAt" FROM import_profiles WHERE user_id = $1${changed}`, params),
+        client.query(`SELECT id, name, priority, active, conditions, actions, version, updated_at as "updatedAt" FROM category_rules WHERE user_id = $1${changed}`, params),
+        client.query(`SELECT id, name, target_amount::float as "targetAmount", to_char(target_date, 'YYYY-MM-DD') as "targetDate", to_char(start_date, 'YYYY-MM-DD') as "startDate", initial_amount::float as "initialAmount", source_type as "sourceType", source_id as "sourceId", color, version, updated_at as "updatedAt" FROM goals WHERE user_id = $1${changed}`, params),
+        since
+          ? client.query(`SELECT table_name as "table", record_id as "id" FROM deleted_records WHERE user_id = $1 AND deleted_at > $2::timestamptz - INTERVAL '1 minute'`, params)
+          : { rows: [] }
       ]);
 
+      const tombstones = { transactions: [], categories: [], budgets: [], recurring: [], accounts: [], importProfiles: [], rules: [], goals: [] };
+      deleted.rows.forEach(row => tombstones[row.table]?.push(row.id));
+
       return res.status(200).json({
+        full: !since,
+        cursor: now,
         transactions: transactions.rows,
         categories: categories.rows,
         budgets: budgets.rows,
-        recurring: recurring.rows
+        recurring: recurring.rows,
+        accounts: accounts.rows,
+        importProfiles: importProfiles.rows,
+        rules: rules.rows,
+        goals: goals.rows,
+        deleted: tombstones
       });
     }
 
     if (method === 'POST') {
       const body = req.body;
+      const conflicts = [];
+      const canWrite = async (table, where, params, recordId, incoming) =>
+        (await checkWrite(client, conflicts, { table, where, params, recordId, incoming })).apply;
+
       switch (action) {
         case 'addTransactions':
+          if (body.some(invalidSplits)) return res.status(400).json({ error: SPLITS_ERROR });
           for (const t of body) {
+            if (!(await canWrite('transactions', 'id = $1 AND user_id = $2', [t.id, householdId], t.id, t))) continue;
             await client.query(`
-              INSERT INTO transactions (id, user_id, date, description, amount, category_id, type, is_recurring, recurring_id)
-              VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-              ON CONFLICT (id) DO UPDATE SET 
+              INSERT INTO transactions (id, user_id, date, description, amount, category_id, type, is_recurring, recurring_id, account_id, transfer_id, installment_id, installment_number, installment_count, updated_at, splits, tags, notes)
+              VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+              ON CONFLICT (user_id, id) DO UPDATE SET 
                 date = EXCLUDED.date, 
                 description = EXCLUDED.description, 
                 amount = EXCLUDED.amount, 
-                category_id = EXCLUDED.category_id
-            `, [t.id, userId, t.date, t.description, t.amount, t.categoryId, t.type, t.isRecurring || false, t.recurringId || null]);
+                category_id = EXCLUDED.category_id,
+                account_id = EXCLUDED.account_id,
+                is_recurring = EXCLUDED.is_recurring,
+                splits = EXCLUDED.splits,
+                tags = EXCLUDED.tags,
+                notes = EXCLUDED.notes,
+                updated_at = EXCLUDED.updated_at,
+                version = transactions.version + 1, changed_at = NOW()
+            `, [t.id, householdId, t.date, t.description, t.amount, t.categoryId, t.type, t.isRecurring || false, t.recurringId || null, t.accountId || 'acc-principal', t.transferId || null, t.installmentId || null, t.installmentNumber || null, t.installmentCount || null, editedAt(t), splitsValue(t), tagsValue(t), notesValue(t)]);
           }
           break;
 
         case 'updateTransaction':
+          if (invalidSplits(body)) return res.status(400).json({ error: SPLITS_ERROR });
+          if (!(await canWrite('transactions', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
           await client.query(`
             UPDATE transactions 
-            SET date = $1, description = $2, amount = $3, category_id = $4
-            WHERE id = $5 AND user_id = $6
-          `, [body.date, body.description, body.amount, body.categoryId, body.id, userId]);
+            SET date = $1, description = $2, amount = $3, category_id = $4, account_id = $5, updated_at = $8, splits = $9, tags = $10, notes = $11, version = version + 1, changed_at = NOW()
+            WHERE id = $6 AND user_id = $7
+          `, [body.date, body.description, body.amount, body.categoryId, body.accountId || 'acc-principal', body.id, householdId, editedAt(body), splitsValue(body), tagsValue(body), notesValue(body)]);
           break;
 
+        case 'deleteTransactions': {
+          const removed = [];
+          for (const t of body) {
+            if (!(await canWrite('transactions', 'id = $1 AND user_id = $2', [t.id, householdId], t.id, t))) continue;
+            await client.query('DELETE FROM transactions WHERE id = $1 AND user_id = $2', [t.id, householdId]);
+            removed.push(t.id);
+          }
+          await removeAttachmentsOf(client, householdId, removed);
+          await recordDeletion(client, householdId, 'transactions', removed);
+          break;
+        }
+
         case 'deleteTransaction':
-          await client.query('DELETE FROM transactions WHERE id = $1 AND user_id = $2', [body.id, userId]);
+          if (!(await canWrite('transactions', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
+          await client.query('DELETE FROM transactions WHERE id = $1 AND user_id = $2', [body.id, householdId]);
+          await removeAttachmentsOf(client, householdId, [body.id]);
+          await recordDeletion(client, householdId, 'transactions', [body.id]);
+          break;
+
+        case 'saveTransfer': {
+          // A perna de saída representa a transferência no controle de versão
+          const outLeg = body.legs.find(t => t.amount < 0) || body.legs[0];
+          const { apply, current } = await checkWrite(client, conflicts, {
+            table: 'transactions', where: 'transfer_id = $1 AND user_id = $2 AND amount < 0',
+            params: [body.transferId, householdId], recordId: body.transferId, incoming: outLeg
+          });
+          if (!apply) break;
+          const version = (Number(current?.version) || 0) + 1;
+
+          // Regrava as duas pernas juntas para que a transferência nunca fique pela metade
+          await client.query('BEGIN');
+          try {
+            await client.query('DELETE FROM transactions WHERE transfer_id = $1 AND user_id = $2', [body.transferId, householdId]);
+            for (const t of body.legs) {
+              await client.query(`
+                INSERT INTO transactions (id, user_id, date, description, amount, category_id, type, account_id, transfer_id, version, updated_at)
+                VALUES ($1, $2, $3, $4, $5, $6, 'transfer', $7, $8, $9, $10)
+              `, [t.id, householdId, t.date, t.description, t.amount, t.categoryId, t.accountId, body.transferId, version, editedAt(outLeg)]);
+            }
+            await client.query('COMMIT');
+          } catch (e) {
+            await client.query('ROLLBACK');
+            throw e;
+          }
           break;
+        }
+
+        case 'deleteTransfer': {
+          if (!(await canWrite('transactions', 'transfer_id = $1 AND user_id = $2 AND amount < 0', [body.transferId, householdId], body.transferId, body))) break;
+          const removed = (await client.query('DELETE FROM transactions WHERE transfer_id = $1 AND user_id = $2 RETURNING id', [body.transferId, householdId])).rows.map(r => r.id);
+          await removeAttachmentsOf(client, householdId, removed);
+          await recordDeletion(client, householdId, 'transactions', removed);
+          break;
+        }
 
         case 'saveCategory':
+          if (!(await canWrite('categories', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
           await client.query(`
-            INSERT INTO categories (id, user_id, name, color)
-            VALUES ($1, $2, $3, $4)
-            ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name, color = EXCLUDED.color
-          `, [body.id, userId, body.name, body.color]);
+            INSERT INTO categories (id, user_id, name, color, parent_id, updated_at, requires_receipt, rollover_from)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            ON CONFLICT (user_id, id) DO UPDATE SET name = EXCLUDED.name, color = EXCLUDED.color, parent_id = EXCLUDED.parent_id, requires_receipt = EXCLUDED.requires_receipt, rollover_from = EXCLUDED.rollover_from, updated_at = EXCLUDED.updated_at, version = categories.version + 1, changed_at = NOW()
+          `, [body.id, householdId, body.name, body.color, body.parentId && body.parentId !== body.id ? body.parentId : null, editedAt(body), !!body.requiresReceipt, isMonth(body.rolloverFrom) ? body.rolloverFrom : null]);
           break;
 
         case 'deleteCategory':
+          if (!(await canWrite('categories', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
           await client.query('BEGIN');
           try {
-            await client.query('DELETE FROM categories WHERE id = $1 AND user_id = $2', [body.id, userId]);
-            await client.query("UPDATE transactions SET category_id = 'cat-unassigned' WHERE category_id = $1 AND user_id = $2", [body.id, userId]);
-            await client.query('DELETE FROM budgets WHERE category_id = $1 AND user_id = $2', [body.id, userId]);
+            await client.query('DELETE FROM categories WHERE id = $1 AND user_id = $2', [body.id, householdId]);
+            // Subcategorias sobem para o nível principal em vez de sumirem junto
+            await client.query('UPDATE categories SET parent_id = NULL, updated_at = NOW(), version = version + 1, changed_at = NOW() WHERE parent_id = $1 AND user_id = $2', [body.id, householdId]);
+            await reassignSplits(client, householdId, body.id, 'cat-unassigned');
+            await client.query("UPDATE transactions SET category_id = 'cat-unassigned', updated_at = NOW(), version = version + 1, changed_at = NOW() WHERE category_id = $1 AND user_id = $2", [body.id, householdId]);
+            const removedBudgets = await client.query('DELETE FROM budgets WHERE category_id = $1 AND user_id = $2 RETURNING month', [body.id, householdId]);
+            await recordDeletion(client, householdId, 'categories', [body.id]);
+            await recordDeletion(client, householdId, 'budgets', removedBudgets.rows.map(b => `${body.id}|${b.month}`));
             await client.query('COMMIT');
           } catch (e) {
             await client.query('ROLLBACK');
@@ -155,37 +275,254 @@ export default async function handler(req, res) {
           }
           break;
 
+        case 'mergeCategories': {
+          // Consolida body.id em body.targetId: lançamentos (e partes), orçamento, recorrências, regras e subcategorias
+          const fromId = body.id;
+          const { targetId } = body;
+          if (!targetId || targetId === fromId) {
+            return res.status(400).json({ error: 'Escolha uma categoria de destino diferente da original.' });
+          }
+          // O destino precisa existir no lar (ou ser uma categoria padrão) e não pode estar abaixo da origem
+          const known = new Map((await householdCategories(client, householdId)).map(c => [c.id, c]));
+          if (!known.has(targetId)) {
+            return res.status(400).json({ error: 'Categoria de destino não encontrada.' });
+          }
+          const seen = new Set();
+          for (let id = known.get(targetId).parentId; id && !seen.has(id); id = known.get(id)?.parentId) {
+            if (id === fromId) {
+              return res.status(400).json({ error: 'Não é possível mesclar uma categoria em uma subcategoria dela.' });
+            }
+            seen.add(id);
+          }
+          if (!(await canWrite('categories', 'id = $1 AND user_id = $2', [fromId, householdId], fromId, body))) break;
+          await client.query('BEGIN');
+          try {
+            await reassignSplits(client, householdId, fromId, targetId);
+            await client.query('UPDATE transactions SET category_id = $1, updated_at = NOW(), version = version + 1, changed_at = NOW() WHERE category_id = $2 AND user_id = $3', [targetId, fromId, householdId]);
+            await client.query('UPDATE recurring_templates SET category_id = $1, updated_at = NOW(), version = version + 1, changed_at = NOW() WHERE category_id = $2 AND user_id = $3', [targetId, fromId, householdId]);
+            await client.query(`
+              UPDATE category_rules SET actions = jsonb_set(actions, '{categoryId}', to_jsonb($1::text)), updated_at = NOW(), version = version + 1, changed_at = NOW()
+              WHERE actions->>'categoryId' = $2 AND user_id = $3
+            `, [targetId, fromId, householdId]);
+            await client.query(`
+              UPDATE goals SET source_id = $1, updated_at = NOW(), version = version + 1, changed_at = NOW()
+              WHERE source_type = 'category' AND source_id = $2 AND user_id = $3
+            `, [targetId, fromId, householdId]);
+
+            // O orçamento da origem soma no do destino, mês a mês
+            await mergeBudgetHistory(client, householdId, fromId, targetId);
+
+            // Subcategorias vão para o destino, ou para o pai dele se o destino já for uma subcategoria
+            await client.query(`
+              UPDATE categories SET
+                parent_id = COALESCE((SELECT parent_id FROM categories WHERE id = $1 AND user_id = $3), $1),
+                updated_at = NOW(), version = version + 1, changed_at = NOW()
+              WHERE parent_id = $2 AND user_id = $3
+            `, [targetId, fromId, householdId]);
+            await client.query('DELETE FROM categories WHERE id = $1 AND user_id = $2', [fromId, householdId]);
+            await recordDeletion(client, householdId, 'categories', [fromId]);
+            await client.query('COMMIT');
+          } catch (e) {
+            await client.query('ROLLBACK');
+            throw e;
+          }
+          break;
+        }
+
         case 'updateBudget':
-          await client.query(`
-            INSERT INTO budgets (user_id, category_id, amount)
-            VALUES ($1, $2, $3)
-            ON CONFLICT (user_id, category_id) DO UPDATE SET amount = EXCLUDED.amount
-          `, [userId, body.categoryId, body.amount]);
+        case 'updateBudgets': {
+          // updateBudgets recebe vários meses/categorias de uma vez (ex: copiar do mês anterior)
+          const items = Array.isArray(body) ? body : [body];
+          if (items.some(b => !isMonth(b.month))) return res.status(400).json({ error: 'Informe o mês do orçamento (AAAA-MM).' });
+          for (const b of items) {
+            if (!(await canWrite('budgets', 'category_id = $1 AND month = $2 AND user_id = $3', [b.categoryId, b.month, householdId], b.categoryId, b))) continue;
+            await client.query(`
+              INSERT INTO budgets (user_id, category_id, month, amount, updated_at)
+              VALUES ($1, $2, $3, $4, $5)
+              ON CONFLICT (user_id, category_id, month) DO UPDATE SET amount = EXCLUDED.amount, updated_at = EXCLUDED.updated_at, version = budgets.version + 1, changed_at = NOW()
+            `, [householdId, b.categoryId, b.month, b.amount, editedAt(b)]);
+          }
           break;
+        }
 
         case 'saveRecurring':
+          if (!RECURRENCE_FREQUENCIES.includes(body.frequency || 'monthly') || !BUSINESS_DAY_ADJUSTMENTS.includes(body.businessDay || 'none')) {
+            return res.status(400).json({ error: 'Regra de recorrência inválida.' });
+          }
+          if (!(await canWrite('recurring_templates', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
           await client.query(`
-            INSERT INTO recurring_templates (id, user_id, description, amount, category_id, type, day_of_month, active, start_date, end_date)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-            ON CONFLICT (id) DO UPDATE SET 
+            INSERT INTO recurring_templates (id, user_id, description, amount, category_id, type, day_of_month, active, start_date, end_date, account_id, updated_at, frequency, recurrence_interval, day_of_week, month_of_year, business_day)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+            ON CONFLICT (user_id, id) DO UPDATE SET 
               description = EXCLUDED.description, 
               amount = EXCLUDED.amount, 
               active = EXCLUDED.active,
               category_id = EXCLUDED.category_id,
               day_of_month = EXCLUDED.day_of_month,
               start_date = EXCLUDED.start_date,
-              end_date = EXCLUDED.end_date
-          `, [body.id, userId, body.description, body.amount, body.categoryId, body.type, body.dayOfMonth, body.active, body.startDate || null, body.endDate || null]);
+              end_date = EXCLUDED.end_date,
+              account_id = EXCLUDED.account_id,
+              frequency = EXCLUDED.frequency,
+              recurrence_interval = EXCLUDED.recurrence_interval,
+              day_of_week = EXCLUDED.day_of_week,
+              month_of_year = EXCLUDED.month_of_year,
+              business_day = EXCLUDED.business_day,
+              updated_at = EXCLUDED.updated_at,
+              version = recurring_templates.version + 1, changed_at = NOW(),
+              -- Os lançamentos pendentes são refeitos logo abaixo; mudar o início refaz todo o histórico
+              materialized_through = CASE
+                WHEN recurring_templates.start_date IS DISTINCT FROM EXCLUDED.start_date THEN NULL
+                ELSE recurring_templates.materialized_through
+              END
+          `, [body.id, householdId, body.description, body.amount, body.categoryId, body.type, body.dayOfMonth, body.active, body.startDate || null, body.endDate || null, body.accountId || null, editedAt(body),
+            body.frequency || 'monthly', Math.max(1, parseInt(body.interval) || 1), body.dayOfWeek ?? null, body.monthOfYear ?? null, body.businessDay || 'none']);
           break;
 
         case 'deleteRecurring':
-          await client.query('DELETE FROM recurring_templates WHERE id = $1 AND user_id = $2', [body.id, userId]);
+          if (!(await canWrite('recurring_templates', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
+          await client.query('DELETE FROM recurring_templates WHERE id = $1 AND user_id = $2', [body.id, householdId]);
+          await recordDeletion(client, householdId, 'recurring', [body.id]);
+          break;
+
+        case 'saveAccount':
+          if (!(await canWrite('accounts', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
+          await client.query(`
+            INSERT INTO accounts (id, user_id, name, kind, currency, opening_balance, closing_day, due_day, external_id, updated_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+            ON CONFLICT (user_id, id) DO UPDATE SET 
+              name = EXCLUDED.name, 
+              kind = EXCLUDED.kind, 
+              currency = EXCLUDED.currency, 
+              opening_balance = EXCLUDED.opening_balance,
+              closing_day = EXCLUDED.closing_day,
+              due_day = EXCLUDED.due_day,
+              external_id = EXCLUDED.external_id,
+              updated_at = EXCLUDED.updated_at,
+              version = accounts.version + 1, changed_at = NOW()
+          `, [body.id, householdId, body.name, body.kind, body.currency || 'BRL', body.openingBalance || 0, body.closingDay || null, body.dueDay || null, body.externalId || null, editedAt(body)]);
+          break;
+
+        case 'deleteAccount':
+          if (body.id === 'acc-principal') {
+            return res.status(400).json({ error: 'A conta principal não pode ser removida.' });
+          }
+          if (!(await canWrite('accounts', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
+          await client.query('BEGIN');
+          try {
+            await client.query('DELETE FROM accounts WHERE id = $1 AND user_id = $2', [body.id, householdId]);
+            await recordDeletion(client, householdId, 'accounts', [body.id]);
+            await client.query("UPDATE transactions SET account_id = 'acc-principal', updated_at = NOW(), version = version + 1, changed_at = NOW() WHERE account_id = $1 AND user_id = $2", [body.id, householdId]);
+            await client.query('UPDATE recurring_templates SET account_id = NULL, updated_at = NOW(), version = version + 1, changed_at = NOW() WHERE account_id = $1 AND user_id = $2', [body.id, householdId]);
+            await client.query('COMMIT');
+          } catch (e) {
+            await client.query('ROLLBACK');
+            throw e;
+          }
+          break;
+
+        case 'saveImportProfile':
+          if (!(await canWrite('import_profiles', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
+          await client.query(`
+            INSERT INTO import_profiles (id, user_id, name, header_signature, header_row, mapping, date_format, decimal_separator, invert_sign, account_id, updated_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+            ON CONFLICT (user_id, id) DO UPDATE SET 
+              name = EXCLUDED.name,
+              header_signature = EXCLUDED.header_signature,
+              header_row = EXCLUDED.header_row,
+              mapping = EXCLUDED.mapping,
+              date_format = EXCLUDED.date_format,
+              decimal_separator = EXCLUDED.decimal_separator,
+              invert_sign = EXCLUDED.invert_sign,
+              account_id = EXCLUDED.account_id,
+              updated_at = EXCLUDED.updated_at,
+              version = import_profiles.version + 1, changed_at = NOW()
+          `, [body.id, householdId, body.name, body.headerSignature, body.headerRow || 0, JSON.stringify(body.mapping), body.dateFormat || 'auto', body.decimalSeparator || 'auto', body.invertSign || false, body.accountId || null, editedAt(body)]);
+          break;
+
+        case 'deleteImportProfile':
+          if (!(await canWrite('import_profiles', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
+          await client.query('DELETE FROM import_profiles WHERE id = $1 AND user_id = $2', [body.id, householdId]);
+          await recordDeletion(client, householdId, 'importProfiles', [body.id]);
+          break;
+
+        case 'saveRule':
+          if (!(await canWrite('category_rules', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
+          await client.query(`
+            INSERT INTO category_rules (id, user_id, name, priority, active, conditions, actions, updated_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            ON CONFLICT (user_id, id) DO UPDATE SET 
+              name = EXCLUDED.name,
+              priority = EXCLUDED.priority,
+              active = EXCLUDED.active,
+              conditions = EXCLUDED.conditions,
+              actions = EXCLUDED.actions,
+              updated_at = EXCLUDED.updated_at,
+              version = category_rules.version + 1, changed_at = NOW()
+          `, [body.id, householdId, body.name, body.priority || 0, body.active !== false, JSON.stringify(body.conditions || {}), JSON.stringify(body.actions || {}), editedAt(body)]);
+          break;
+
+        case 'deleteRule':
+          if (!(await canWrite('category_rules', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
+          await client.query('DELETE FROM category_rules WHERE id = $1 AND user_id = $2', [body.id, householdId]);
+          await recordDeletion(client, householdId, 'rules', [body.id]);
+          break;
+
+        case 'saveGoal':
+          if (!(Number(body.targetAmount) > 0) || !body.targetDate || !body.sourceId || !['account', 'category'].includes(body.sourceType)) {
+            return res.status(400).json({ error: 'Informe valor, prazo e a conta ou categoria da meta.' });
+          }
+          if (!(await canWrite('goals', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
+          await client.query(`
+            INSERT INTO goals (id, user_id, name, target_amount, target_date, start_date, initial_amount, source_type, source_id, color, updated_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+            ON CONFLICT (user_id, id) DO UPDATE SET
+              name = EXCLUDED.name,
+              target_amount = EXCLUDED.target_amount,
+              target_date = EXCLUDED.target_date,
+              start_date = EXCLUDED.start_date,
+              initial_amount = EXCLUDED.initial_amount,
+              source_type = EXCLUDED.source_type,
+              source_id = EXCLUDED.source_id,
+              color = EXCLUDED.color,
+              updated_at = EXCLUDED.updated_at,
+              version = goals.version + 1, changed_at = NOW()
+          `, [body.id, householdId, body.name, body.targetAmount, body.targetDate, body.startDate, body.initialAmount || 0, body.sourceType, body.sourceId, body.color, editedAt(body)]);
+          break;
+
+        case 'deleteGoal':
+          if (!(await canWrite('goals', 'id = $1 AND user_id = $2', [body.id, householdId], body.id, body))) break;
+          await client.query('DELETE FROM goals WHERE id = $1 AND user_id = $2', [body.id, householdId]);
+          await recordDeletion(client, householdId, 'goals', [body.id]);
           break;
 
         default:
           return res.status(400).json({ error: 'Ação inválida' });
       }
-      return res.status(200).json({ success: true });
+
+      // Lançamentos da recorrência gravada saem na hora, sem esperar o cron, e os que ainda não venceram
+      // acompanham a regra editada ou somem com ela
+      if (action === 'saveRecurring' || action === 'deleteRecurring') {
+        try {
+          if (action === 'saveRecurring') await materializeRecurring(client, householdId);
+          await refreshUpcomingOccurrences(client, householdId, body.id);
+        } catch (error) {
+          console.error('RECURRING ERROR:', error);
+        }
+      }
+
+      // Alertas de orçamento olham os meses que o gasto mudou; falhas aqui não desfazem a gravação
+      if (action === 'addTransactions' || action === 'updateTransaction') {
+        const months = (Array.isArray(body) ? body : [body])
+          .filter(t => t.type === 'expense' && typeof t.date === 'string')
+          .map(t => t.date.slice(0, 7));
+        try {
+          await ensureAlertSchema(client);
+          await evaluateBudgetAlerts(client, householdId, months);
+        } catch (error) {
+          console.error('BUDGET ALERTS ERROR:', error);
+        }
+      }
+      return res.status(200).json({ success: true, conflicts });
     }
 
     return res.status(405).json({ error: 'Método não permitido' });
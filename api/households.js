@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import { getPool } from './_lib/db.js';
+import { ensureAuthSchema, getSessionUser } from './_lib/auth.js';
+import { ROLES, ensureHouseholdSchema, ensurePersonalHousehold, getRole } from './_lib/households.js';
+
+export default async function handler(req, res) {
+  const { method } = req;
+  const { action } = req.query;
+
+  let client;
+  try {
+    const p = getPool();
+    client = await p.connect();
+
+    await ensureAuthSchema(client);
+    const user = await getSessionUser(client, req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sessão inválida ou expirada.' });
+    }
+
+    await ensureHouseholdSchema(client);
+    await ensurePersonalHousehold(client, user);
+
+    if (method === 'GET') {
+      if (action === 'members') {
+        const { householdId } = req.query;
+        if (!(await getRole(client, householdId, user.id))) {
+          return res.status(403).json({ error: 'Você não faz parte deste lar.' });
+        }
+        const [members, invites] = await Promise.all([
+          client.query(`
+            SELECT u.id as "userId", u.name, u.email, m.role
+            FROM household_members m JOIN users u ON u.id = m.user_id
+            WHERE m.household_id = $1 ORDER BY u.name
+          `, [householdId]),
+          client.query('SELECT id, household_id as "householdId", email, role FROM household_invites WHERE household_id = $1', [householdId])
+        ]);
+        return res.status(200).json({ members: members.rows, invites: invites.rows });
+      }
+
+      const [households, invites] = await Promise.all([
+        client.query(`
+          SELECT h.id, h.name, m.role
+          FROM household_members m JOIN households h ON h.id = m.household_id
+          WHERE m.user_id = $1 ORDER BY h.created_at
+        `, [user.id]),
+        client.query(`
+          SELECT i.id, i.household_id as "householdId", h.name as "householdName", i.email, i.role
+          FROM household_invites i JOIN households h ON h.id = i.household_id
+          WHERE i.email = $1
+        `, [user.email])
+      ]);
+      return res.status(200).json({ households: households.rows, pendingInvites: invites.rows });
+    }
+
+    if (method === 'POST') {
+      const body = req.body || {};
+
+      // Ações de convite recebido só dependem do email do usuário logado
+      if (action === 'acceptInvite' || action === 'declineInvite') {
+        const result = await client.query('SELECT * FROM household_invites WHERE id = $1 AND email = $2', [body.inviteId, user.email]);
+        const invite = result.rows[0];
+        if (!invite) return res.status(404).json({ error: 'Convite não encontrado.' });
+
+        await client.query('BEGIN');
+        try {
+          if (action === 'acceptInvite') {
+            // Quem já é membro fica com o maior dos dois papéis; um convite nunca rebaixa ninguém (nem o proprietário)
+            await client.query(`
+              INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)
+              ON CONFLICT (household_id, user_id) DO UPDATE SET role = EXCLUDED.role
+              WHERE array_position($4::text[], EXCLUDED.role) < array_position($4::text[], household_members.role)
+            `, [invite.household_id, user.id, invite.role, ROLES]);
+          }
+          await client.query('DELETE FROM household_invites WHERE id = $1', [invite.id]);
+          await client.query('COMMIT');
+        } catch (e) {
+          await client.query('ROLLBACK');
+          throw e;
+        }
+        return res.status(200).json({ success: true });
+      }
+
+      const householdId = body.householdId;
+      const role = await getRole(client, householdId, user.id);
+      if (!role) {
+        return res.status(403).json({ error: 'Você não faz parte deste lar.' });
+      }
+
+      // Sair do lar é permitido a qualquer membro, exceto do próprio lar pessoal
+      if (action === 'removeMember' && body.userId === user.id) {
+        if (householdId === user.id) {
+          return res.status(400).json({ error: 'Você não pode sair do seu lar pessoal.' });
+        }
+        // O lar nunca fica sem proprietário
+        if (role === 'owner') {
+          const owners = await client.query("SELECT COUNT(*)::int as count FROM household_members WHERE household_id = $1 AND role = 'owner'", [householdId]);
+          if (owners.rows[0].count <= 1) {
+            return res.status(400).json({ error: 'Você é o único proprietário. Promova outro membro a proprietário antes de sair.' });
+          }
+        }
+        await client.query('DELETE FROM household_members WHERE household_id = $1 AND user_id = $2', [householdId, user.id]);
+        return res.status(200).json({ success: true });
+      }
+
+      if (role !== 'owner') {
+        return res.status(403).json({ error: 'Apenas o proprietário pode gerenciar os membros.' });
+      }
+
+      switch (action) {
+        case 'invite': {
+          const email = String(body.email || '').trim().toLowerCase();
+          if (!email || !ROLES.includes(body.role) || body.role === 'owner') {
+            return res.status(400).json({ error: 'Informe um email e um papel válido (editor ou leitor).' });
+          }
+          const id = `inv-${crypto.randomUUID()}`;
+          await client.query(
+            'INSERT INTO household_invites (id, household_id, email, role, invited_by) VALUES ($1, $2, $3, $4, $5)',
+            [id, householdId, email, body.role, user.id]
+          );
+          return res.status(201).json({ invite: { id, householdId, email, role: body.role } });
+        }
+
+        case 'revokeInvite':
+          await client.query('DELETE FROM household_invites WHERE id = $1 AND household_id = $2', [body.inviteId, householdId]);
+          break;
+
+        case 'updateRole':
+          if (!ROLES.includes(body.role) || body.userId === user.id) {
+            return res.status(400).json({ error: 'Papel inválido.' });
+          }
+          await client.query('UPDATE household_members SET role = $1 WHERE household_id = $2 AND user_id = $3', [body.role, householdId, body.userId]);
+          break;
+
+        case 'removeMember':
+          await client.query('DELETE FROM household_members WHERE household_id = $1 AND user_id = $2', [householdId, body.userId]);
+          break;
+
+        case 'rename':
+          await client.query('UPDATE households SET name = $1 WHERE id = $2', [String(body.name || '').trim() || 'Lar', householdId]);
+          break;
+
+        default:
+          return res.status(400).json({ error: 'Ação inválida' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Método não permitido' });
+  } catch (error) {
+    console.error('HOUSEHOLD CRITICAL ERROR:', error);
+    return res.status(500).json({
+      error: 'Erro na operação do banco de dados',
+      details: error.message,
+      pgCode: error.code
+    });
+  } finally {
+    if (client) client.release();
+  }
+}
@@ -0,0 +1,61 @@
+import { getPool } from './_lib/db.js';
+import { ensureAuthSchema, getBearerToken, getSessionUser } from './_lib/auth.js';
+import { ensureHouseholdSchema, ensurePersonalHousehold, resolveHousehold } from './_lib/households.js';
+import { materializeAllHouseholds, materializeRecurring } from './_lib/materialize.js';
+import { ensureFinanceSchema } from './_lib/schema.js';
+
+// Materializa as recorrências em lançamentos. O Vercel Cron chama com GET e Authorization: Bearer $CRON_SECRET
+// para rodar todos os lares; um usuário pode pedir o mesmo para o lar ativo com POST ?action=materialize.
+export default async function handler(req, res) {
+  const { method } = req;
+  const { action } = req.query;
+
+  let client;
+  try {
+    const p = getPool();
+    client = await p.connect();
+
+    const cronSecret = process.env.CRON_SECRET;
+    if (method === 'GET') {
+      if (!cronSecret || getBearerToken(req) !== cronSecret) {
+        return res.status(401).json({ error: 'Não autorizado.' });
+      }
+      const summary = await materializeAllHouseholds(client);
+      return res.status(200).json(summary);
+    }
+
+    if (method === 'POST') {
+      await ensureAuthSchema(client);
+      const user = await getSessionUser(client, req);
+      if (!user) {
+        return res.status(401).json({ error: 'Sessão inválida ou expirada.' });
+      }
+
+      await ensureHouseholdSchema(client);
+      await ensurePersonalHousehold(client, user);
+
+      const membership = await resolveHousehold(client, req, user);
+      if (!membership) {
+        return res.status(403).json({ error: 'Você não faz parte deste lar.' });
+      }
+      if (membership.role === 'viewer') {
+        return res.status(403).json({ error: 'Seu acesso a este lar é somente leitura.' });
+      }
+
+      if (action === 'materialize') {
+        await ensureFinanceSchema(client);
+        const created = await materializeRecurring(client, membership.householdId);
+        return res.status(200).json({ created: created.length });
+      }
+
+      return res.status(400).json({ error: 'Ação inválida' });
+    }
+
+    return res.status(405).json({ error: 'Método não permitido' });
+  } catch (error) {
+    console.error('DATABASE CRITICAL ERROR:', error);
+    return res.status(500).json({ error: 'Erro na operação do banco de dados', details: error.message });
+  } finally {
+    if (client) client.release();
+  }
+}
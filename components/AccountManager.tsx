@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import { Account, AccountKind, Transaction } from '../types';
+import { ACCOUNT_KIND_LABELS, DEFAULT_ACCOUNT_ID } from '../constants';
+import { Plus, Trash2, Edit3, X, Landmark, PiggyBank, CreditCard, Banknote, ReceiptText } from 'lucide-react';
+import CardStatement from './CardStatement';
+
+interface AccountManagerProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  onSave: (account: Account) => void;
+  onDelete: (id: string) => void;
+}
+
+const KIND_ICONS: Record<AccountKind, React.ElementType> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  credit_card: CreditCard,
+  cash: Banknote,
+};
+
+const CURRENCIES = ['BRL', 'USD', 'EUR'];
+
+const emptyForm = { name: '', kind: 'checking' as AccountKind, currency: 'BRL', openingBalance: '', closingDay: '', dueDay: '' };
+
+const AccountManager: React.FC<AccountManagerProps> = ({ accounts, transactions, onSave, onDelete }) => {
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [statementAccountId, setStatementAccountId] = useState<string | null>(null);
+
+  const statementAccount = accounts.find(a => a.id === statementAccountId && a.kind === 'credit_card');
+
+  const balances = useMemo(() => {
+    const map = new Map<string, number>();
+    accounts.forEach(a => map.set(a.id, a.openingBalance));
+    transactions.forEach(t => {
+      map.set(t.accountId, (map.get(t.accountId) || 0) + t.amount);
+    });
+    return map;
+  }, [accounts, transactions]);
+
+  const formatCurrency = (value: number, currency: string) => {
+    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency }).format(value);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    const isCard = form.kind === 'credit_card';
+    onSave({
+      ...accounts.find(a => a.id === editingId),
+      id: editingId || `acc-${Date.now()}`,
+      name: form.name.trim(),
+      kind: form.kind,
+      currency: form.currency,
+      openingBalance: parseFloat(form.openingBalance) || 0,
+      closingDay: isCard ? parseInt(form.closingDay) || undefined : undefined,
+      dueDay: isCard ? parseInt(form.dueDay) || undefined : undefined
+    });
+    cancelEdit();
+  };
+
+  const handleEdit = (account: Account) => {
+    setEditingId(account.id);
+    setForm({
+      name: account.name,
+      kind: account.kind,
+      currency: account.currency,
+      openingBalance: account.openingBalance.toString(),
+      closingDay: account.closingDay?.toString() || '',
+      dueDay: account.dueDay?.toString() || ''
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Contas e Cartões</h2>
+          <p className="text-sm text-slate-500">Separe seus saldos por banco, cartão ou carteira</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Add/Edit Form */}
+        <div className="lg:col-span-1">
+          <div className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm sticky top-8">
+            <h3 className="text-lg font-bold text-slate-900 mb-6">
+              {editingId ? 'Editar Conta' : 'Nova Conta'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Nome da Conta</label>
+                <input
+                  type="text"
+                  placeholder="Ex: Nubank, Itaú, Carteira..."
+                  className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Tipo</label>
+                <select
+                  className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                  value={form.kind}
+                  onChange={(e) => setForm({ ...form, kind: e.target.value as AccountKind })}
+                >
+                  {(Object.keys(ACCOUNT_KIND_LABELS) as AccountKind[]).map(k => (
+                    <option key={k} value={k}>{ACCOUNT_KIND_LABELS[k]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Moeda</label>
+                  <select
+                    className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                    value={form.currency}
+                    onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                  >
+                    {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Saldo Inicial</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    placeholder="0,00"
+                    className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                    value={form.openingBalance}
+                    onChange={(e) => setForm({ ...form, openingBalance: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {form.kind === 'credit_card' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Dia Fechamento</label>
+                    <input
+                      type="number" min="1" max="31"
+                      placeholder="Ex: 3"
+                      className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                      value={form.closingDay}
+                      onChange={(e) => setForm({ ...form, closingDay: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Dia Vencimento</label>
+                    <input
+                      type="number" min="1" max="31"
+                      placeholder="Ex: 10"
+                      className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                      value={form.dueDay}
+                      onChange={(e) => setForm({ ...form, dueDay: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                {editingId && (
+                  <button
+                    type="button"
+                    onClick={cancelEdit}
+                    className="flex-1 bg-slate-100 text-slate-600 font-bold py-3 rounded-xl hover:bg-slate-200 transition-all flex items-center justify-center gap-2"
+                  >
+                    <X className="w-4 h-4" />
+                    Cancelar
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  className={`flex-[2] text-white font-bold py-3 rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg ${editingId ? 'bg-blue-600 hover:bg-blue-700 shadow-blue-200' : 'bg-slate-900 hover:bg-slate-800 shadow-slate-200'}`}
+                >
+                  <Plus className="w-4 h-4" />
+                  {editingId ? 'Salvar Alterações' : 'Criar Conta'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+
+        {/* Accounts List */}
+        <div className="lg:col-span-2 space-y-8">
+          <div className="bg-white rounded-[2rem] border border-slate-200 shadow-sm overflow-hidden">
+            <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Contas Ativas</h3>
+            </div>
+            <div className="divide-y divide-slate-100">
+              {accounts.map((account) => {
+                const Icon = KIND_ICONS[account.kind] || Landmark;
+                const balance = balances.get(account.id) || 0;
+                return (
+                  <div key={account.id} className="p-4 flex items-center justify-between hover:bg-slate-50 transition-all group">
+                    <div className="flex items-center gap-4">
+                      <div className="w-12 h-12 rounded-2xl flex items-center justify-center bg-blue-50 text-blue-600 shadow-sm">
+                        <Icon className="w-6 h-6" />
+                      </div>
+                      <div>
+                        <h4 className="font-bold text-slate-800">{account.name}</h4>
+                        <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{ACCOUNT_KIND_LABELS[account.kind]} · {account.currency}{account.externalId && ` · ${account.externalId}`}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <span className={`text-sm font-black ${balance >= 0 ? 'text-slate-900' : 'text-rose-600'}`}>
+                        {formatCurrency(balance, account.currency)}
+                      </span>
+                      <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {account.kind === 'credit_card' && (
+                          <button
+                            onClick={() => setStatementAccountId(statementAccountId === account.id ? null : account.id)}
+                            title="Ver faturas"
+                            className={`p-2.5 rounded-xl transition-all ${statementAccountId === account.id ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                          >
+                            <ReceiptText className="w-5 h-5" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleEdit(account)}
+                          className="p-2.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all"
+                        >
+                          <Edit3 className="w-5 h-5" />
+                        </button>
+                        {account.id !== DEFAULT_ACCOUNT_ID && (
+                          <button
+                            onClick={() => onDelete(account.id)}
+                            className="p-2.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {statementAccount && (
+            <CardStatement account={statementAccount} transactions={transactions} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountManager;
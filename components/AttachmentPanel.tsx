@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Attachment, Transaction } from '../types';
+import { format, parseISO } from 'date-fns';
+import { FileText, Image, Download, Trash2, Upload, X, Loader2, AlertTriangle } from 'lucide-react';
+import { ATTACHMENT_ACCEPT } from '../constants';
+
+interface AttachmentPanelProps {
+  transaction: Transaction;
+  onList: (transactionId: string) => Promise<Attachment[]>;
+  onUpload: (transactionId: string, file: File) => Promise<Attachment>;
+  onDownload: (attachment: Attachment) => Promise<void>;
+  onDelete: (attachment: Attachment) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const AttachmentPanel: React.FC<AttachmentPanelProps> = ({ transaction, onList, onUpload, onDownload, onDelete, onClose }) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    onList(transaction.id)
+      .then(list => { if (!cancelled) setAttachments(list); })
+      .catch((err: Error) => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [transaction.id, onList]);
+
+  // Erros voltam do hook como exceção com a mensagem do servidor
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    run(async () => {
+      for (const file of Array.from(files)) {
+        const attachment = await onUpload(transaction.id, file);
+        setAttachments(prev => [...prev, attachment]);
+      }
+    });
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handleDelete = (attachment: Attachment) => {
+    if (!confirm(`Excluir "${attachment.fileName}"?`)) return;
+    run(async () => {
+      await onDelete(attachment);
+      setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-bold text-slate-900">Comprovantes · {transaction.description}</span>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            onChange={(e) => handleFiles(e.target.files)}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={busy}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-teal-600 hover:bg-teal-700 text-white rounded-xl text-xs font-bold transition-all disabled:opacity-50"
+          >
+            {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+            Anexar PDF ou foto
+          </button>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-2 text-xs font-bold text-rose-600">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          {error}
+        </p>
+      )}
+
+      {loading ? (
+        <p className="flex items-center gap-2 text-xs font-bold text-slate-400">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" /> Carregando anexos...
+        </p>
+      ) : attachments.length === 0 ? (
+        <p className="text-xs font-bold italic text-slate-400">Nenhum comprovante anexado.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map(a => (
+            <div key={a.id} className="flex items-center gap-2 bg-white border border-slate-200 rounded-xl pl-3 pr-1 py-1">
+              {a.contentType === 'application/pdf'
+                ? <FileText className="w-4 h-4 text-rose-500" />
+                : <Image className="w-4 h-4 text-teal-500" />}
+              <div className="max-w-[180px]">
+                <p className="text-xs font-bold text-slate-700 truncate" title={a.fileName}>{a.fileName}</p>
+                <p className="text-[9px] font-bold text-slate-400">
+                  {formatSize(a.size)} · {format(parseISO(a.createdAt), 'dd/MM/yyyy')}
+                </p>
+              </div>
+              <button
+                onClick={() => run(() => onDownload(a))}
+                title="Baixar"
+                className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+              >
+                <Download className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => handleDelete(a)}
+                title="Excluir"
+                className="p-1.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-all"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentPanel;
@@ -1,10 +1,10 @@
 
 import React, { useState } from 'react';
-import { User } from '../types';
+import { Session } from '../types';
 import { LogIn, UserPlus, Mail, Lock, User as UserIcon, Wallet, ChevronRight, Loader2 } from 'lucide-react';
 
 interface AuthViewProps {
-  onLogin: (user: User) => void;
+  onLogin: (session: Session) => void;
 }
 
 const AuthView: React.FC<AuthViewProps> = ({ onLogin }) => {
@@ -15,32 +15,29 @@ const AuthView: React.FC<AuthViewProps> = ({ onLogin }) => {
   const [name, setName] = useState('');
   const [error, setError] = useState('');
 
-  const handleAuth = (e: React.FormEvent) => {
+  const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError('');
 
-    setTimeout(() => {
-      const users = JSON.parse(localStorage.getItem('ff_users') || '[]');
-      
-      if (isLogin) {
-        const user = users.find((u: any) => u.email === email && u.password === password);
-        if (user) {
-          onLogin({ id: user.id, name: user.name, email: user.email });
-        } else {
-          setError('Credenciais inválidas. Tente novamente.');
-        }
-      } else {
-        if (users.some((u: any) => u.email === email)) {
-          setError('Este email já está cadastrado.');
-        } else {
-          const newUser = { id: Date.now().toString(), name, email, password };
-          localStorage.setItem('ff_users', JSON.stringify([...users, newUser]));
-          onLogin({ id: newUser.id, name: newUser.name, email: newUser.email });
-        }
+    try {
+      const response = await fetch(`/api/auth?action=${isLogin ? 'login' : 'signup'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isLogin ? { email, password } : { name, email, password }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setError(data.error || `Erro no servidor (Status ${response.status})`);
+        return;
       }
+      onLogin({ token: data.token, user: data.user });
+    } catch (err) {
+      setError('Não foi possível conectar ao servidor.');
+    } finally {
       setLoading(false);
-    }, 1000);
+    }
   };
 
   return (
@@ -110,6 +107,7 @@ const AuthView: React.FC<AuthViewProps> = ({ onLogin }) => {
                 <input
                   required
                   type="password"
+                  minLength={isLogin ? undefined : 8}
                   placeholder="••••••••"
                   className="w-full bg-slate-50 border border-slate-100 rounded-2xl pl-12 pr-4 py-4 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
                   value={password}
@@ -139,7 +137,7 @@ const AuthView: React.FC<AuthViewProps> = ({ onLogin }) => {
           </form>
 
           <p className="mt-8 text-center text-xs text-slate-400 font-medium">
-            Seus dados são armazenados localmente.<br/>Sua privacidade é nossa prioridade.
+            Sua senha é armazenada com hash no servidor.<br/>Sua privacidade é nossa prioridade.
           </p>
         </div>
       </div>
@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { Account, Transaction } from '../types';
+import { groupIntoStatements, getStatementDates } from '../utils/creditCard';
+import { CreditCard, CalendarClock, Layers } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+interface CardStatementProps {
+  account: Account;
+  transactions: Transaction[];
+}
+
+const CardStatement: React.FC<CardStatementProps> = ({ account, transactions }) => {
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: account.currency }).format(value);
+  };
+
+  const { openCycle, openDates, futureCycles, committedTotal } = useMemo(() => {
+    const cycles = groupIntoStatements(transactions, account);
+    const openDates = getStatementDates(format(new Date(), 'yyyy-MM-dd'), account);
+    const futureCycles = cycles.filter(c => c.key > openDates.key);
+    return {
+      openCycle: cycles.find(c => c.key === openDates.key),
+      openDates,
+      futureCycles,
+      committedTotal: futureCycles.reduce((acc, c) => acc + c.total, 0)
+    };
+  }, [transactions, account]);
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-200 shadow-sm overflow-hidden animate-in fade-in slide-in-from-top-4">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-center gap-2">
+        <CreditCard className="w-4 h-4 text-slate-400" />
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Faturas · {account.name}</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-6">
+        <div className="p-5 rounded-2xl bg-slate-900 text-white">
+          <p className="text-[10px] font-black uppercase tracking-widest opacity-60">Fatura Aberta</p>
+          <p className="text-2xl font-black mt-2">{formatCurrency(openCycle?.total || 0)}</p>
+          <p className="text-[10px] font-bold opacity-60 mt-2">
+            Fecha em {format(parseISO(openDates.closingDate), 'dd/MM')} · Vence em {format(parseISO(openDates.dueDate), 'dd/MM')}
+          </p>
+        </div>
+        <div className="p-5 rounded-2xl bg-indigo-50 text-indigo-700">
+          <p className="text-[10px] font-black uppercase tracking-widest opacity-70">Comprometido em Faturas Futuras</p>
+          <p className="text-2xl font-black mt-2">{formatCurrency(committedTotal)}</p>
+          <p className="text-[10px] font-bold opacity-70 mt-2">{futureCycles.length} fatura(s) com parcelas lançadas</p>
+        </div>
+      </div>
+
+      {futureCycles.length > 0 && (
+        <div className="px-6 pb-6 space-y-2">
+          <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+            <CalendarClock className="w-3.5 h-3.5" /> Próximas Faturas
+          </h4>
+          <div className="divide-y divide-slate-100 border border-slate-100 rounded-2xl">
+            {futureCycles.map(cycle => (
+              <div key={cycle.key} className="px-4 py-3 flex items-center justify-between">
+                <span className="text-xs font-bold text-slate-600 capitalize">
+                  {format(parseISO(cycle.dueDate), 'MMMM/yyyy', { locale: ptBR })}
+                </span>
+                <span className="text-sm font-black text-slate-900">{formatCurrency(cycle.total)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="px-6 pb-6 space-y-2">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <Layers className="w-3.5 h-3.5" /> Lançamentos da Fatura Aberta
+        </h4>
+        {openCycle && openCycle.transactions.length > 0 ? (
+          <div className="divide-y divide-slate-100 border border-slate-100 rounded-2xl">
+            {openCycle.transactions.map(t => (
+              <div key={t.id} className="px-4 py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-xs font-bold text-slate-800">{t.description}</p>
+                  <p className="text-[10px] font-bold text-slate-400">{format(parseISO(t.date), 'dd/MM/yyyy')}</p>
+                </div>
+                <span className={`text-sm font-black ${t.amount < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                  {formatCurrency(-t.amount)}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs font-bold text-slate-400 italic">Nenhum lançamento nesta fatura.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CardStatement;
@@ -1,48 +1,200 @@
 
 import React, { useState } from 'react';
 import { Category } from '../types';
-import { Plus, Trash2, Tag, Edit3, X, Check } from 'lucide-react';
+import { Plus, Trash2, Tag, Edit3, X, Check, GripVertical, CornerDownRight, Merge, Receipt } from 'lucide-react';
+import { canBeParent, childrenOf, isRoot, optionLabel, sortAsTree } from '../utils/categories';
 
 interface CategoryManagerProps {
   categories: Category[];
   onAdd: (cat: Category) => void;
   onUpdate: (id: string, updates: Partial<Category>) => void;
   onDelete: (id: string) => void;
+  onMerge: (fromId: string, targetId: string) => void;
 }
 
-const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onAdd, onUpdate, onDelete }) => {
+const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onAdd, onUpdate, onDelete, onMerge }) => {
   const [newName, setNewName] = useState('');
   const [newColor, setNewColor] = useState('#3b82f6');
+  const [newParentId, setNewParentId] = useState('');
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [merge, setMerge] = useState<{ fromId: string; targetId: string } | null>(null);
+
+  const visible = categories.filter(c => c.id !== 'cat-unassigned' && c.id !== 'cat-transferencia');
+  const roots = visible.filter(c => isRoot(categories, c));
+  const parentOptions = roots.filter(c => !editingId || canBeParent(categories, editingId, c.id));
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newName.trim()) return;
     
     if (editingId) {
-      onUpdate(editingId, { name: newName.trim(), color: newColor });
+      onUpdate(editingId, { name: newName.trim(), color: newColor, parentId: newParentId || undefined });
       setEditingId(null);
     } else {
       onAdd({
         id: `cat-${Date.now()}`,
         name: newName.trim(),
-        color: newColor
+        color: newColor,
+        parentId: newParentId || undefined
       });
     }
     setNewName('');
     setNewColor('#3b82f6');
+    setNewParentId('');
   };
 
   const handleEdit = (cat: Category) => {
     setEditingId(cat.id);
     setNewName(cat.name);
     setNewColor(cat.color);
+    setNewParentId(isRoot(categories, cat) ? '' : cat.parentId!);
   };
 
   const cancelEdit = () => {
     setEditingId(null);
     setNewName('');
     setNewColor('#3b82f6');
+    setNewParentId('');
+  };
+
+  // Arrastar sobre uma principal vira subcategoria dela; soltar na faixa do topo volta a ser principal
+  const canDropOn = (targetId: string | null) => {
+    if (!draggingId) return false;
+    const dragged = categories.find(c => c.id === draggingId);
+    if (!dragged) return false;
+    if (targetId === null) return !isRoot(categories, dragged);
+    return dragged.parentId !== targetId && canBeParent(categories, draggingId, targetId);
+  };
+
+  const handleDrop = (targetId: string | null) => {
+    if (draggingId && canDropOn(targetId)) {
+      onUpdate(draggingId, { parentId: targetId ?? undefined });
+    }
+    setDraggingId(null);
+    setDropTargetId(null);
+  };
+
+  const confirmMerge = () => {
+    if (!merge || !merge.targetId) return;
+    onMerge(merge.fromId, merge.targetId);
+    setMerge(null);
+  };
+
+  const renderRow = (cat: Category, isChild: boolean) => {
+    const isDropTarget = dropTargetId === cat.id && canDropOn(cat.id);
+
+    if (merge?.fromId === cat.id) {
+      // Subcategorias da própria origem não servem de destino
+      const targets = sortAsTree(categories).filter(c => c.id !== cat.id && c.parentId !== cat.id && c.id !== 'cat-transferencia');
+      return (
+        <div key={cat.id} className={`p-4 bg-amber-50/50 space-y-3 ${isChild ? 'pl-12' : ''}`}>
+          <p className="text-sm font-bold text-slate-800">
+            Mesclar <span style={{ color: cat.color }}>{cat.name}</span> em:
+          </p>
+          <div className="flex items-center gap-2">
+            <select
+              autoFocus
+              value={merge.targetId}
+              onChange={(e) => setMerge({ ...merge, targetId: e.target.value })}
+              className="flex-1 bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Escolha a categoria de destino</option>
+              {targets.map(c => <option key={c.id} value={c.id}>{optionLabel(categories, c)}</option>)}
+            </select>
+            <button
+              onClick={confirmMerge}
+              disabled={!merge.targetId}
+              className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white text-xs font-black rounded-xl transition-all disabled:opacity-40"
+            >
+              Mesclar
+            </button>
+            <button
+              onClick={() => setMerge(null)}
+              className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-[10px] font-bold text-slate-500">
+            Lançamentos, orçamento, recorrências, regras e subcategorias passam para o destino e "{cat.name}" é excluída.
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={cat.id}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggingId(cat.id);
+        }}
+        onDragEnd={() => {
+          setDraggingId(null);
+          setDropTargetId(null);
+        }}
+        onDragOver={(e) => {
+          if (isChild || !canDropOn(cat.id)) return;
+          e.preventDefault();
+          setDropTargetId(cat.id);
+        }}
+        onDragLeave={() => setDropTargetId(prev => (prev === cat.id ? null : prev))}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop(cat.id);
+        }}
+        className={`p-4 flex items-center justify-between hover:bg-slate-50 transition-all group ${isChild ? 'pl-12' : ''} ${isDropTarget ? 'bg-blue-50 ring-2 ring-inset ring-blue-300' : ''} ${draggingId === cat.id ? 'opacity-40' : ''}`}
+      >
+        <div className="flex items-center gap-4">
+          <GripVertical className="w-4 h-4 text-slate-300 cursor-grab opacity-0 group-hover:opacity-100 transition-opacity" />
+          {isChild && <CornerDownRight className="w-4 h-4 text-slate-300 -ml-2" />}
+          <div 
+            className={`${isChild ? 'w-10 h-10' : 'w-12 h-12'} rounded-2xl flex items-center justify-center text-white shadow-sm`}
+            style={{ backgroundColor: cat.color }}
+          >
+            <Tag className={isChild ? 'w-5 h-5' : 'w-6 h-6'} />
+          </div>
+          <div>
+            <h4 className="font-bold text-slate-800">{cat.name}</h4>
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+              {isChild ? 'Subcategoria' : `${childrenOf(categories, cat.id).length} subcategorias`} · {cat.color}
+              {cat.requiresReceipt && <span className="text-teal-600"> · Exige comprovante</span>}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button
+            onClick={() => onUpdate(cat.id, { requiresReceipt: !cat.requiresReceipt })}
+            title={cat.requiresReceipt ? 'Deixar de exigir comprovante' : 'Exigir comprovante (ex: dedução no IR)'}
+            className={`p-2.5 rounded-xl transition-all ${cat.requiresReceipt ? 'text-teal-600 bg-teal-50' : 'text-slate-400 hover:text-teal-600 hover:bg-teal-50'}`}
+          >
+            <Receipt className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setMerge({ fromId: cat.id, targetId: '' })}
+            title="Mesclar em outra categoria"
+            className="p-2.5 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-xl transition-all"
+          >
+            <Merge className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => handleEdit(cat)}
+            className="p-2.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all"
+          >
+            <Edit3 className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => onDelete(cat.id)}
+            className="p-2.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"
+          >
+            <Trash2 className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    );
   };
 
   const colors = [
@@ -78,6 +230,20 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onAdd, on
                 />
               </div>
 
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Dentro de</label>
+                <select
+                  className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                  value={newParentId}
+                  onChange={(e) => setNewParentId(e.target.value)}
+                >
+                  <option value="">Nenhuma (categoria principal)</option>
+                  {parentOptions.filter(c => c.id !== editingId).map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+              </div>
+
               <div className="space-y-2">
                 <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Cor de Identificação</label>
                 <div className="grid grid-cols-6 gap-2">
@@ -121,39 +287,32 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onAdd, on
         {/* Categories List */}
         <div className="lg:col-span-2">
           <div className="bg-white rounded-[2rem] border border-slate-200 shadow-sm overflow-hidden">
-            <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+            <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
               <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Categorias Ativas</h3>
+              <p className="text-[10px] font-bold text-slate-400">Arraste uma categoria sobre outra para agrupá-la</p>
             </div>
+            {draggingId && canDropOn(null) && (
+              <div
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropTargetId('root');
+                }}
+                onDragLeave={() => setDropTargetId(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(null);
+                }}
+                className={`m-4 p-4 border-2 border-dashed rounded-2xl text-center text-xs font-bold transition-all ${dropTargetId === 'root' ? 'border-blue-400 bg-blue-50 text-blue-600' : 'border-slate-200 text-slate-400'}`}
+              >
+                Solte aqui para tornar categoria principal
+              </div>
+            )}
             <div className="divide-y divide-slate-100">
-              {categories.filter(c => c.id !== 'cat-unassigned').map((cat) => (
-                <div key={cat.id} className="p-4 flex items-center justify-between hover:bg-slate-50 transition-all group">
-                  <div className="flex items-center gap-4">
-                    <div 
-                      className="w-12 h-12 rounded-2xl flex items-center justify-center text-white shadow-sm"
-                      style={{ backgroundColor: cat.color }}
-                    >
-                      <Tag className="w-6 h-6" />
-                    </div>
-                    <div>
-                      <h4 className="font-bold text-slate-800">{cat.name}</h4>
-                      <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{cat.color}</p>
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                    <button
-                      onClick={() => handleEdit(cat)}
-                      className="p-2.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all"
-                    >
-                      <Edit3 className="w-5 h-5" />
-                    </button>
-                    <button
-                      onClick={() => onDelete(cat.id)}
-                      className="p-2.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"
-                    >
-                      <Trash2 className="w-5 h-5" />
-                    </button>
-                  </div>
-                </div>
+              {roots.map(root => (
+                <React.Fragment key={root.id}>
+                  {renderRow(root, false)}
+                  {childrenOf(visible, root.id).map(child => renderRow(child, true))}
+                </React.Fragment>
               ))}
             </div>
           </div>
@@ -1,24 +1,37 @@
 
 import React, { useMemo, useState } from 'react';
-import { Transaction, Category, Budget } from '../types';
+import { Transaction, Category, Budget, Account, Goal } from '../types';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
   PieChart, Pie, Cell, Legend, LabelList
 } from 'recharts';
 import { 
   TrendingUp, TrendingDown, Wallet, Calendar, Target, Repeat, 
-  ArrowRightLeft, Lightbulb, ArrowDownRight, Award, AlertTriangle 
+  ArrowRightLeft, Lightbulb, ArrowDownRight, Award, AlertTriangle, ChevronLeft, Tag 
 } from 'lucide-react';
-import { format, startOfMonth, endOfMonth, isWithinInterval, parseISO, startOfYear } from 'date-fns';
+import { format, startOfMonth, endOfMonth, isWithinInterval, parseISO, startOfYear, parse } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { sumByCategory } from '../utils/splits';
+import { childrenOf, effectiveBudget, rollUp, rootIdOf } from '../utils/categories';
+import { sumByTag } from '../utils/tags';
+import { budgetsForMonth, monthKey, monthlySpending, rolloverCarry } from '../utils/budgets';
+import GoalsPanel from './GoalsPanel';
 
 interface DashboardProps {
   transactions: Transaction[];
   categories: Category[];
   budgets: Budget[];
+  accounts: Account[];
+  goals: Goal[];
+  isReadOnly?: boolean;
+  onSaveGoal: (goal: Goal) => void;
+  onDeleteGoal: (id: string) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ transactions, categories, budgets }) => {
+const Dashboard: React.FC<DashboardProps> = ({ transactions, categories, budgets, accounts, goals, isReadOnly, onSaveGoal, onDeleteGoal }) => {
+  const [accountFilter, setAccountFilter] = useState<string>('all');
+  const [drillId, setDrillId] = useState<string | null>(null);
+  const [budgetMonth, setBudgetMonth] = useState(() => monthKey(new Date()));
   const [filterPeriod, setFilterPeriod] = useState<'month' | 'year' | 'all' | 'custom'>('month');
   const [customRange, setCustomRange] = useState({
     start: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
@@ -33,12 +46,17 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, categories, budgets
     }).format(value);
   };
 
+  const accountTransactions = useMemo(() => {
+    if (accountFilter === 'all') return transactions;
+    return transactions.filter(t => t.accountId === accountFilter);
+  }, [transactions, accountFilter]);
+
   const filteredTransactions = useMemo(() => {
     const now = new Date();
     let start: Date;
     let end: Date;
 
-    if (filterPeriod === 'all') return transactions;
+    if (filterPeriod === 'all') return accountTransactions;
     
     if (filterPeriod === 'month') {
       start = startOfMonth(now);
@@ -51,8 +69,8 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, categories, budgets
       end = parseISO(customRange.end);
     }
 
-    return transactions.filter(t => isWithinInterval(parseISO(t.date), { start, end }));
-  }, [transactions, filterPeriod, customRange]);
+    return accountTransactions.filter(t => isWithinInterval(parseISO(t.date), { start, end }));
+  }, [accountTransactions, filterPeriod, customRange]);
 
   const stats = useMemo(() => {
     const income = filteredTransactions.filter(t => t.type === 'income').reduce((acc, t) => acc + t.amount, 0);
@@ -112,10 +130,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, categories, budgets
     }
 
     // Categoria mais cara
-    const catMap = new Map<string, number>();
-    filteredTransactions.filter(t => t.type === 'expense').forEach(t => {
-      catMap.set(t.categoryId, (catMap.get(t.categoryId) || 0) + Math.abs(t.amount));
-    });
+    const catMap = sumByCategory(filteredTransactions.filter(t => t.type === 'expense'));
     
     let maxCat = { id: '', val: 0 };
     catMap.forEach((v, k) => {
@@ -136,58 +151,94 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, categories, budgets
     return list.slice(0, 3);
   }, [stats, filteredTransactions, categories]);
 
+  const tagSpendData = useMemo(() => {
+    const tagMap = sumByTag(filteredTransactions.filter(t => t.type === 'expense'));
+    return Array.from(tagMap.entries())
+      .map(([tag, value]) => ({ name: `#${tag}`, value }))
+      .sort((a, b) => b.value - a.value)
+      .slice(0, 12);
+  }, [filteredTransactions]);
+
   const fixedVsVariableData = useMemo(() => [
     { name: 'Gastos Fixos', value: stats.fixedExpense, color: '#6366f1' },
     { name: 'Gastos Variáveis', value: stats.variableExpense, color: '#f43f5e' }
   ], [stats]);
 
+  // Na visão geral as subcategorias somam na principal; ao detalhar uma principal aparecem
+  // as subcategorias e o que foi lançado direto nela
+  const inScope = (id: string) => drillId ? rootIdOf(categories, id) === drillId : rootIdOf(categories, id) === id;
+  const scopeName = (cat: Category) => drillId && cat.id === drillId ? `${cat.name} (direto)` : cat.name;
+  const drillCategory = categories.find(c => c.id === drillId);
+
   const distributionData = useMemo(() => {
-    const catMap = new Map<string, number>();
-    filteredTransactions.filter(t => t.type === 'expense').forEach(t => {
-      catMap.set(t.categoryId, (catMap.get(t.categoryId) || 0) + Math.abs(t.amount));
-    });
+    const own = sumByCategory(filteredTransactions.filter(t => t.type === 'expense'));
+    const catMap = drillId ? own : rollUp(own, categories);
 
-    return Array.from(catMap.entries()).map(([catId, value]) => {
+    return Array.from(catMap.entries()).filter(([catId]) => inScope(catId)).map(([catId, value]) => {
       const cat = categories.find(c => c.id === catId) || categories.find(c => c.id === 'cat-unassigned');
       return {
-        name: cat?.name || 'Desconhecido',
+        id: catId,
+        name: cat ? scopeName(cat) : 'Desconhecido',
         value,
-        color: cat?.color || '#94a3b8'
+        color: cat?.color || '#94a3b8',
+        drillable: !drillId && childrenOf(categories, catId).length > 0
       };
     }).sort((a, b) => b.value - a.value);
-  }, [filteredTransactions, categories]);
+  }, [filteredTransactions, categories, drillId]);
+
+  const spendingByMonth = useMemo(() => monthlySpending(transactions, categories), [transactions, categories]);
 
+  // Cada mês é comparado com o orçamento que estava em vigor nele, não com o valor atual;
+  // categorias com rollover somam a sobra (ou descontam o estouro) dos meses anteriores
   const budgetVsActualData = useMemo(() => {
-    const now = new Date();
-    const start = startOfMonth(now);
-    const end = endOfMonth(now);
+    const month = parse(budgetMonth, 'yyyy-MM', new Date());
+    const start = startOfMonth(month);
+    const end = endOfMonth(month);
+    const monthBudgets = budgetsForMonth(budgets, budgetMonth);
     
     const monthExpenses = transactions.filter(t => 
       t.type === 'expense' && isWithinInterval(parseISO(t.date), { start, end })
     );
 
-    const spentMap = new Map<string, number>();
-    monthExpenses.forEach(t => {
-      spentMap.set(t.categoryId, (spentMap.get(t.categoryId) || 0) + Math.abs(t.amount));
-    });
+    const own = sumByCategory(monthExpenses);
+    const spentMap = drillId ? own : rollUp(own, categories);
 
     return categories
-      .filter(c => !['cat-salario', 'cat-stocks', 'cat-beneficios', 'cat-unassigned'].includes(c.id))
+      .filter(c => !['cat-salario', 'cat-stocks', 'cat-beneficios', 'cat-transferencia', 'cat-unassigned'].includes(c.id))
+      .filter(c => inScope(c.id))
       .map(cat => {
         const spent = spentMap.get(cat.id) || 0;
-        const budget = budgets.find(b => b.categoryId === cat.id)?.amount || 0;
+        const budget = (drillId
+          ? monthBudgets.find(b => b.categoryId === cat.id)?.amount || 0
+          : effectiveBudget(categories, monthBudgets, cat.id)) + rolloverCarry(categories, budgets, spendingByMonth, cat, budgetMonth);
         const result = budget - spent;
         return {
-          name: cat.name,
-          Orçado: budget,
+          id: cat.id,
+          name: scopeName(cat),
+          Orçado: Math.max(0, budget),
           Realizado: spent,
           Resultado: result,
           resColor: result >= 0 ? '#10b981' : '#ef4444',
-          color: cat.color
+          color: cat.color,
+          drillable: !drillId && childrenOf(categories, cat.id).length > 0
         };
       })
       .filter(d => d.Orçado > 0 || d.Realizado > 0);
-  }, [transactions, categories, budgets]);
+  }, [transactions, categories, budgets, budgetMonth, spendingByMonth, drillId]);
+
+  const drillInto = (entry?: { id: string; drillable: boolean }) => {
+    if (entry?.drillable) setDrillId(entry.id);
+  };
+
+  const drillBackButton = drillCategory && (
+    <button
+      onClick={() => setDrillId(null)}
+      className="ml-auto flex items-center gap-1 text-xs font-bold text-blue-600 bg-blue-50 hover:bg-blue-100 px-3 py-1.5 rounded-xl transition-all"
+    >
+      <ChevronLeft className="w-4 h-4" />
+      {drillCategory.name}
+    </button>
+  );
 
   return (
     <div className="space-y-6 animate-in fade-in duration-500 pb-12">
@@ -199,6 +250,16 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, categories, budgets
         </div>
         
         <div className="flex flex-wrap items-center gap-3 bg-white p-2 rounded-2xl border border-slate-200 shadow-sm">
+          {accounts.length > 1 && (
+            <select
+              value={accountFilter}
+              onChange={(e) => setAccountFilter(e.target.value)}
+              className="bg-slate-100 border-none rounded-xl px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-600 focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">Todas Contas</option>
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          )}
           <div className="flex bg-slate-100 p-1 rounded-xl">
             {(['month', 'year', 'all', 'custom'] as const).map((p) => (
               <button
@@ -347,6 +408,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, categories, budgets
           <h3 className="text-lg font-bold text-slate-800 mb-8 flex items-center gap-2">
             <Calendar className="w-5 h-5 text-slate-400" />
             Distribuição por Categorias
+            {drillBackButton}
           </h3>
           <div className="h-80 w-full">
             <ResponsiveContainer width="100%" height="100%">
@@ -360,9 +422,10 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, categories, budgets
                   paddingAngle={4}
                   dataKey="value"
                   stroke="none"
+                  onClick={(_, index) => drillInto(distributionData[index])}
                 >
                   {distributionData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.color} />
+                    <Cell key={`cell-${index}`} fill={entry.color} cursor={entry.drillable ? 'pointer' : undefined} />
                   ))}
                 </Pie>
                 <Tooltip 
@@ -419,11 +482,60 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, categories, budgets
           </div>
       </div>
 
+      {/* Goals: o progresso usa todo o histórico, independente dos filtros acima */}
+      <GoalsPanel
+        goals={goals}
+        transactions={transactions}
+        categories={categories}
+        accounts={accounts}
+        isReadOnly={isReadOnly}
+        onSave={onSaveGoal}
+        onDelete={onDeleteGoal}
+      />
+
+      {/* Spend by Tag */}
+      <div className="bg-white p-8 rounded-[2.2rem] border border-slate-200 shadow-sm">
+        <h3 className="text-lg font-bold text-slate-800 mb-2 flex items-center gap-2">
+          <Tag className="w-5 h-5 text-violet-500" />
+          Gastos por Tag
+        </h3>
+        <p className="text-xs text-slate-400 mb-6">Um lançamento com várias tags conta em cada uma delas.</p>
+        {tagSpendData.length > 0 ? (
+          <div className="w-full" style={{ height: Math.max(160, tagSpendData.length * 36) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={tagSpendData} layout="vertical" margin={{ left: 20, right: 120 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+                <XAxis type="number" hide />
+                <YAxis dataKey="name" type="category" axisLine={false} tickLine={false} tick={{ fontSize: 11, fontWeight: 'bold', fill: '#64748b' }} width={160} />
+                <Tooltip 
+                  cursor={{ fill: '#f8fafc' }}
+                  contentStyle={{ borderRadius: '24px', border: 'none', boxShadow: '0 25px 50px -12px rgb(0 0 0 / 0.15)' }}
+                  formatter={(value: number) => formatCurrency(value)}
+                />
+                <Bar dataKey="value" name="Gasto" fill="#8b5cf6" radius={[0, 8, 8, 0]} barSize={12}>
+                  <LabelList dataKey="value" position="right" formatter={(v: number) => formatCurrency(v)} style={{ fontSize: '10px', fontWeight: 'bold', fill: '#8b5cf6' }} />
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-sm font-bold italic text-slate-400 py-8 text-center">Nenhuma despesa com tag no período.</p>
+        )}
+      </div>
+
       {/* Budget vs Actual Horizontal Bar Chart */}
       <div className="bg-white p-8 rounded-[2.2rem] border border-slate-200 shadow-sm">
         <h3 className="text-lg font-bold text-slate-800 mb-8 flex items-center gap-2">
           <Target className="w-5 h-5 text-blue-500" />
-          Execução Orçamentária (Mês Atual)
+          Execução Orçamentária
+          <input
+            type="month"
+            value={budgetMonth}
+            max={monthKey(new Date())}
+            onChange={(e) => e.target.value && setBudgetMonth(e.target.value)}
+            className="bg-slate-50 border-none rounded-xl px-3 py-1.5 text-xs font-bold text-slate-600 focus:ring-2 focus:ring-blue-500"
+          />
+          {drillBackButton}
         </h3>
         <div className="h-96 w-full">
           <ResponsiveContainer width="100%" height="100%">
@@ -440,7 +552,7 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions, categories, budgets
               <Bar dataKey="Orçado" fill="#e2e8f0" radius={[0, 8, 8, 0]} barSize={12}>
                  <LabelList dataKey="Orçado" position="right" formatter={(v: number) => v > 0 ? formatCurrency(v) : ''} style={{ fontSize: '10px', fontWeight: 'bold', fill: '#94a3b8' }} />
               </Bar>
-              <Bar dataKey="Realizado" fill="#3b82f6" radius={[0, 8, 8, 0]} barSize={12}>
+              <Bar dataKey="Realizado" fill="#3b82f6" radius={[0, 8, 8, 0]} barSize={12} cursor="pointer" onClick={(_, index) => drillInto(budgetVsActualData[index])}>
                  <LabelList dataKey="Realizado" position="right" formatter={(v: number) => v > 0 ? formatCurrency(v) : ''} style={{ fontSize: '10px', fontWeight: 'bold', fill: '#3b82f6' }} />
               </Bar>
             </BarChart>
@@ -0,0 +1,151 @@
+import React, { useMemo } from 'react';
+import { Account, Category, RecurringTransaction, Transaction } from '../types';
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine, Cell
+} from 'recharts';
+import { LineChart as LineChartIcon, Wallet, TrendingDown, AlertTriangle, CalendarClock } from 'lucide-react';
+import { format, parse } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { FORECAST_MONTHS, projectCashFlow } from '../utils/forecast';
+
+interface ForecastViewProps {
+  transactions: Transaction[];
+  recurring: RecurringTransaction[];
+  categories: Category[];
+  accounts: Account[];
+}
+
+const monthLabel = (month: string, pattern = 'MMM/yy') =>
+  format(parse(month, 'yyyy-MM', new Date()), pattern, { locale: ptBR });
+
+const ForecastView: React.FC<ForecastViewProps> = ({ transactions, recurring, categories, accounts }) => {
+  const forecast = useMemo(
+    () => projectCashFlow(transactions, recurring, categories, accounts),
+    [transactions, recurring, categories, accounts]
+  );
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+  const startingBalance = forecast.length > 0 ? forecast[0].balance - forecast[0].net : 0;
+  const lowest = forecast.reduce((min, m) => (m.balance < min.balance ? m : min), forecast[0]);
+  const negativeMonths = forecast.filter(m => m.balance < 0);
+
+  const chartData = forecast.map(m => ({
+    name: monthLabel(m.month),
+    Saldo: Math.round(m.balance * 100) / 100,
+    Resultado: Math.round(m.net * 100) / 100
+  }));
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-12">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800">Projeção de Caixa</h2>
+        <p className="text-sm text-slate-500">
+          Próximos {FORECAST_MONTHS} meses a partir de recorrências, parcelas agendadas e da média de gastos variáveis
+        </p>
+      </div>
+
+      {negativeMonths.length > 0 && (
+        <div className="p-5 rounded-[1.8rem] bg-rose-50 border border-rose-100 flex items-start gap-4">
+          <div className="p-3 rounded-2xl bg-white text-rose-600 shadow-sm">
+            <AlertTriangle className="w-5 h-5" />
+          </div>
+          <div>
+            <h4 className="text-sm font-bold text-rose-700">Saldo negativo previsto</h4>
+            <p className="text-xs text-slate-600 mt-1 font-medium leading-relaxed">
+              No ritmo atual o saldo fica abaixo de zero em {negativeMonths.map(m => monthLabel(m.month, 'MMMM/yyyy')).join(', ')}.
+              Revise as recorrências ou reduza os gastos variáveis antes de {monthLabel(negativeMonths[0].month, 'MMMM')}.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+          <div className="flex items-center justify-between mb-4">
+            <div className="p-3 bg-blue-50 text-blue-600 rounded-2xl"><Wallet className="w-6 h-6" /></div>
+            <span className="text-[10px] font-black text-blue-600 bg-blue-50 px-2.5 py-1 rounded-full uppercase tracking-widest">Saldo Hoje</span>
+          </div>
+          <p className={`text-2xl font-black ${startingBalance >= 0 ? 'text-slate-900' : 'text-rose-600'}`}>{formatCurrency(startingBalance)}</p>
+        </div>
+        <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+          <div className="flex items-center justify-between mb-4">
+            <div className="p-3 bg-indigo-50 text-indigo-600 rounded-2xl"><CalendarClock className="w-6 h-6" /></div>
+            <span className="text-[10px] font-black text-indigo-600 bg-indigo-50 px-2.5 py-1 rounded-full uppercase tracking-widest">
+              Em {forecast.length > 0 ? monthLabel(forecast[forecast.length - 1].month) : '—'}
+            </span>
+          </div>
+          <p className={`text-2xl font-black ${(forecast[forecast.length - 1]?.balance ?? 0) >= 0 ? 'text-slate-900' : 'text-rose-600'}`}>
+            {formatCurrency(forecast[forecast.length - 1]?.balance ?? 0)}
+          </p>
+        </div>
+        <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+          <div className="flex items-center justify-between mb-4">
+            <div className="p-3 bg-amber-50 text-amber-600 rounded-2xl"><TrendingDown className="w-6 h-6" /></div>
+            <span className="text-[10px] font-black text-amber-600 bg-amber-50 px-2.5 py-1 rounded-full uppercase tracking-widest">
+              Menor Saldo {lowest ? `· ${monthLabel(lowest.month)}` : ''}
+            </span>
+          </div>
+          <p className={`text-2xl font-black ${(lowest?.balance ?? 0) >= 0 ? 'text-slate-900' : 'text-rose-600'}`}>{formatCurrency(lowest?.balance ?? 0)}</p>
+        </div>
+      </div>
+
+      <div className="bg-white p-8 rounded-[2.2rem] border border-slate-200 shadow-sm">
+        <h3 className="text-lg font-bold text-slate-800 mb-8 flex items-center gap-2">
+          <LineChartIcon className="w-5 h-5 text-blue-500" />
+          Saldo Projetado
+        </h3>
+        <div className="h-80 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ left: 20, right: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 11, fontWeight: 'bold', fill: '#64748b' }} />
+              <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} tickFormatter={(v: number) => formatCurrency(v)} width={100} />
+              <Tooltip
+                cursor={{ fill: '#f8fafc' }}
+                contentStyle={{ borderRadius: '24px', border: 'none', boxShadow: '0 25px 50px -12px rgb(0 0 0 / 0.15)' }}
+                formatter={(value: number) => formatCurrency(value)}
+              />
+              <Legend iconType="circle" verticalAlign="top" align="right" wrapperStyle={{ paddingBottom: '20px', fontSize: '11px', fontWeight: 'bold' }} />
+              <ReferenceLine y={0} stroke="#f43f5e" strokeDasharray="4 4" />
+              <Bar dataKey="Resultado" radius={[8, 8, 0, 0]} barSize={18}>
+                {chartData.map((d, i) => <Cell key={i} fill={d.Resultado >= 0 ? '#a7f3d0' : '#fecdd3'} />)}
+              </Bar>
+              <Line type="monotone" dataKey="Saldo" stroke="#3b82f6" strokeWidth={3} dot={{ r: 4 }} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white p-8 rounded-[2.2rem] border border-slate-200 shadow-sm overflow-x-auto">
+        <table className="w-full min-w-[640px] text-left">
+          <thead>
+            <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+              <th className="pb-3">Mês</th>
+              <th className="pb-3 text-right">Agendado</th>
+              <th className="pb-3 text-right">Recorrências</th>
+              <th className="pb-3 text-right">Gasto variável</th>
+              <th className="pb-3 text-right">Resultado</th>
+              <th className="pb-3 text-right">Saldo</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {forecast.map(m => (
+              <tr key={m.month} className={m.balance < 0 ? 'bg-rose-50/50' : ''}>
+                <td className="py-3 text-sm font-bold text-slate-700 capitalize">{monthLabel(m.month, 'MMMM yyyy')}</td>
+                <td className="py-3 text-sm font-bold text-right text-slate-600">{formatCurrency(m.scheduled)}</td>
+                <td className="py-3 text-sm font-bold text-right text-slate-600">{formatCurrency(m.recurring)}</td>
+                <td className="py-3 text-sm font-bold text-right text-rose-500">{formatCurrency(-m.variable)}</td>
+                <td className={`py-3 text-sm font-black text-right ${m.net >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{formatCurrency(m.net)}</td>
+                <td className={`py-3 text-sm font-black text-right ${m.balance >= 0 ? 'text-slate-900' : 'text-rose-600'}`}>{formatCurrency(m.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ForecastView;
@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import { Account, Category, Goal, Transaction } from '../types';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { PiggyBank, Plus, Pencil, Trash2, X, Check } from 'lucide-react';
+import { GOAL_STATUS_LABELS, GoalStatus, goalProgress } from '../utils/goals';
+import { categoryLabel, sortAsTree } from '../utils/categories';
+import { TRANSFER_CATEGORY_ID } from '../constants';
+
+interface GoalsPanelProps {
+  goals: Goal[];
+  transactions: Transaction[];
+  categories: Category[];
+  accounts: Account[];
+  isReadOnly?: boolean;
+  onSave: (goal: Goal) => void;
+  onDelete: (id: string) => void;
+}
+
+const COLORS = ['#10b981', '#3b82f6', '#8b5cf6', '#f59e0b', '#ec4899', '#06b6d4'];
+
+const STATUS_STYLES: Record<GoalStatus, string> = {
+  done: 'text-emerald-600 bg-emerald-50',
+  on_track: 'text-blue-600 bg-blue-50',
+  behind: 'text-amber-600 bg-amber-50',
+  overdue: 'text-rose-600 bg-rose-50'
+};
+
+const emptyForm = {
+  name: '', targetAmount: '', targetDate: '', initialAmount: '',
+  sourceType: 'account' as Goal['sourceType'], sourceId: '', color: COLORS[0]
+};
+
+const GoalsPanel: React.FC<GoalsPanelProps> = ({ goals, transactions, categories, accounts, isReadOnly, onSave, onDelete }) => {
+  const [editing, setEditing] = useState<Goal | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+  const categoryOptions = useMemo(
+    () => sortAsTree(categories).filter(c => c.id !== TRANSFER_CATEGORY_ID),
+    [categories]
+  );
+
+  const progress = useMemo(
+    () => new Map(goals.map(g => [g.id, goalProgress(g, transactions, categories)])),
+    [goals, transactions, categories]
+  );
+
+  const sourceName = (goal: Goal) => goal.sourceType === 'account'
+    ? accounts.find(a => a.id === goal.sourceId)?.name || 'Conta removida'
+    : categories.some(c => c.id === goal.sourceId) ? categoryLabel(categories, goal.sourceId) : 'Categoria removida';
+
+  const openForm = (goal?: Goal) => {
+    setEditing(goal || null);
+    setForm(goal ? {
+      name: goal.name,
+      targetAmount: goal.targetAmount.toString(),
+      targetDate: goal.targetDate,
+      initialAmount: goal.initialAmount ? goal.initialAmount.toString() : '',
+      sourceType: goal.sourceType,
+      sourceId: goal.sourceId,
+      color: goal.color
+    } : { ...emptyForm, sourceId: accounts[0]?.id || '' });
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const targetAmount = parseFloat(form.targetAmount);
+    if (!form.name.trim() || !(targetAmount > 0) || !form.targetDate || !form.sourceId) return;
+    onSave({
+      ...editing,
+      id: editing?.id || `goal-${Date.now()}`,
+      name: form.name.trim(),
+      targetAmount,
+      targetDate: form.targetDate,
+      startDate: editing?.startDate || format(new Date(), 'yyyy-MM-dd'),
+      initialAmount: parseFloat(form.initialAmount) || 0,
+      sourceType: form.sourceType,
+      sourceId: form.sourceId,
+      color: form.color
+    });
+    closeForm();
+  };
+
+  const inputClass = 'w-full bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white p-8 rounded-[2.2rem] border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <PiggyBank className="w-5 h-5 text-emerald-500" />
+          Metas de Economia
+        </h3>
+        {!isReadOnly && !showForm && (
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl text-xs font-bold transition-all"
+          >
+            <Plus className="w-3.5 h-3.5" /> Nova meta
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 p-5 bg-slate-50/60 border border-slate-100 rounded-2xl grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1 md:col-span-3">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Nome</label>
+            <input className={inputClass} placeholder="Ex: Carro novo" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Valor da meta</label>
+            <input type="number" min="0" step="0.01" className={inputClass} placeholder="30000" value={form.targetAmount} onChange={(e) => setForm({ ...form, targetAmount: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Prazo</label>
+            <input type="date" className={inputClass} value={form.targetDate} onChange={(e) => setForm({ ...form, targetDate: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Já guardado</label>
+            <input type="number" min="0" step="0.01" className={inputClass} placeholder="0,00" value={form.initialAmount} onChange={(e) => setForm({ ...form, initialAmount: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Aportes vêm de</label>
+            <select
+              className={inputClass}
+              value={form.sourceType}
+              onChange={(e) => {
+                const sourceType = e.target.value as Goal['sourceType'];
+                setForm({ ...form, sourceType, sourceId: sourceType === 'account' ? accounts[0]?.id || '' : categoryOptions[0]?.id || '' });
+              }}
+            >
+              <option value="account">Uma conta</option>
+              <option value="category">Uma categoria</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              {form.sourceType === 'account' ? 'Conta' : 'Categoria'}
+            </label>
+            <select className={inputClass} value={form.sourceId} onChange={(e) => setForm({ ...form, sourceId: e.target.value })}>
+              {form.sourceType === 'account'
+                ? accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)
+                : categoryOptions.map(c => <option key={c.id} value={c.id}>{categoryLabel(categories, c.id)}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Cor</label>
+            <div className="flex gap-2 py-1">
+              {COLORS.map(c => (
+                <button
+                  key={c}
+                  type="button"
+                  onClick={() => setForm({ ...form, color: c })}
+                  className={`w-7 h-7 rounded-full border-2 flex items-center justify-center transition-all ${form.color === c ? 'border-slate-900 scale-110' : 'border-transparent'}`}
+                  style={{ backgroundColor: c }}
+                >
+                  {form.color === c && <Check className="w-3.5 h-3.5 text-white" />}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="md:col-span-3 flex justify-end gap-2">
+            <button type="button" onClick={closeForm} className="flex items-center gap-1.5 px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-200 transition-all">
+              <X className="w-3.5 h-3.5" /> Cancelar
+            </button>
+            <button type="submit" className="flex items-center gap-1.5 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl text-xs font-bold transition-all">
+              <Check className="w-3.5 h-3.5" /> {editing ? 'Salvar meta' : 'Criar meta'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {goals.length === 0 ? (
+        <p className="text-sm font-bold italic text-slate-400 py-8 text-center">
+          Nenhuma meta ainda. Ex: R$ 30.000 para o carro até dezembro de 2027.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {goals.map(goal => {
+            const p = progress.get(goal.id)!;
+            return (
+              <div key={goal.id} className="group p-5 rounded-2xl border border-slate-100 hover:border-slate-200 transition-all">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-black text-slate-900 truncate">{goal.name}</p>
+                    <p className="text-[10px] font-bold text-slate-400">
+                      {sourceName(goal)} · até {format(parseISO(goal.targetDate), "MMM 'de' yyyy", { locale: ptBR })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-full ${STATUS_STYLES[p.status]}`}>
+                      {GOAL_STATUS_LABELS[p.status]}
+                    </span>
+                    {!isReadOnly && (
+                      <>
+                        <button onClick={() => openForm(goal)} title="Editar" className="p-1.5 text-slate-300 hover:text-blue-600 rounded-lg opacity-0 group-hover:opacity-100 transition-all">
+                          <Pencil className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => confirm(`Excluir a meta "${goal.name}"?`) && onDelete(goal.id)}
+                          title="Excluir"
+                          className="p-1.5 text-slate-300 hover:text-rose-600 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                <div className="mt-4 h-2.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full rounded-full transition-all" style={{ width: `${p.percent}%`, backgroundColor: goal.color }} />
+                </div>
+                <div className="mt-2 flex items-center justify-between text-xs font-bold">
+                  <span className="text-slate-700">{formatCurrency(p.saved)} <span className="text-slate-400">de {formatCurrency(goal.targetAmount)}</span></span>
+                  <span style={{ color: goal.color }}>{p.percent.toFixed(0)}%</span>
+                </div>
+                {p.status !== 'done' && (
+                  <p className="mt-2 text-[10px] font-bold text-slate-500">
+                    {p.status === 'overdue'
+                      ? `Faltam ${formatCurrency(p.remaining)} e o prazo já passou.`
+                      : `Guarde ${formatCurrency(p.monthlyNeeded)} por mês nos próximos ${p.monthsLeft} ${p.monthsLeft === 1 ? 'mês' : 'meses'}.`}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalsPanel;
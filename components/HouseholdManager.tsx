@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { Household, HouseholdInvite, HouseholdMember, HouseholdRole, User } from '../types';
+import { HOUSEHOLD_ROLE_LABELS } from '../constants';
+import { Users, Mail, Send, Check, X, Home, Trash2, LogOut, Edit2 } from 'lucide-react';
+
+interface HouseholdManagerProps {
+  user: User;
+  households: Household[];
+  activeHousehold: Household | null;
+  members: HouseholdMember[];
+  sentInvites: HouseholdInvite[];
+  pendingInvites: HouseholdInvite[];
+  error: string | null;
+  onSelect: (id: string) => void;
+  onInvite: (email: string, role: HouseholdRole) => void;
+  onRevokeInvite: (inviteId: string) => void;
+  onRespondInvite: (inviteId: string, accept: boolean) => void;
+  onUpdateRole: (userId: string, role: HouseholdRole) => void;
+  onRemoveMember: (userId: string) => void;
+  onRename: (name: string) => void;
+}
+
+const HouseholdManager: React.FC<HouseholdManagerProps> = ({
+  user, households, activeHousehold, members, sentInvites, pendingInvites, error,
+  onSelect, onInvite, onRevokeInvite, onRespondInvite, onUpdateRole, onRemoveMember, onRename
+}) => {
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<HouseholdRole>('editor');
+  const [renameValue, setRenameValue] = useState<string | null>(null);
+
+  const isOwner = activeHousehold?.role === 'owner';
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+    onInvite(inviteEmail.trim(), inviteRole);
+    setInviteEmail('');
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renameValue?.trim()) onRename(renameValue.trim());
+    setRenameValue(null);
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800">Lar Compartilhado</h2>
+        <p className="text-sm text-slate-500">Convide outras pessoas para administrar as mesmas finanças</p>
+      </div>
+
+      {error && (
+        <p className="text-xs font-bold text-rose-500 bg-rose-50 px-4 py-3 rounded-xl">{error}</p>
+      )}
+
+      {pendingInvites.length > 0 && (
+        <div className="bg-blue-600 text-white p-6 rounded-[2rem] shadow-xl shadow-blue-200 space-y-3">
+          <h3 className="text-sm font-bold flex items-center gap-2"><Mail className="w-4 h-4" /> Convites Recebidos</h3>
+          {pendingInvites.map(inv => (
+            <div key={inv.id} className="flex items-center justify-between bg-white/10 rounded-2xl px-4 py-3">
+              <p className="text-sm font-bold">
+                {inv.householdName} <span className="opacity-70 font-medium">como {HOUSEHOLD_ROLE_LABELS[inv.role]}</span>
+              </p>
+              <div className="flex gap-2">
+                <button onClick={() => onRespondInvite(inv.id, true)} className="p-2 bg-white text-blue-600 rounded-xl hover:bg-blue-50 transition-all" title="Aceitar">
+                  <Check className="w-4 h-4" />
+                </button>
+                <button onClick={() => onRespondInvite(inv.id, false)} className="p-2 bg-white/20 rounded-xl hover:bg-white/30 transition-all" title="Recusar">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-1 space-y-6">
+          <div className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">Meus Lares</h3>
+            <div className="space-y-2">
+              {households.map(h => (
+                <button
+                  key={h.id}
+                  onClick={() => onSelect(h.id)}
+                  className={`w-full flex items-center justify-between px-4 py-3 rounded-2xl text-sm font-bold transition-all ${activeHousehold?.id === h.id ? 'bg-blue-600 text-white shadow-lg shadow-blue-200' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'}`}
+                >
+                  <span className="flex items-center gap-2 truncate"><Home className="w-4 h-4 shrink-0" /> {h.name}</span>
+                  <span className="text-[9px] font-black uppercase tracking-widest opacity-70">{HOUSEHOLD_ROLE_LABELS[h.role]}</span>
+                </button>
+              ))}
+              {isOwner && activeHousehold && (
+                renameValue === null ? (
+                  <button
+                    onClick={() => setRenameValue(activeHousehold.name)}
+                    className="w-full flex items-center justify-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest pt-2 hover:text-blue-600 transition-all"
+                  >
+                    <Edit2 className="w-3 h-3" /> Renomear lar atual
+                  </button>
+                ) : (
+                  <form onSubmit={handleRename} className="flex gap-2 pt-2">
+                    <input
+                      autoFocus
+                      className="flex-1 bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                    />
+                    <button type="submit" className="p-2 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-all"><Check className="w-4 h-4" /></button>
+                    <button type="button" onClick={() => setRenameValue(null)} className="p-2 bg-slate-100 text-slate-500 rounded-xl hover:bg-slate-200 transition-all"><X className="w-4 h-4" /></button>
+                  </form>
+                )
+              )}
+              {households.length === 0 && (
+                <p className="text-xs font-bold text-slate-400 italic">Servidor indisponível. Usando apenas suas finanças pessoais.</p>
+              )}
+            </div>
+          </div>
+
+          {isOwner && (
+            <div className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm">
+              <h3 className="text-lg font-bold text-slate-900 mb-6">Convidar por Email</h3>
+              <form onSubmit={handleInvite} className="space-y-4">
+                <input
+                  type="email"
+                  required
+                  placeholder="parceiro@email.com"
+                  className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                />
+                <select
+                  className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as HouseholdRole)}
+                >
+                  <option value="editor">{HOUSEHOLD_ROLE_LABELS.editor} (pode lançar e editar)</option>
+                  <option value="viewer">{HOUSEHOLD_ROLE_LABELS.viewer} (apenas visualiza)</option>
+                </select>
+                <button
+                  type="submit"
+                  className="w-full bg-slate-900 text-white font-bold py-3 rounded-xl hover:bg-slate-800 transition-all flex items-center justify-center gap-2 shadow-lg shadow-slate-200"
+                >
+                  <Send className="w-4 h-4" /> Enviar Convite
+                </button>
+                <p className="text-[10px] text-slate-400 font-medium leading-relaxed">
+                  O convite aparece para a pessoa assim que ela entrar com este email.
+                </p>
+              </form>
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2">
+          <div className="bg-white rounded-[2rem] border border-slate-200 shadow-sm overflow-hidden">
+            <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                <Users className="w-4 h-4" /> Membros {activeHousehold && `· ${activeHousehold.name}`}
+              </h3>
+            </div>
+            <div className="divide-y divide-slate-100">
+              {members.map(m => (
+                <div key={m.userId} className="p-4 flex items-center justify-between">
+                  <div>
+                    <h4 className="font-bold text-slate-800">{m.name} {m.userId === user.id && <span className="text-[10px] text-slate-400">(você)</span>}</h4>
+                    <p className="text-[10px] text-slate-400 font-bold">{m.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isOwner && m.userId !== user.id ? (
+                      <>
+                        <select
+                          value={m.role}
+                          onChange={(e) => onUpdateRole(m.userId, e.target.value as HouseholdRole)}
+                          className="text-xs font-bold bg-slate-50 border-none rounded-lg px-2 py-1.5 focus:ring-2 focus:ring-blue-500"
+                        >
+                          {(Object.keys(HOUSEHOLD_ROLE_LABELS) as HouseholdRole[]).map(r => (
+                            <option key={r} value={r}>{HOUSEHOLD_ROLE_LABELS[r]}</option>
+                          ))}
+                        </select>
+                        <button onClick={() => onRemoveMember(m.userId)} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all" title="Remover">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    ) : (
+                      <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 px-2.5 py-1 rounded-full">
+                        {HOUSEHOLD_ROLE_LABELS[m.role]}
+                      </span>
+                    )}
+                    {m.userId === user.id && activeHousehold && activeHousehold.id !== user.id && (
+                      <button onClick={() => onRemoveMember(user.id)} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all" title="Sair deste lar">
+                        <LogOut className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {sentInvites.map(inv => (
+                <div key={inv.id} className="p-4 flex items-center justify-between bg-slate-50/50">
+                  <div>
+                    <h4 className="font-bold text-slate-500">{inv.email}</h4>
+                    <p className="text-[10px] text-amber-500 font-black uppercase tracking-widest">Convite pendente · {HOUSEHOLD_ROLE_LABELS[inv.role]}</p>
+                  </div>
+                  {isOwner && (
+                    <button onClick={() => onRevokeInvite(inv.id)} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all" title="Cancelar convite">
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HouseholdManager;
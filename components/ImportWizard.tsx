@@ -1,37 +1,71 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Transaction, ImportMapping, ParseResult, Category } from '../types';
-import { Upload, X, ChevronRight, AlertCircle, Sparkles, Loader2, Check, BrainCircuit, Repeat, Calendar } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Transaction, ImportMapping, ParseResult, Category, Account, ImportProfile, ImportDateFormat, CategoryRule, CategorySuggestions } from '../types';
+import { DEFAULT_ACCOUNT_ID } from '../constants';
+import { Upload, X, ChevronRight, AlertCircle, Sparkles, Loader2, Check, BrainCircuit, Repeat, Calendar, Copy, Save, Trash2, History } from 'lucide-react';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
-import { GoogleGenAI } from "@google/genai";
 import { format, parseISO, getMonth } from 'date-fns';
+import { decodeStatementFile, parseOFX, parseQIF, ParsedStatement } from '../utils/statements';
+import { assignContentIds, findDuplicates, DuplicateMatch } from '../utils/duplicates';
+import { applyRules } from '../utils/rules';
+import { classify, trainClassifier, CategorySuggestion, CONFIDENCE_THRESHOLD } from '../utils/classifier';
+import { findProfile, headerSignature, parseDateWithFormat, parseDecimal } from '../utils/importProfiles';
 
 interface ImportWizardProps {
   onClose: () => void;
   onImport: (transactions: Transaction[]) => void;
   categories: Category[];
+  accounts: Account[];
   existingTransactions: Transaction[];
+  onLinkAccount: (account: Account) => void;
+  importProfiles: ImportProfile[];
+  onSaveProfile: (profile: ImportProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  rules: CategoryRule[];
+  onSuggestCategories: (descriptions: string[]) => Promise<CategorySuggestions>;
 }
 
-const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categories, existingTransactions }) => {
-  const [step, setStep] = useState<'upload' | 'mapping' | 'ai-review' | 'processing'>('upload');
-  const [parseResult, setParseResult] = useState<ParseResult | null>(null);
-  const [mapping, setMapping] = useState<ImportMapping>({ 
-    dateCol: -1, 
-    descriptionCol: -1, 
-    valueCol: -1,
-    categoryCol: -1 
-  });
+const EMPTY_MAPPING: ImportMapping = { dateCol: -1, descriptionCol: -1, valueCol: -1, categoryCol: -1 };
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categories, accounts, existingTransactions, onLinkAccount, importProfiles, onSaveProfile, onDeleteProfile, rules, onSuggestCategories }) => {
+  const [step, setStep] = useState<'upload' | 'mapping' | 'duplicates' | 'ai-review' | 'processing'>('upload');
+  const [rawRows, setRawRows] = useState<any[][] | null>(null);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('auto');
+  const [decimalSeparator, setDecimalSeparator] = useState<ImportProfile['decimalSeparator']>('auto');
+  const [invertSign, setInvertSign] = useState(false);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [skippedCount, setSkippedCount] = useState(0);
+  const [candidates, setCandidates] = useState<Transaction[]>([]);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [skipIds, setSkipIds] = useState<Set<string>>(new Set());
+  const [mapping, setMapping] = useState<ImportMapping>(EMPTY_MAPPING);
+  const [accountId, setAccountId] = useState(DEFAULT_ACCOUNT_ID);
   const [error, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [aiSuggestions, setAiSuggestions] = useState<Record<string, string>>({});
+  const [suggestions, setSuggestions] = useState<Record<string, CategorySuggestion>>({});
+  const [aiTruncated, setAiTruncated] = useState(0);
   const [tempTransactions, setTempTransactions] = useState<Transaction[]>([]);
   const [detectedRecurrences, setDetectedRecurrences] = useState<Set<string>>(new Set());
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const parseResult = useMemo<ParseResult | null>(() => rawRows && {
+    headers: (rawRows[headerRow] || []) as string[],
+    rows: rawRows.slice(headerRow + 1) as string[][]
+  }, [rawRows, headerRow]);
+
+  // Treinado só com categorias que ainda existem, para nunca sugerir um id removido
+  const classifier = useMemo(() => {
+    const ids = new Set(categories.map(c => c.id));
+    return trainClassifier(existingTransactions.filter(t => ids.has(t.categoryId)));
+  }, [existingTransactions, categories]);
+
+  // Com um perfil aplicado o mapeamento já vem pronto; a heurística de palavras-chave fica só para arquivos novos
   useEffect(() => {
-    if (parseResult && step === 'mapping') {
+    if (parseResult && step === 'mapping' && !profileId) {
       const headers = parseResult.headers.map(h => String(h).toLowerCase().trim());
       const newMapping = { ...mapping };
 
@@ -51,7 +85,50 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
 
       setMapping(newMapping);
     }
-  }, [parseResult, step]);
+  }, [parseResult, step, profileId]);
+
+  const applyProfile = (profile: ImportProfile) => {
+    setProfileId(profile.id);
+    setProfileName(profile.name);
+    setHeaderRow(profile.headerRow);
+    setMapping(profile.mapping);
+    setDateFormat(profile.dateFormat);
+    setDecimalSeparator(profile.decimalSeparator);
+    setInvertSign(profile.invertSign);
+    if (profile.accountId && accounts.some(a => a.id === profile.accountId)) setAccountId(profile.accountId);
+  };
+
+  const loadRows = (rows: any[][]) => {
+    setRawRows(rows);
+    const profile = findProfile(rows, importProfiles);
+    if (profile) applyProfile(profile);
+    setStep('mapping');
+  };
+
+  const handleSaveProfile = () => {
+    if (!parseResult || !profileName.trim()) return;
+    const profile: ImportProfile = {
+      ...importProfiles.find(p => p.id === profileId),
+      id: profileId || `prof-${Date.now()}`,
+      name: profileName.trim(),
+      headerSignature: headerSignature(parseResult.headers),
+      headerRow,
+      mapping,
+      dateFormat,
+      decimalSeparator,
+      invertSign,
+      accountId
+    };
+    onSaveProfile(profile);
+    setProfileId(profile.id);
+  };
+
+  const handleDeleteProfile = () => {
+    if (!profileId) return;
+    onDeleteProfile(profileId);
+    setProfileId(null);
+    setProfileName('');
+  };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -67,8 +144,7 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
             setError('Arquivo vazio ou com formato inválido.');
             return;
           }
-          setParseResult({ headers: rows[0], rows: rows.slice(1) }); 
-          setStep('mapping');
+          loadRows(rows);
         },
         error: (err) => setError(err.message)
       });
@@ -85,15 +161,35 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
             setError('Arquivo Excel vazio ou com formato inválido.');
             return;
           }
-          setParseResult({ headers: data[0] as string[], rows: data.slice(1) as string[][] });
-          setStep('mapping');
+          loadRows(data);
         } catch (err) {
           setError('Erro ao ler arquivo Excel.');
         }
       };
       reader.readAsBinaryString(file);
+    } else if (/\.(ofx|qif)$/i.test(file.name)) {
+      // OFX e QIF já trazem data, valor e descrição: dispensam o mapeamento de colunas
+      const reader = new FileReader();
+      reader.onload = (evt) => {
+        try {
+          const text = decodeStatementFile(evt.target?.result as ArrayBuffer);
+          const parsed = /\.ofx$/i.test(file.name) ? parseOFX(text) : parseQIF(text);
+          if (parsed.entries.length === 0) {
+            setError('Nenhum lançamento encontrado no arquivo.');
+            return;
+          }
+          const linked = parsed.accountRef && accounts.find(a => a.externalId === parsed.accountRef);
+          if (linked) setAccountId(linked.id);
+          setStatement(parsed);
+          setError(null);
+          setStep('mapping');
+        } catch (err) {
+          setError('Erro ao ler arquivo de extrato.');
+        }
+      };
+      reader.readAsArrayBuffer(file);
     } else {
-      setError('Formato de arquivo não suportado. Use CSV ou XLSX.');
+      setError('Formato de arquivo não suportado. Use CSV, XLSX, OFX ou QIF.');
     }
   };
 
@@ -144,6 +240,10 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
       if (fixedKeywords.some(k => key.includes(k))) {
         newDetected.add(key);
       }
+
+      // Uma regra com "recorrente" definido prevalece sobre a heurística
+      if (t.isRecurring === true) newDetected.add(key);
+      if (t.isRecurring === false) newDetected.delete(key);
     });
 
     setDetectedRecurrences(newDetected);
@@ -151,57 +251,41 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
 
   const generateAISuggestions = async (transactions: Transaction[]) => {
     detectRecurrences(transactions);
-    
+    setTempTransactions(transactions);
+
+    // O histórico resolve o que já foi categorizado antes; só o que sobra com baixa confiança vai para a IA
+    const found: Record<string, CategorySuggestion> = {};
+    const leftovers: string[] = [];
     const unassignedItems = transactions.filter(t => t.categoryId === 'cat-unassigned');
-    if (unassignedItems.length === 0) {
-      setTempTransactions(transactions.map(t => ({
-        ...t,
-        isRecurring: detectedRecurrences.has(t.description.toLowerCase().trim())
-      })));
+    new Map(unassignedItems.map(t => [t.description, t.type])).forEach((type, description) => {
+      const local = classify(classifier, description, type);
+      if (local && (local.confidence ?? 0) >= CONFIDENCE_THRESHOLD) found[description] = local;
+      else leftovers.push(description);
+    });
+
+    if (leftovers.length === 0) {
+      setSuggestions(found);
       setStep('ai-review');
+      setIsProcessing(false);
       return;
     }
 
     setIsProcessing(true);
-    try {
-      const uniqueDescriptions = Array.from(new Set(unassignedItems.map(t => t.description))).slice(0, 50);
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const availableCategories = categories
-        .filter(c => c.id !== 'cat-unassigned')
-        .map(c => `${c.name} (id: ${c.id})`)
-        .join(', ');
-
-      const prompt = `Classifique estas transações bancárias. Use apenas os IDs fornecidos.
-      Categorias Disponíveis: ${availableCategories}.
-      Entradas: ${uniqueDescriptions.join(', ')}.
-      Retorne APENAS um objeto JSON plano onde a chave é a descrição e o valor é o id da categoria: {"DESC": "ID_CAT"}. Se não souber, ignore a chave.`;
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: { responseMimeType: 'application/json' }
-      });
-
-      // Fix: response.text is a getter property. Handle potential undefined/unknown types.
-      const rawText = response.text || '{}';
-      const suggestions = JSON.parse(rawText);
-      setAiSuggestions(suggestions);
-      setTempTransactions(transactions);
-      setStep('ai-review');
-    } catch (err) {
-      console.error(err);
-      setTempTransactions(transactions);
-      setStep('ai-review');
-    } finally {
-      setIsProcessing(false);
-    }
+    const aiResult = await onSuggestCategories(leftovers);
+    setAiTruncated(aiResult.truncated);
+    Object.entries(aiResult.suggestions).forEach(([description, categoryId]) => {
+      if (leftovers.includes(description)) found[description] = { categoryId, source: 'ai' };
+    });
+    setSuggestions(found);
+    setStep('ai-review');
+    setIsProcessing(false);
   };
 
   const processMapping = async () => {
     if (!parseResult) return;
     setIsProcessing(true);
     
-    const results: Transaction[] = [];
+    const results: Omit<Transaction, 'id'>[] = [];
     const rows = parseResult.rows;
     
     for (let i = 0; i < rows.length; i++) {
@@ -217,14 +301,14 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
       if (typeof valueRaw === 'number') {
         value = valueRaw;
       } else {
-        const cleanVal = String(valueRaw).replace(/[^\d.,-]/g, '').replace(',', '.');
-        value = parseFloat(cleanVal);
+        value = parseDecimal(String(valueRaw), decimalSeparator);
         const valUpper = String(valueRaw).toUpperCase();
         if (valUpper.includes('D')) value = -Math.abs(value);
         if (valUpper.includes('C')) value = Math.abs(value);
       }
+      if (invertSign) value = -value;
 
-      const finalDate = parseFlexibleDate(dateRaw);
+      const finalDate = parseDateWithFormat(dateRaw, dateFormat) || parseFlexibleDate(dateRaw);
       let finalCatId = 'cat-unassigned';
       if (catRaw) {
         // Fix for Error line 356: Property 'toLowerCase' does not exist on type 'unknown'.
@@ -235,18 +319,87 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
       }
 
       results.push({
-        id: `import-${Date.now()}-${i}`,
         date: finalDate,
         description: String(descRaw).trim(),
         amount: value,
         type: value >= 0 ? 'income' : 'expense',
-        categoryId: finalCatId
+        categoryId: finalCatId,
+        accountId
       });
     }
 
-    // Fix for Error line 375: Argument of type 'unknown' is not assignable to parameter of type 'string'.
-    // Ensure results is treated as Transaction[] before passing to generateAISuggestions.
-    await generateAISuggestions(results);
+    // Regras rodam depois do id de conteúdo, para que renomear não mude o id na reimportação
+    await reviewDuplicates(assignContentIds(results).map(t => applyRules(t, rules)));
+  };
+
+  const processStatement = async () => {
+    if (!statement) return;
+    setIsProcessing(true);
+
+    // O id derivado do FITID faz a reimportação do mesmo extrato não duplicar lançamentos
+    const results = assignContentIds(statement.entries.map(entry => {
+      const matchedCat = entry.category && categories.find(c => c.name.toLowerCase() === entry.category!.toLowerCase());
+      return {
+        id: entry.fitId ? `ofx-${accountId}-${entry.fitId}` : undefined,
+        date: entry.date,
+        description: entry.description,
+        amount: entry.amount,
+        type: entry.amount >= 0 ? 'income' as const : 'expense' as const,
+        categoryId: matchedCat ? matchedCat.id : 'cat-unassigned',
+        accountId
+      };
+    }));
+
+    // Lembra a conta do banco para pré-selecionar a conta certa nas próximas importações
+    const account = accounts.find(a => a.id === accountId);
+    if (statement.accountRef && account && account.externalId !== statement.accountRef) {
+      onLinkAccount({ ...account, externalId: statement.accountRef });
+    }
+
+    await reviewDuplicates(results.map(t => applyRules(t, rules)));
+  };
+
+  // Ids iguais são certamente o mesmo lançamento e saem direto; parecidos vão para revisão
+  const reviewDuplicates = async (results: Transaction[]) => {
+    const existingIds = new Set(existingTransactions.map(t => t.id));
+    const fresh = results.filter(t => !existingIds.has(t.id));
+    setSkippedCount(results.length - fresh.length);
+
+    if (fresh.length === 0) {
+      setError('Todos os lançamentos deste arquivo já foram importados.');
+      setIsProcessing(false);
+      return;
+    }
+
+    const matches = findDuplicates(fresh, existingTransactions);
+    if (matches.length === 0) {
+      await generateAISuggestions(fresh);
+      return;
+    }
+
+    setCandidates(fresh);
+    setDuplicates(matches);
+    setSkipIds(new Set(matches.map(m => m.transaction.id)));
+    setStep('duplicates');
+    setIsProcessing(false);
+  };
+
+  const toggleSkip = (id: string) => {
+    const next = new Set(skipIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSkipIds(next);
+  };
+
+  const confirmDuplicates = async () => {
+    const kept = candidates.filter(t => !skipIds.has(t.id));
+    if (kept.length === 0) {
+      setError('Nenhum lançamento novo para importar.');
+      return;
+    }
+    setError(null);
+    setIsProcessing(true);
+    await generateAISuggestions(kept);
   };
 
   const toggleRecurrence = (desc: string) => {
@@ -261,8 +414,8 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
     const final = tempTransactions.map(t => {
       const key = t.description.toLowerCase().trim();
       let catId = t.categoryId;
-      if (catId === 'cat-unassigned' && aiSuggestions[t.description]) {
-        catId = aiSuggestions[t.description];
+      if (catId === 'cat-unassigned' && suggestions[t.description]) {
+        catId = suggestions[t.description].categoryId;
       }
       return { 
         ...t, 
@@ -278,6 +431,24 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
 
   const groupedByDesc = Array.from(new Set(tempTransactions.map(t => t.description)));
 
+  const accountSelect = (
+    <div className="space-y-2.5">
+      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center justify-between px-1">
+        Conta de Destino
+        <span className="text-rose-500 text-[8px] font-black">Mandatório</span>
+      </label>
+      <select
+        className="w-full bg-white border-2 rounded-2xl px-4 py-3.5 text-sm font-medium focus:outline-none focus:ring-4 focus:ring-blue-500/10 border-blue-100"
+        value={accountId}
+        onChange={(e) => setAccountId(e.target.value)}
+      >
+        {accounts.map(acc => (
+          <option key={acc.id} value={acc.id}>{acc.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-md">
       <div className="bg-white w-full max-w-2xl rounded-3xl shadow-2xl flex flex-col max-h-[90vh] border border-slate-200 overflow-hidden">
@@ -297,6 +468,12 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
         </div>
 
         <div className="p-8 flex-1 overflow-y-auto bg-slate-50/30">
+          {error && (
+            <div className="mb-6 flex items-center gap-2 text-xs font-bold text-rose-600 bg-rose-50 px-4 py-3 rounded-2xl">
+              <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+            </div>
+          )}
+
           {step === 'upload' && (
             <div className="space-y-6 animate-in fade-in zoom-in-95 duration-300">
               <div 
@@ -308,16 +485,87 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
                 </div>
                 <div className="text-center space-y-2">
                   <p className="text-xl font-bold text-slate-800">Selecione seu extrato</p>
-                  <p className="text-sm text-slate-500">CSV ou XLSX de qualquer banco nacional</p>
+                  <p className="text-sm text-slate-500">CSV, XLSX, OFX ou QIF de qualquer banco nacional</p>
+                </div>
+                <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".csv,.xlsx,.xls,.ofx,.qif" className="hidden" />
+              </div>
+            </div>
+          )}
+
+          {step === 'mapping' && statement && (
+            <div className="space-y-8 animate-in fade-in slide-in-from-right-8 duration-500">
+              <div className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm flex items-center justify-between">
+                <div>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Extrato {statement.format.toUpperCase()}</p>
+                  <p className="text-lg font-bold text-slate-800 mt-1">{statement.entries.length} lançamentos</p>
+                  <p className="text-xs text-slate-500 font-medium">
+                    {format(parseISO(statement.entries.reduce((min, e) => e.date < min ? e.date : min, statement.entries[0].date)), 'dd/MM/yyyy')}
+                    {' até '}
+                    {format(parseISO(statement.entries.reduce((max, e) => e.date > max ? e.date : max, statement.entries[0].date)), 'dd/MM/yyyy')}
+                  </p>
                 </div>
-                <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".csv,.xlsx,.xls" className="hidden" />
+                {statement.accountRef && (
+                  <div className="text-right">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Conta no Banco</p>
+                    <p className="text-sm font-black text-slate-700 mt-1">{statement.accountRef}</p>
+                  </div>
+                )}
               </div>
+              {accountSelect}
             </div>
           )}
 
           {step === 'mapping' && parseResult && (
             <div className="space-y-8 animate-in fade-in slide-in-from-right-8 duration-500">
-               <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-6">
+              <div className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm space-y-4">
+                <div className="flex items-center justify-between">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest px-1">Perfil de Importação</label>
+                  {profileId && (
+                    <span className="text-[9px] font-black text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full uppercase tracking-widest">Perfil aplicado</span>
+                  )}
+                </div>
+                <select
+                  className="w-full bg-slate-50 border border-slate-100 rounded-2xl px-4 py-3 text-sm font-medium focus:outline-none focus:ring-4 focus:ring-blue-500/10"
+                  value={profileId || ''}
+                  onChange={(e) => {
+                    const profile = importProfiles.find(p => p.id === e.target.value);
+                    if (profile) applyProfile(profile);
+                    else {
+                      setProfileId(null);
+                      setProfileName('');
+                    }
+                  }}
+                >
+                  <option value="">Nenhum (detectar colunas automaticamente)</option>
+                  {importProfiles.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="Nome do perfil (ex: Nubank Conta)"
+                    className="flex-1 bg-slate-50 border border-slate-100 rounded-2xl px-4 py-3 text-sm font-medium focus:outline-none focus:ring-4 focus:ring-blue-500/10"
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                  />
+                  <button
+                    onClick={handleSaveProfile}
+                    disabled={!profileName.trim()}
+                    className="px-4 bg-slate-900 text-white rounded-2xl text-xs font-bold flex items-center gap-2 hover:bg-slate-800 transition-all disabled:opacity-50"
+                    title={profileId ? 'Atualizar perfil' : 'Salvar perfil'}
+                  >
+                    <Save className="w-4 h-4" /> {profileId ? 'Atualizar' : 'Salvar'}
+                  </button>
+                  {profileId && (
+                    <button onClick={handleDeleteProfile} className="px-3 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-2xl transition-all" title="Excluir perfil">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-6">
                 {[
                   { key: 'dateCol', label: 'Coluna de Data', required: true },
                   { key: 'descriptionCol', label: 'Coluna de Descrição', required: true },
@@ -342,6 +590,110 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
                   </div>
                 ))}
               </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-6 pt-6 border-t border-slate-100">
+                <div className="space-y-2.5">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest px-1">Linhas Antes do Cabeçalho</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={Math.max(0, (rawRows?.length || 1) - 2)}
+                    className="w-full bg-white border-2 rounded-2xl px-4 py-3 text-sm font-medium focus:outline-none focus:ring-4 focus:ring-blue-500/10 border-blue-100"
+                    value={headerRow}
+                    onChange={(e) => {
+                      setHeaderRow(Math.max(0, parseInt(e.target.value) || 0));
+                      setMapping(EMPTY_MAPPING);
+                    }}
+                  />
+                </div>
+                <div className="space-y-2.5">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest px-1">Formato de Data</label>
+                  <select
+                    className="w-full bg-white border-2 rounded-2xl px-4 py-3.5 text-sm font-medium focus:outline-none focus:ring-4 focus:ring-blue-500/10 border-blue-100"
+                    value={dateFormat}
+                    onChange={(e) => setDateFormat(e.target.value as ImportDateFormat)}
+                  >
+                    <option value="auto">Detectar automaticamente</option>
+                    <option value="dd/MM/yyyy">DD/MM/AAAA</option>
+                    <option value="MM/dd/yyyy">MM/DD/AAAA</option>
+                    <option value="yyyy-MM-dd">AAAA-MM-DD</option>
+                  </select>
+                </div>
+                <div className="space-y-2.5">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest px-1">Separador Decimal</label>
+                  <select
+                    className="w-full bg-white border-2 rounded-2xl px-4 py-3.5 text-sm font-medium focus:outline-none focus:ring-4 focus:ring-blue-500/10 border-blue-100"
+                    value={decimalSeparator}
+                    onChange={(e) => setDecimalSeparator(e.target.value as ImportProfile['decimalSeparator'])}
+                  >
+                    <option value="auto">Detectar automaticamente</option>
+                    <option value=",">Vírgula (1.234,56)</option>
+                    <option value=".">Ponto (1,234.56)</option>
+                  </select>
+                </div>
+                <div className="space-y-2.5">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest px-1">Sinal dos Valores</label>
+                  <select
+                    className="w-full bg-white border-2 rounded-2xl px-4 py-3.5 text-sm font-medium focus:outline-none focus:ring-4 focus:ring-blue-500/10 border-blue-100"
+                    value={invertSign ? 'inverted' : 'signed'}
+                    onChange={(e) => setInvertSign(e.target.value === 'inverted')}
+                  >
+                    <option value="signed">Negativo é despesa</option>
+                    <option value="inverted">Positivo é despesa (faturas de cartão)</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="pt-6 border-t border-slate-100">
+                {accountSelect}
+              </div>
+            </div>
+          )}
+
+          {step === 'duplicates' && (
+            <div className="space-y-6 animate-in fade-in slide-in-from-right-8 duration-500">
+              <div className="bg-amber-500 text-white p-6 rounded-[2rem] shadow-xl shadow-amber-200 relative overflow-hidden">
+                <Copy className="absolute -right-4 -top-4 w-24 h-24 opacity-20 rotate-12" />
+                <h3 className="text-lg font-bold flex items-center gap-2">
+                  <AlertCircle className="w-6 h-6" />
+                  Possíveis Duplicados
+                </h3>
+                <p className="text-sm opacity-90 mt-1">
+                  {duplicates.length} lançamentos parecem já existir. Por padrão eles serão pulados.
+                </p>
+              </div>
+
+              <div className="bg-white rounded-[2rem] border border-slate-200 overflow-hidden shadow-sm">
+                <div className="max-h-[25rem] overflow-y-auto divide-y divide-slate-100">
+                  {duplicates.map(({ transaction, match }) => {
+                    const skip = skipIds.has(transaction.id);
+                    return (
+                      <div key={transaction.id} className="p-4 flex items-center justify-between bg-white hover:bg-slate-50 transition-colors">
+                        <div className="flex-1 min-w-0 pr-4 space-y-1">
+                          <p className="text-xs font-bold text-slate-800 truncate">
+                            {format(parseISO(transaction.date), 'dd/MM')} · {transaction.description}
+                          </p>
+                          <p className="text-[10px] text-slate-400 font-bold truncate">
+                            Existente: {format(parseISO(match.date), 'dd/MM')} · {match.description}
+                          </p>
+                          <p className={`text-[10px] font-black ${transaction.amount >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                            {transaction.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => toggleSkip(transaction.id)}
+                          className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl border-2 transition-all shrink-0 ${skip ? 'bg-white border-slate-100 text-slate-400' : 'bg-blue-50 border-blue-200 text-blue-600 shadow-sm'}`}
+                        >
+                          {skip ? <X className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+                          <span className="text-[10px] font-black uppercase tracking-tighter">
+                            {skip ? 'Pular' : 'Importar'}
+                          </span>
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
             </div>
           )}
 
@@ -354,6 +706,12 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
                   Revisão de Classificação e Tipo
                 </h3>
                 <p className="text-sm opacity-90 mt-1">Defina o que é custo fixo e confira as categorias sugeridas.</p>
+                {skippedCount > 0 && (
+                  <p className="text-xs font-bold opacity-80 mt-2">{skippedCount} lançamentos já importados anteriormente foram ignorados.</p>
+                )}
+                {aiTruncated > 0 && (
+                  <p className="text-xs font-bold opacity-80 mt-2">{aiTruncated} descrições passaram do limite da IA por importação e ficaram sem sugestão.</p>
+                )}
               </div>
 
               <div className="bg-white rounded-[2rem] border border-slate-200 overflow-hidden shadow-sm">
@@ -362,7 +720,8 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
                     const key = desc.toLowerCase().trim();
                     const isRec = detectedRecurrences.has(key);
                     const catId = tempTransactions.find(t => t.description === desc)?.categoryId || 'cat-unassigned';
-                    const suggestedCatId = aiSuggestions[desc] || catId;
+                    const suggestion = suggestions[desc];
+                    const suggestedCatId = suggestion?.categoryId || catId;
                     const cat = categories.find(c => c.id === suggestedCatId);
                     
                     return (
@@ -373,7 +732,13 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
                             <span className="text-[9px] font-black px-2 py-0.5 rounded-full text-white" style={{ backgroundColor: cat?.color || '#94a3b8' }}>
                               {cat?.name}
                             </span>
-                            {aiSuggestions[desc] && <Sparkles className="w-3 h-3 text-blue-500" />}
+                            {suggestion?.source === 'ai' && <Sparkles className="w-3 h-3 text-blue-500" />}
+                            {suggestion?.source === 'history' && (
+                              <span className="flex items-center gap-1 text-[9px] font-black text-emerald-600" title="Sugerido pelo seu histórico">
+                                <History className="w-3 h-3" />
+                                {Math.round((suggestion.confidence ?? 0) * 100)}%
+                              </span>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-3 shrink-0">
@@ -399,7 +764,7 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
         <div className="p-6 border-t border-slate-100 flex items-center justify-between bg-white">
           <div className="flex flex-col">
             <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
-              {step === 'upload' ? 'Passo 1: Envio' : step === 'mapping' ? 'Passo 2: Configuração' : 'Passo 3: Revisão Final'}
+              {step === 'upload' ? 'Passo 1: Envio' : step === 'mapping' ? 'Passo 2: Configuração' : step === 'duplicates' ? 'Passo 3: Duplicados' : 'Passo 3: Revisão Final'}
             </p>
             {isProcessing && (
               <div className="mt-1 flex items-center gap-2">
@@ -414,13 +779,22 @@ const ImportWizard: React.FC<ImportWizardProps> = ({ onClose, onImport, categori
             </button>
             {step === 'mapping' && (
               <button
-                disabled={!isMappingValid || isProcessing}
-                onClick={processMapping}
+                disabled={(!statement && !isMappingValid) || isProcessing}
+                onClick={statement ? processStatement : processMapping}
                 className="px-10 py-3.5 bg-blue-600 hover:bg-blue-700 text-white rounded-2xl text-xs font-black shadow-xl shadow-blue-200 transition-all disabled:opacity-50"
               >
                 Analisar Padrões
               </button>
             )}
+            {step === 'duplicates' && (
+              <button
+                disabled={isProcessing}
+                onClick={confirmDuplicates}
+                className="px-10 py-3.5 bg-blue-600 hover:bg-blue-700 text-white rounded-2xl text-xs font-black shadow-xl shadow-blue-200 transition-all disabled:opacity-50"
+              >
+                Continuar com {candidates.length - skipIds.size} Lançamentos
+              </button>
+            )}
             {step === 'ai-review' && (
               <button
                 onClick={applySuggestions}
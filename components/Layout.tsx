@@ -1,22 +1,29 @@
 import React from 'react';
-import { LayoutDashboard, ReceiptText, Tags, Target, Menu, X, User as UserIcon } from 'lucide-react';
-import { User } from '../types';
+import { LayoutDashboard, ReceiptText, Tags, Target, Menu, X, User as UserIcon, Landmark, LogOut, Users, Wand2, LineChart } from 'lucide-react';
+import { Household, User } from '../types';
+import { HOUSEHOLD_ROLE_LABELS } from '../constants';
 
 interface LayoutProps {
   children: React.ReactNode;
-  activeView: 'dashboard' | 'transactions' | 'categories' | 'planning';
-  setActiveView: (view: 'dashboard' | 'transactions' | 'categories' | 'planning') => void;
+  activeView: 'dashboard' | 'transactions' | 'categories' | 'planning' | 'forecast' | 'accounts' | 'households' | 'rules';
+  setActiveView: (view: 'dashboard' | 'transactions' | 'categories' | 'planning' | 'forecast' | 'accounts' | 'households' | 'rules') => void;
   user: User;
+  onLogout: () => void;
+  household: Household | null;
 }
 
-const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveView, user }) => {
+const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveView, user, onLogout, household }) => {
   const [isSidebarOpen, setIsSidebarOpen] = React.useState(false);
 
   const menuItems = [
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { id: 'transactions', label: 'Transações', icon: ReceiptText },
     { id: 'planning', label: 'Planejamento', icon: Target },
+    { id: 'forecast', label: 'Projeção', icon: LineChart },
+    { id: 'accounts', label: 'Contas', icon: Landmark },
     { id: 'categories', label: 'Categorias', icon: Tags },
+    { id: 'rules', label: 'Regras', icon: Wand2 },
+    { id: 'households', label: 'Lar', icon: Users },
   ] as const;
 
   return (
@@ -72,11 +79,25 @@ const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveView, us
               <p className="text-xs font-black text-slate-900 truncate">{user.name}</p>
               <p className="text-[10px] text-slate-400 truncate">{user.email}</p>
             </div>
+            <button onClick={onLogout} title="Sair" className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all">
+              <LogOut className="w-4 h-4" />
+            </button>
           </div>
           
           <div className="p-4 bg-slate-900 rounded-2xl text-white">
-            <p className="text-[10px] opacity-70 uppercase font-bold tracking-widest">Acesso Privado</p>
-            <p className="text-[9px] mt-1 leading-tight opacity-50">Sistema configurado para uso pessoal.</p>
+            {household ? (
+              <>
+                <p className="text-[10px] opacity-70 uppercase font-bold tracking-widest truncate">{household.name}</p>
+                <p className="text-[9px] mt-1 leading-tight opacity-50">
+                  {household.role === 'viewer' ? 'Acesso somente leitura.' : `Acesso como ${HOUSEHOLD_ROLE_LABELS[household.role]}.`}
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="text-[10px] opacity-70 uppercase font-bold tracking-widest">Acesso Privado</p>
+                <p className="text-[9px] mt-1 leading-tight opacity-50">Sistema configurado para uso pessoal.</p>
+              </>
+            )}
           </div>
         </div>
       </aside>
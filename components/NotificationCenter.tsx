@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { AlertSettings, BudgetNotification, Category } from '../types';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Bell, CheckCheck, Settings2, TrendingUp, AlertTriangle, X } from 'lucide-react';
+
+interface NotificationCenterProps {
+  notifications: BudgetNotification[];
+  settings: AlertSettings | null;
+  unreadCount: number;
+  error: string | null;
+  categories: Category[];
+  isReadOnly?: boolean;
+  onMarkRead: (ids?: number[]) => void;
+  onSaveSettings: (settings: AlertSettings) => Promise<boolean>;
+}
+
+const NotificationCenter: React.FC<NotificationCenterProps> = ({
+  notifications, settings, unreadCount, error, categories, isReadOnly, onMarkRead, onSaveSettings
+}) => {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [thresholds, setThresholds] = useState('');
+  const [pace, setPace] = useState(true);
+  const [email, setEmail] = useState(false);
+  const [webhookUrl, setWebhookUrl] = useState('');
+
+  useEffect(() => {
+    if (!settings) return;
+    setThresholds(settings.thresholds.join(', '));
+    setPace(settings.pace);
+    setEmail(settings.email);
+    setWebhookUrl(settings.webhookUrl || '');
+  }, [settings, editing]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = thresholds.split(/[,;\s]+/).map(Number).filter(n => Number.isInteger(n) && n > 0);
+    if (await onSaveSettings({ thresholds: parsed, pace, email, webhookUrl: webhookUrl.trim() || null })) {
+      setEditing(false);
+    }
+  };
+
+  const colorOf = (categoryId: string) => categories.find(c => c.id === categoryId)?.color || '#94a3b8';
+
+  return (
+    <div className="fixed top-20 md:top-6 right-6 z-40 flex flex-col items-end">
+      <button
+        onClick={() => setOpen(!open)}
+        title="Alertas de orçamento"
+        className="relative p-3 bg-white border border-slate-200 rounded-2xl shadow-lg text-slate-600 hover:text-blue-600 transition-all"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-[20px] h-5 px-1 bg-rose-600 text-white text-[10px] font-black rounded-full flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="mt-2 w-80 bg-white border border-slate-200 rounded-2xl shadow-xl overflow-hidden">
+          <div className="px-4 py-3 flex items-center justify-between border-b border-slate-100">
+            <span className="text-xs font-black text-slate-800">Alertas de orçamento</span>
+            <div className="flex items-center gap-1">
+              {unreadCount > 0 && (
+                <button onClick={() => onMarkRead()} title="Marcar todos como lidos" className="p-1.5 text-slate-400 hover:text-blue-600 rounded-lg">
+                  <CheckCheck className="w-4 h-4" />
+                </button>
+              )}
+              {!isReadOnly && (
+                <button onClick={() => setEditing(!editing)} title="Preferências" className={`p-1.5 rounded-lg ${editing ? 'text-blue-600 bg-blue-50' : 'text-slate-400 hover:text-blue-600'}`}>
+                  <Settings2 className="w-4 h-4" />
+                </button>
+              )}
+              <button onClick={() => setOpen(false)} className="p-1.5 text-slate-400 hover:text-slate-600 rounded-lg">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <p className="px-4 py-2 flex items-center gap-2 text-[10px] font-bold text-rose-600 bg-rose-50">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0" /> {error}
+            </p>
+          )}
+
+          {editing ? (
+            <form onSubmit={handleSave} className="p-4 space-y-3">
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider">Avisar ao atingir (% do orçamento)</label>
+                <input
+                  value={thresholds}
+                  onChange={(e) => setThresholds(e.target.value)}
+                  placeholder="80, 100"
+                  className="mt-1 w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+                <input type="checkbox" checked={pace} onChange={(e) => setPace(e.target.checked)} />
+                Avisar quando o ritmo de gastos indicar estouro no mês
+              </label>
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+                <input type="checkbox" checked={email} onChange={(e) => setEmail(e.target.checked)} />
+                Enviar também por email aos membros do lar
+              </label>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider">Webhook (opcional)</label>
+                <input
+                  type="url"
+                  value={webhookUrl}
+                  onChange={(e) => setWebhookUrl(e.target.value)}
+                  placeholder="https://..."
+                  className="mt-1 w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <button type="submit" className="w-full py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-xs font-bold transition-all">
+                Salvar preferências
+              </button>
+            </form>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-xs font-bold italic text-slate-400">Nenhum alerta por enquanto.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto divide-y divide-slate-100">
+              {notifications.map(n => (
+                <button
+                  key={n.id}
+                  onClick={() => !n.readAt && onMarkRead([n.id])}
+                  className={`w-full text-left px-4 py-3 flex items-start gap-3 transition-all ${n.readAt ? '' : 'bg-blue-50/50 hover:bg-blue-50'}`}
+                >
+                  <span className="mt-0.5 shrink-0" style={{ color: colorOf(n.categoryId) }}>
+                    {n.kind === 'pace' ? <TrendingUp className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+                  </span>
+                  <span className="flex-1 min-w-0">
+                    <span className={`block text-xs leading-snug ${n.readAt ? 'text-slate-500' : 'font-bold text-slate-800'}`}>{n.message}</span>
+                    <span className="block text-[9px] text-slate-400 font-bold mt-1">
+                      {format(parseISO(n.createdAt), "dd/MM 'às' HH:mm", { locale: ptBR })}
+                    </span>
+                  </span>
+                  {!n.readAt && <span className="mt-1.5 w-2 h-2 rounded-full bg-blue-600 shrink-0" />}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationCenter;
@@ -1,16 +1,24 @@
 
 import React, { useMemo, useState } from 'react';
-import { Transaction, Category, Budget, RecurringTransaction, TransactionType } from '../types';
-import { Target, AlertCircle, CheckCircle2, TrendingUp, Zap, Plus, Trash2, Repeat, CalendarCheck, Lightbulb, Calendar, Edit3, X, HelpCircle, History, Copy } from 'lucide-react';
-import { startOfMonth, endOfMonth, isWithinInterval, parseISO, format, subMonths } from 'date-fns';
+import { Transaction, Category, Budget, RecurringTransaction, TransactionType, Account, RecurrenceFrequency, BusinessDayAdjustment } from '../types';
+import { DEFAULT_ACCOUNT_ID, STORAGE_KEYS } from '../constants';
+import { Target, AlertCircle, CheckCircle2, TrendingUp, Zap, Plus, Trash2, Repeat, CalendarCheck, Lightbulb, Calendar, Edit3, X, HelpCircle, History, Copy, ChevronLeft, ChevronRight, RefreshCw, Mail, Wallet } from 'lucide-react';
+import { startOfMonth, endOfMonth, isWithinInterval, parseISO, format, subMonths, addMonths, parse } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { sumByCategory } from '../utils/splits';
+import { effectiveBudget, isRoot, optionLabel, rollUp, sortAsTree } from '../utils/categories';
+import { WEEKDAY_LABELS, describeRecurrence } from '../utils/recurrence';
+import { BUDGET_BASE_MONTH, budgetAt, budgetsForMonth, category12MonthAverage, monthKey, monthlySpending, rolloverCarry, toBeBudgeted } from '../utils/budgets';
 
 interface PlanningViewProps {
   transactions: Transaction[];
   categories: Category[];
   budgets: Budget[];
   recurring: RecurringTransaction[];
-  onUpdateBudget: (categoryId: string, amount: number) => void;
+  accounts: Account[];
+  onUpdateBudget: (categoryId: string, month: string, amount: number) => void;
+  onCopyBudgets: (month: string) => void;
+  onUpdateCategory: (id: string, updates: Partial<Category>) => void;
   onAddRecurring: (item: RecurringTransaction) => void;
   onRemoveRecurring: (id: string) => void;
   onUpdateRecurring: (id: string, updates: Partial<RecurringTransaction>, impactPast: boolean) => void;
@@ -18,8 +26,8 @@ interface PlanningViewProps {
 }
 
 const PlanningView: React.FC<PlanningViewProps> = ({ 
-  transactions, categories, budgets, recurring, 
-  onUpdateBudget, onAddRecurring, onRemoveRecurring, onUpdateRecurring, onCommitRecurring 
+  transactions, categories, budgets, recurring, accounts,
+  onUpdateBudget, onCopyBudgets, onUpdateCategory, onAddRecurring, onRemoveRecurring, onUpdateRecurring, onCommitRecurring 
 }) => {
   const [showRecurringForm, setShowRecurringForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -30,8 +38,14 @@ const PlanningView: React.FC<PlanningViewProps> = ({
     description: '',
     amount: '',
     categoryId: 'cat-unassigned',
+    accountId: DEFAULT_ACCOUNT_ID,
     type: 'expense' as TransactionType,
     dayOfMonth: 1,
+    frequency: 'monthly' as RecurrenceFrequency,
+    interval: 1,
+    dayOfWeek: 5,
+    monthOfYear: 1,
+    businessDay: 'none' as BusinessDayAdjustment,
     startDate: '',
     endDate: ''
   });
@@ -48,43 +62,33 @@ const PlanningView: React.FC<PlanningViewProps> = ({
   ];
 
   const now = new Date();
-  
-  const currentMonthTransactions = useMemo(() => {
-    const start = startOfMonth(now);
-    const end = endOfMonth(now);
+  const [budgetMonth, setBudgetMonth] = useState(() => monthKey(now));
+  const budgetMonthDate = parse(budgetMonth, 'yyyy-MM', now);
+  const monthBudgets = useMemo(() => budgetsForMonth(budgets, budgetMonth), [budgets, budgetMonth]);
+  const spendingByMonth = useMemo(() => monthlySpending(transactions, categories), [transactions, categories]);
+
+  // Envelope (orçamento base zero): a receita do mês é distribuída entre as categorias até sobrar zero
+  const [envelopeMode, setEnvelopeMode] = useState(() => localStorage.getItem(STORAGE_KEYS.PLANNING_MODE) === 'envelope');
+  const toggleEnvelopeMode = () => {
+    localStorage.setItem(STORAGE_KEYS.PLANNING_MODE, envelopeMode ? 'classic' : 'envelope');
+    setEnvelopeMode(!envelopeMode);
+  };
+  const monthIncome = useMemo(() => transactions
+    .filter(t => t.type === 'income' && t.date.startsWith(budgetMonth))
+    .reduce((sum, t) => sum + t.amount, 0), [transactions, budgetMonth]);
+  const unassigned = toBeBudgeted(categories, monthBudgets, monthIncome);
+
+  const budgetMonthTransactions = useMemo(() => {
+    const start = startOfMonth(budgetMonthDate);
+    const end = endOfMonth(budgetMonthDate);
     return transactions.filter(t => t.type === 'expense' && isWithinInterval(parseISO(t.date), { start, end }));
-  }, [transactions, now]);
+  }, [transactions, budgetMonth]);
 
-  const categorySpending = useMemo(() => {
-    const map = new Map<string, number>();
-    currentMonthTransactions.forEach(t => {
-      map.set(t.categoryId, (map.get(t.categoryId) || 0) + Math.abs(t.amount));
-    });
-    return map;
-  }, [currentMonthTransactions]);
+  // Principais acumulam o gasto das subcategorias, então o orçamento pode ser definido em qualquer nível
+  const categorySpending = useMemo(() => rollUp(sumByCategory(budgetMonthTransactions), categories), [budgetMonthTransactions, categories]);
 
   // Cálculo da média de gastos dos últimos 12 meses por categoria
-  const category12MonthAverage = useMemo(() => {
-    const twelveMonthsAgo = subMonths(now, 12);
-    const startRange = startOfMonth(twelveMonthsAgo);
-    const endRange = endOfMonth(subMonths(now, 1)); // Média até o mês passado para referência estável
-
-    const relevantTransactions = transactions.filter(t => 
-      t.type === 'expense' && isWithinInterval(parseISO(t.date), { start: startRange, end: endRange })
-    );
-
-    const totals = new Map<string, number>();
-    relevantTransactions.forEach(t => {
-      totals.set(t.categoryId, (totals.get(t.categoryId) || 0) + Math.abs(t.amount));
-    });
-
-    const averages = new Map<string, number>();
-    totals.forEach((val, key) => {
-      averages.set(key, val / 12);
-    });
-
-    return averages;
-  }, [transactions, now]);
+  const monthlyAverages = useMemo(() => category12MonthAverage(transactions, categories, now), [transactions, categories, now]);
 
   const committedRecurringIds = useMemo(() => {
     const start = startOfMonth(now);
@@ -107,14 +111,34 @@ const PlanningView: React.FC<PlanningViewProps> = ({
     setShowRecurringForm(true);
   };
 
+  const recurrenceFields = (item: RecurringTransaction) => ({
+    dayOfMonth: item.dayOfMonth,
+    frequency: item.frequency || 'monthly',
+    interval: item.interval || 1,
+    dayOfWeek: item.dayOfWeek ?? 5,
+    monthOfYear: item.monthOfYear || 1,
+    businessDay: item.businessDay || 'none'
+  });
+
+  // Quinzenal é só um atalho para semanal a cada 2 semanas
+  const frequencyPreset = newRecurring.frequency === 'weekly' && newRecurring.interval === 2 ? 'biweekly' : newRecurring.frequency;
+  const handleFrequencyChange = (value: string) => {
+    setNewRecurring({
+      ...newRecurring,
+      frequency: value === 'biweekly' ? 'weekly' : value as RecurrenceFrequency,
+      interval: value === 'biweekly' ? 2 : 1
+    });
+  };
+
   const handleEditRecurring = (item: RecurringTransaction) => {
     setEditingId(item.id);
     setNewRecurring({
       description: item.description,
       amount: item.amount.toString(),
       categoryId: item.categoryId,
+      accountId: item.accountId || DEFAULT_ACCOUNT_ID,
       type: item.type,
-      dayOfMonth: item.dayOfMonth,
+      ...recurrenceFields(item),
       startDate: item.startDate || '',
       endDate: item.endDate || ''
     });
@@ -128,8 +152,9 @@ const PlanningView: React.FC<PlanningViewProps> = ({
       description: `${item.description} (Cópia)`,
       amount: item.amount.toString(),
       categoryId: item.categoryId,
+      accountId: item.accountId || DEFAULT_ACCOUNT_ID,
       type: item.type,
-      dayOfMonth: item.dayOfMonth,
+      ...recurrenceFields(item),
       startDate: item.startDate || '',
       endDate: item.endDate || ''
     });
@@ -145,8 +170,14 @@ const PlanningView: React.FC<PlanningViewProps> = ({
       description: newRecurring.description,
       amount: parseFloat(newRecurring.amount),
       categoryId: newRecurring.categoryId,
+      accountId: newRecurring.accountId,
       type: newRecurring.type,
       dayOfMonth: newRecurring.dayOfMonth,
+      frequency: newRecurring.frequency,
+      interval: Math.max(1, newRecurring.interval || 1),
+      dayOfWeek: newRecurring.frequency === 'weekly' ? newRecurring.dayOfWeek : undefined,
+      monthOfYear: newRecurring.frequency === 'yearly' ? newRecurring.monthOfYear : undefined,
+      businessDay: newRecurring.businessDay,
       startDate: newRecurring.startDate || undefined,
       endDate: newRecurring.endDate || undefined
     };
@@ -179,8 +210,14 @@ const PlanningView: React.FC<PlanningViewProps> = ({
       description: '', 
       amount: '', 
       categoryId: 'cat-unassigned', 
+      accountId: DEFAULT_ACCOUNT_ID,
       type: 'expense', 
       dayOfMonth: 1,
+      frequency: 'monthly',
+      interval: 1,
+      dayOfWeek: 5,
+      monthOfYear: 1,
+      businessDay: 'none',
       startDate: '',
       endDate: ''
     });
@@ -243,14 +280,17 @@ const PlanningView: React.FC<PlanningViewProps> = ({
                   </div>
                 </div>
                 <div className="space-y-1">
-                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Dia Fixo</label>
-                  <input 
-                    required
-                    type="number" min="1" max="31"
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Frequência</label>
+                  <select 
                     className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
-                    value={newRecurring.dayOfMonth}
-                    onChange={e => setNewRecurring({...newRecurring, dayOfMonth: parseInt(e.target.value)})}
-                  />
+                    value={frequencyPreset}
+                    onChange={e => handleFrequencyChange(e.target.value)}
+                  >
+                    <option value="weekly">Semanal</option>
+                    <option value="biweekly">Quinzenal</option>
+                    <option value="monthly">Mensal</option>
+                    <option value="yearly">Anual</option>
+                  </select>
                 </div>
                 <div className="space-y-1">
                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Categoria</label>
@@ -259,7 +299,7 @@ const PlanningView: React.FC<PlanningViewProps> = ({
                     value={newRecurring.categoryId}
                     onChange={e => setNewRecurring({...newRecurring, categoryId: e.target.value})}
                   >
-                    {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    {sortAsTree(categories).map(c => <option key={c.id} value={c.id}>{optionLabel(categories, c)}</option>)}
                   </select>
                 </div>
                 <div className="space-y-1">
@@ -275,7 +315,85 @@ const PlanningView: React.FC<PlanningViewProps> = ({
                 </div>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="space-y-1">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">
+                    A cada ({newRecurring.frequency === 'weekly' ? 'semanas' : newRecurring.frequency === 'yearly' ? 'anos' : 'meses'})
+                  </label>
+                  <input 
+                    required
+                    type="number" min="1" max="60"
+                    className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                    value={newRecurring.interval}
+                    onChange={e => setNewRecurring({...newRecurring, interval: parseInt(e.target.value)})}
+                  />
+                </div>
+                {newRecurring.frequency === 'weekly' ? (
+                  <div className="space-y-1">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Dia da Semana</label>
+                    <select 
+                      className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all capitalize"
+                      value={newRecurring.dayOfWeek}
+                      onChange={e => setNewRecurring({...newRecurring, dayOfWeek: parseInt(e.target.value)})}
+                    >
+                      {WEEKDAY_LABELS.map((label, i) => <option key={i} value={i}>{label}</option>)}
+                    </select>
+                  </div>
+                ) : (
+                  <div className="space-y-1">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Dia Fixo</label>
+                    <input 
+                      required
+                      type="number" min="1" max="31"
+                      className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                      value={newRecurring.dayOfMonth}
+                      onChange={e => setNewRecurring({...newRecurring, dayOfMonth: parseInt(e.target.value)})}
+                    />
+                  </div>
+                )}
+                {newRecurring.frequency === 'yearly' && (
+                  <div className="space-y-1">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Mês</label>
+                    <select 
+                      className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all capitalize"
+                      value={newRecurring.monthOfYear}
+                      onChange={e => setNewRecurring({...newRecurring, monthOfYear: parseInt(e.target.value)})}
+                    >
+                      {Array.from({ length: 12 }, (_, i) => (
+                        <option key={i} value={i + 1}>{format(new Date(2000, i, 1), 'MMMM', { locale: ptBR })}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Fim de Semana/Feriado</label>
+                  <select 
+                    className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                    value={newRecurring.businessDay}
+                    onChange={e => setNewRecurring({...newRecurring, businessDay: e.target.value as BusinessDayAdjustment})}
+                  >
+                    <option value="none">Manter a data</option>
+                    <option value="previous">Antecipar para dia útil</option>
+                    <option value="next">Adiar para dia útil</option>
+                  </select>
+                </div>
+                <p className="md:col-span-4 text-[10px] font-bold text-slate-400 px-1">
+                  Dia 31 cai no último dia de meses mais curtos; com "Antecipar" vira o último dia útil. Feriados nacionais e bancários.
+                  {newRecurring.frequency === 'weekly' && newRecurring.interval > 1 && ' A contagem das semanas parte da data de início.'}
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Conta</label>
+                  <select 
+                    className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-2.5 text-sm font-bold focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all"
+                    value={newRecurring.accountId}
+                    onChange={e => setNewRecurring({...newRecurring, accountId: e.target.value})}
+                  >
+                    {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                </div>
                 <div className="space-y-1">
                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1 flex items-center gap-1">
                     <Calendar className="w-3 h-3" /> Data Início (Opcional)
@@ -382,7 +500,7 @@ const PlanningView: React.FC<PlanningViewProps> = ({
                       </div>
                       <div>
                         <h4 className="font-bold text-slate-800 text-sm truncate max-w-[120px]">{item.description}</h4>
-                        <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">Todo dia {item.dayOfMonth}</p>
+                        <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{describeRecurrence(item)}</p>
                       </div>
                     </div>
                     <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -424,17 +542,76 @@ const PlanningView: React.FC<PlanningViewProps> = ({
       </section>
 
       <section className="space-y-4">
-        <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
-           <Target className="w-4 h-4" /> Orçamento por Categoria
-        </h3>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+             <Target className="w-4 h-4" /> Orçamento por Categoria
+          </h3>
+          <div className="flex items-center gap-2">
+            <div className="flex items-center bg-white border border-slate-200 rounded-xl">
+              <button onClick={() => setBudgetMonth(monthKey(subMonths(budgetMonthDate, 1)))} className="p-2 text-slate-400 hover:text-slate-900 transition-all">
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="px-2 text-xs font-black text-slate-700 capitalize w-32 text-center">
+                {format(budgetMonthDate, 'MMMM yyyy', { locale: ptBR })}
+              </span>
+              <button onClick={() => setBudgetMonth(monthKey(addMonths(budgetMonthDate, 1)))} className="p-2 text-slate-400 hover:text-slate-900 transition-all">
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+            <button
+              onClick={toggleEnvelopeMode}
+              title="Distribuir a receita do mês entre as categorias até não sobrar nada"
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold transition-all ${envelopeMode ? 'bg-violet-600 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+            >
+              <Mail className="w-3.5 h-3.5" /> Envelopes
+            </button>
+            <button
+              onClick={() => onCopyBudgets(budgetMonth)}
+              title="Usar neste mês os valores em vigor no mês anterior"
+              className="flex items-center gap-1.5 px-3 py-2 bg-slate-900 text-white rounded-xl text-xs font-bold hover:bg-slate-800 transition-all"
+            >
+              <Copy className="w-3.5 h-3.5" /> Copiar do mês anterior
+            </button>
+          </div>
+        </div>
+        {envelopeMode && (
+          <div className={`flex flex-wrap items-center justify-between gap-4 p-6 rounded-[2rem] border ${
+            Math.abs(unassigned) < 0.01 ? 'bg-emerald-50 border-emerald-100' : unassigned > 0 ? 'bg-amber-50 border-amber-100' : 'bg-rose-50 border-rose-100'
+          }`}>
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white rounded-2xl shadow-sm"><Wallet className="w-5 h-5 text-violet-600" /></div>
+              <div>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">A orçar</p>
+                <p className={`text-2xl font-black ${Math.abs(unassigned) < 0.01 ? 'text-emerald-600' : unassigned > 0 ? 'text-amber-600' : 'text-rose-600'}`}>
+                  {formatCurrency(unassigned)}
+                </p>
+              </div>
+            </div>
+            <p className="text-xs font-bold text-slate-500">
+              Receita do mês {formatCurrency(monthIncome)} · distribuído {formatCurrency(monthIncome - unassigned)}
+              {Math.abs(unassigned) < 0.01 ? ' · tudo distribuído' : unassigned > 0 ? ' · distribua o restante' : ' · orçamentos passam da receita'}
+            </p>
+          </div>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {categories.filter(c => !['cat-salario', 'cat-stocks', 'cat-beneficios', 'cat-unassigned'].includes(c.id)).map(cat => {
+          {sortAsTree(categories).filter(c => !['cat-salario', 'cat-stocks', 'cat-beneficios', 'cat-transferencia', 'cat-unassigned'].includes(c.id)).map(cat => {
             const spent = categorySpending.get(cat.id) || 0;
-            const budget = budgets.find(b => b.categoryId === cat.id)?.amount || 0;
-            const average = category12MonthAverage.get(cat.id) || 0;
-            const percentage = budget > 0 ? Math.min((spent / budget) * 100, 100) : 0;
-            const isOver = budget > 0 && spent > budget;
-            const remaining = budget - spent;
+            const inForce = budgetAt(budgets, cat.id, budgetMonth);
+            const budget = inForce?.amount || 0;
+            // Valor vindo de um mês anterior: editar aqui cria um novo valor a partir deste mês
+            const inheritedFrom = budget > 0 && inForce!.month !== budgetMonth ? inForce!.month : null;
+            const isChild = !isRoot(categories, cat);
+            const childrenBudget = isChild ? 0 : effectiveBudget(categories, monthBudgets, cat.id);
+            const average = monthlyAverages.get(cat.id) || 0;
+            // Com rollover, a sobra ou o estouro dos meses anteriores entra na meta deste mês
+            const carry = rolloverCarry(categories, budgets, spendingByMonth, cat, budgetMonth);
+            // Sem meta própria, a principal é comparada com a soma das metas das subcategorias
+            const target = (budget || childrenBudget) + carry;
+            // Subcategoria só entra no total distribuído quando a principal não tem meta própria
+            const countsInEnvelope = !isChild || !monthBudgets.some(b => b.categoryId === cat.parentId);
+            const percentage = target > 0 ? Math.min((spent / target) * 100, 100) : 0;
+            const isOver = target > 0 && spent > target;
+            const remaining = target - spent;
 
             return (
               <div key={cat.id} className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm hover:shadow-xl transition-all duration-300">
@@ -445,10 +622,21 @@ const PlanningView: React.FC<PlanningViewProps> = ({
                     </div>
                     <div>
                       <h3 className="font-bold text-slate-800">{cat.name}</h3>
-                      <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Budget Mensal</p>
+                      <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+                        {isChild ? `Subcategoria de ${categories.find(c => c.id === cat.parentId)?.name}` : 'Budget Mensal'}
+                      </p>
                     </div>
                   </div>
-                  {isOver && <div className="p-2 bg-rose-50 rounded-xl animate-bounce"><AlertCircle className="w-5 h-5 text-rose-500" /></div>}
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => onUpdateCategory(cat.id, { rolloverFrom: cat.rolloverFrom ? undefined : budgetMonth })}
+                      title={cat.rolloverFrom ? 'Rollover ligado: sobra e estouro passam para o mês seguinte' : 'Ligar rollover a partir deste mês'}
+                      className={`p-2 rounded-xl transition-all ${cat.rolloverFrom ? 'bg-violet-50 text-violet-600' : 'text-slate-300 hover:text-violet-600 hover:bg-violet-50'}`}
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                    {isOver && <div className="p-2 bg-rose-50 rounded-xl animate-bounce"><AlertCircle className="w-5 h-5 text-rose-500" /></div>}
+                  </div>
                 </div>
 
                 {/* Info de Média Histórica */}
@@ -464,11 +652,31 @@ const PlanningView: React.FC<PlanningViewProps> = ({
                     <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-xs font-bold">R$</span>
                     <input
                       type="number"
-                      placeholder="Meta de gasto"
+                      placeholder={budget === 0 && childrenBudget > 0 ? `Subcategorias: ${formatCurrency(childrenBudget)}` : 'Meta de gasto'}
                       className="w-full bg-white border border-slate-200 rounded-2xl pl-10 pr-4 py-3 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all shadow-inner"
                       value={budget || ''}
-                      onChange={(e) => onUpdateBudget(cat.id, parseFloat(e.target.value) || 0)}
+                      onChange={(e) => onUpdateBudget(cat.id, budgetMonth, parseFloat(e.target.value) || 0)}
                     />
+                    {carry !== 0 && (
+                      <p className={`mt-1.5 px-1 text-[9px] font-bold uppercase tracking-widest ${carry > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {carry > 0 ? 'Sobra' : 'Estouro'} acumulado: {carry > 0 ? '+' : '-'}{formatCurrency(Math.abs(carry))}
+                      </p>
+                    )}
+                    {envelopeMode && unassigned > 0 && countsInEnvelope && (
+                      <button
+                        onClick={() => onUpdateBudget(cat.id, budgetMonth, (budget || childrenBudget) + unassigned)}
+                        className="mt-1.5 px-1 text-[9px] font-black text-violet-600 uppercase tracking-widest hover:underline"
+                      >
+                        + Atribuir restante ({formatCurrency(unassigned)})
+                      </button>
+                    )}
+                    {inheritedFrom && (
+                      <p className="mt-1.5 px-1 text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+                        {inheritedFrom === BUDGET_BASE_MONTH
+                          ? 'Em vigor desde o início'
+                          : `Em vigor desde ${format(parse(inheritedFrom, 'yyyy-MM', now), 'MM/yyyy')}`}
+                      </p>
+                    )}
                   </div>
 
                   <div className="pt-2 space-y-3">
@@ -479,7 +687,7 @@ const PlanningView: React.FC<PlanningViewProps> = ({
                     <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
                       <div className={`h-full transition-all duration-1000 ${isOver ? 'bg-rose-500' : 'bg-blue-600'}`} style={{ width: `${percentage}%` }} />
                     </div>
-                    {budget > 0 && (
+                    {target > 0 && (
                       <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-400">
                         <span>{remaining >= 0 ? 'Saldo' : 'Excesso'}</span>
                         <span className={remaining >= 0 ? 'text-emerald-600' : 'text-rose-600'}>{formatCurrency(Math.abs(remaining))}</span>
@@ -0,0 +1,422 @@
+import React, { useEffect, useState } from 'react';
+import { Account, Category, CategoryRule, RuleActions, RuleConditions, Transaction } from '../types';
+import { sortRules } from '../utils/rules';
+import { optionLabel, sortAsTree } from '../utils/categories';
+import { Plus, Trash2, Edit3, X, Wand2, ChevronUp, ChevronDown, History, Power } from 'lucide-react';
+
+interface RuleManagerProps {
+  rules: CategoryRule[];
+  categories: Category[];
+  accounts: Account[];
+  draft?: Transaction | null; // Lançamento de origem da ação "criar regra"
+  onDraftConsumed?: () => void;
+  onSave: (rule: CategoryRule) => void;
+  onDelete: (id: string) => void;
+  onApplyToHistory: () => number; // Retorna quantos lançamentos mudaram
+}
+
+const emptyForm = {
+  name: '',
+  descriptionContains: '',
+  descriptionRegex: '',
+  minAmount: '',
+  maxAmount: '',
+  accountId: '',
+  type: '' as '' | 'income' | 'expense',
+  categoryId: '',
+  isRecurring: '' as '' | 'yes' | 'no',
+  renameTo: ''
+};
+
+const inputClass = 'w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-sm font-bold focus:outline-none focus:ring-4 focus:ring-blue-500/10 focus:bg-white transition-all';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest px-1';
+
+const RuleManager: React.FC<RuleManagerProps> = ({ rules, categories, accounts, draft, onDraftConsumed, onSave, onDelete, onApplyToHistory }) => {
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [historyResult, setHistoryResult] = useState<number | null>(null);
+
+  const ordered = sortRules(rules);
+
+  useEffect(() => {
+    if (!draft) return;
+    setEditingId(null);
+    setError(null);
+    setForm({
+      ...emptyForm,
+      name: draft.description,
+      descriptionContains: draft.description,
+      accountId: draft.accountId,
+      type: draft.type === 'transfer' ? '' : draft.type,
+      categoryId: draft.categoryId !== 'cat-unassigned' ? draft.categoryId : ''
+    });
+    onDraftConsumed?.();
+  }, [draft, onDraftConsumed]);
+
+  const describe = (rule: CategoryRule) => {
+    const c = rule.conditions;
+    const parts: string[] = [];
+    if (c.descriptionContains) parts.push(`contém "${c.descriptionContains}"`);
+    if (c.descriptionRegex) parts.push(`regex /${c.descriptionRegex}/`);
+    if (c.minAmount !== undefined) parts.push(`≥ ${c.minAmount}`);
+    if (c.maxAmount !== undefined) parts.push(`≤ ${c.maxAmount}`);
+    if (c.type) parts.push(c.type === 'income' ? 'receita' : 'despesa');
+    if (c.accountId) parts.push(accounts.find(a => a.id === c.accountId)?.name || 'conta removida');
+
+    const a = rule.actions;
+    const effects: string[] = [];
+    if (a.categoryId) effects.push(categories.find(cat => cat.id === a.categoryId)?.name || 'categoria removida');
+    if (a.isRecurring !== undefined) effects.push(a.isRecurring ? 'recorrente' : 'não recorrente');
+    if (a.renameTo) effects.push(`renomear para "${a.renameTo}"`);
+
+    return `${parts.join(', ')} → ${effects.join(', ')}`;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const conditions: RuleConditions = {
+      descriptionContains: form.descriptionContains.trim() || undefined,
+      descriptionRegex: form.descriptionRegex.trim() || undefined,
+      minAmount: form.minAmount !== '' ? Math.abs(parseFloat(form.minAmount)) : undefined,
+      maxAmount: form.maxAmount !== '' ? Math.abs(parseFloat(form.maxAmount)) : undefined,
+      accountId: form.accountId || undefined,
+      type: form.type || undefined
+    };
+    const actions: RuleActions = {
+      categoryId: form.categoryId || undefined,
+      isRecurring: form.isRecurring ? form.isRecurring === 'yes' : undefined,
+      renameTo: form.renameTo.trim() || undefined
+    };
+
+    if (!Object.values(conditions).some(v => v !== undefined)) {
+      setError('Defina ao menos uma condição.');
+      return;
+    }
+    if (!Object.values(actions).some(v => v !== undefined)) {
+      setError('Defina ao menos uma ação.');
+      return;
+    }
+    if (conditions.descriptionRegex) {
+      try {
+        new RegExp(conditions.descriptionRegex);
+      } catch {
+        setError('Expressão regular inválida.');
+        return;
+      }
+    }
+
+    const existing = rules.find(r => r.id === editingId);
+    onSave({
+      ...existing,
+      id: editingId || `rule-${Date.now()}`,
+      name: form.name.trim() || form.descriptionContains.trim() || 'Regra sem nome',
+      priority: existing ? existing.priority : rules.reduce((max, r) => Math.max(max, r.priority), 0) + 1,
+      active: existing ? existing.active : true,
+      conditions,
+      actions
+    });
+    cancelEdit();
+  };
+
+  const handleEdit = (rule: CategoryRule) => {
+    const c = rule.conditions;
+    const a = rule.actions;
+    setEditingId(rule.id);
+    setError(null);
+    setForm({
+      name: rule.name,
+      descriptionContains: c.descriptionContains || '',
+      descriptionRegex: c.descriptionRegex || '',
+      minAmount: c.minAmount?.toString() || '',
+      maxAmount: c.maxAmount?.toString() || '',
+      accountId: c.accountId || '',
+      type: c.type || '',
+      categoryId: a.categoryId || '',
+      isRecurring: a.isRecurring === undefined ? '' : a.isRecurring ? 'yes' : 'no',
+      renameTo: a.renameTo || ''
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  // Troca a prioridade com a vizinha; as duas regras são gravadas
+  const move = (index: number, direction: -1 | 1) => {
+    const current = ordered[index];
+    const neighbour = ordered[index + direction];
+    if (!neighbour) return;
+    onSave({ ...current, priority: neighbour.priority });
+    onSave({ ...neighbour, priority: current.priority });
+  };
+
+  const handleApplyToHistory = () => {
+    setHistoryResult(onApplyToHistory());
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Regras de Categorização</h2>
+          <p className="text-sm text-slate-500">Classifique automaticamente importações e novos lançamentos</p>
+        </div>
+        <button
+          onClick={handleApplyToHistory}
+          disabled={rules.length === 0}
+          className="bg-white border border-slate-200 text-slate-700 font-bold px-5 py-3 rounded-xl hover:bg-slate-50 transition-all flex items-center gap-2 disabled:opacity-50"
+        >
+          <History className="w-4 h-4" />
+          Aplicar ao histórico
+        </button>
+      </div>
+
+      {historyResult !== null && (
+        <div className="bg-emerald-50 border border-emerald-100 text-emerald-700 text-sm font-bold px-5 py-3 rounded-xl flex items-center justify-between">
+          {historyResult === 0
+            ? 'Nenhum lançamento precisou ser alterado.'
+            : `${historyResult} lançamento(s) reclassificado(s).`}
+          <button onClick={() => setHistoryResult(null)} className="text-emerald-500 hover:text-emerald-700">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Add/Edit Form */}
+        <div className="lg:col-span-1">
+          <div className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-sm sticky top-8">
+            <h3 className="text-lg font-bold text-slate-900 mb-6">
+              {editingId ? 'Editar Regra' : 'Nova Regra'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="space-y-2">
+                <label className={labelClass}>Nome da Regra</label>
+                <input
+                  type="text"
+                  placeholder="Ex: Aplicativos de transporte"
+                  className={inputClass}
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+
+              <p className="text-[10px] font-black text-blue-600 uppercase tracking-widest px-1">Quando</p>
+
+              <div className="space-y-2">
+                <label className={labelClass}>Descrição contém</label>
+                <input
+                  type="text"
+                  placeholder="Ex: UBER"
+                  className={inputClass}
+                  value={form.descriptionContains}
+                  onChange={(e) => setForm({ ...form, descriptionContains: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className={labelClass}>Descrição (regex)</label>
+                <input
+                  type="text"
+                  placeholder="Ex: ^PIX .*ALUGUEL"
+                  className={`${inputClass} font-mono`}
+                  value={form.descriptionRegex}
+                  onChange={(e) => setForm({ ...form, descriptionRegex: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className={labelClass}>Valor mínimo</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    placeholder="0,00"
+                    className={inputClass}
+                    value={form.minAmount}
+                    onChange={(e) => setForm({ ...form, minAmount: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className={labelClass}>Valor máximo</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    placeholder="0,00"
+                    className={inputClass}
+                    value={form.maxAmount}
+                    onChange={(e) => setForm({ ...form, maxAmount: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className={labelClass}>Conta</label>
+                  <select
+                    className={inputClass}
+                    value={form.accountId}
+                    onChange={(e) => setForm({ ...form, accountId: e.target.value })}
+                  >
+                    <option value="">Qualquer</option>
+                    {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className={labelClass}>Tipo</label>
+                  <select
+                    className={inputClass}
+                    value={form.type}
+                    onChange={(e) => setForm({ ...form, type: e.target.value as typeof emptyForm.type })}
+                  >
+                    <option value="">Qualquer</option>
+                    <option value="expense">Despesa</option>
+                    <option value="income">Receita</option>
+                  </select>
+                </div>
+              </div>
+
+              <p className="text-[10px] font-black text-blue-600 uppercase tracking-widest px-1">Então</p>
+
+              <div className="space-y-2">
+                <label className={labelClass}>Categoria</label>
+                <select
+                  className={inputClass}
+                  value={form.categoryId}
+                  onChange={(e) => setForm({ ...form, categoryId: e.target.value })}
+                >
+                  <option value="">Não alterar</option>
+                  {sortAsTree(categories).filter(c => c.id !== 'cat-unassigned').map(c => (
+                    <option key={c.id} value={c.id}>{optionLabel(categories, c)}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className={labelClass}>Recorrente</label>
+                  <select
+                    className={inputClass}
+                    value={form.isRecurring}
+                    onChange={(e) => setForm({ ...form, isRecurring: e.target.value as typeof emptyForm.isRecurring })}
+                  >
+                    <option value="">Não alterar</option>
+                    <option value="yes">Sim</option>
+                    <option value="no">Não</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className={labelClass}>Renomear para</label>
+                  <input
+                    type="text"
+                    placeholder="Ex: Uber"
+                    className={inputClass}
+                    value={form.renameTo}
+                    onChange={(e) => setForm({ ...form, renameTo: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <p className="text-xs font-bold text-rose-600 px-1">{error}</p>
+              )}
+
+              <div className="flex gap-2">
+                {editingId && (
+                  <button
+                    type="button"
+                    onClick={cancelEdit}
+                    className="flex-1 bg-slate-100 text-slate-600 font-bold py-3 rounded-xl hover:bg-slate-200 transition-all flex items-center justify-center gap-2"
+                  >
+                    <X className="w-4 h-4" />
+                    Cancelar
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  className={`flex-[2] text-white font-bold py-3 rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg ${editingId ? 'bg-blue-600 hover:bg-blue-700 shadow-blue-200' : 'bg-slate-900 hover:bg-slate-800 shadow-slate-200'}`}
+                >
+                  <Plus className="w-4 h-4" />
+                  {editingId ? 'Salvar Alterações' : 'Criar Regra'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+
+        {/* Rules List */}
+        <div className="lg:col-span-2">
+          <div className="bg-white rounded-[2rem] border border-slate-200 shadow-sm overflow-hidden">
+            <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Ordem de Aplicação</h3>
+            </div>
+            {ordered.length === 0 ? (
+              <div className="p-12 text-center text-sm text-slate-400">
+                Nenhuma regra criada. Use o botão <Wand2 className="w-4 h-4 inline" /> em um lançamento para começar.
+              </div>
+            ) : (
+              <div className="divide-y divide-slate-100">
+                {ordered.map((rule, index) => (
+                  <div key={rule.id} className={`p-4 flex items-center justify-between hover:bg-slate-50 transition-all group ${rule.active ? '' : 'opacity-50'}`}>
+                    <div className="flex items-center gap-4 min-w-0">
+                      <div className="flex flex-col">
+                        <button
+                          onClick={() => move(index, -1)}
+                          disabled={index === 0}
+                          className="p-1 text-slate-300 hover:text-slate-600 disabled:invisible"
+                        >
+                          <ChevronUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => move(index, 1)}
+                          disabled={index === ordered.length - 1}
+                          className="p-1 text-slate-300 hover:text-slate-600 disabled:invisible"
+                        >
+                          <ChevronDown className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <div className="w-12 h-12 rounded-2xl flex items-center justify-center bg-violet-50 text-violet-600 shadow-sm shrink-0">
+                        <Wand2 className="w-6 h-6" />
+                      </div>
+                      <div className="min-w-0">
+                        <h4 className="font-bold text-slate-800 truncate">{rule.name}</h4>
+                        <p className="text-xs text-slate-400 truncate">{describe(rule)}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => onSave({ ...rule, active: !rule.active })}
+                        title={rule.active ? 'Desativar' : 'Ativar'}
+                        className={`p-2.5 rounded-xl transition-all ${rule.active ? 'text-emerald-600 hover:bg-emerald-50' : 'text-slate-400 hover:bg-slate-100'}`}
+                      >
+                        <Power className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => handleEdit(rule)}
+                        className="p-2.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all"
+                      >
+                        <Edit3 className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => onDelete(rule.id)}
+                        className="p-2.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RuleManager;
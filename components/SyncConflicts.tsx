@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { SyncConflict } from '../types';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { AlertTriangle, CloudUpload, ChevronDown, ChevronUp, X } from 'lucide-react';
+
+interface SyncConflictsProps {
+  pendingCount: number;
+  conflicts: SyncConflict[];
+  onDismiss: (id: string) => void;
+  onClear: () => void;
+}
+
+const RESOLUTION_LABELS: Record<SyncConflict['resolution'], string> = {
+  local: 'Sua edição prevaleceu sobre uma alteração feita em outro dispositivo',
+  server: 'Uma alteração mais recente de outro dispositivo foi mantida',
+  rejected: 'O servidor recusou esta edição'
+};
+
+const SyncConflicts: React.FC<SyncConflictsProps> = ({ pendingCount, conflicts, onDismiss, onClear }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  if (pendingCount === 0 && conflicts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 w-80 space-y-2">
+      {pendingCount > 0 && (
+        <div className="bg-slate-900 text-white px-4 py-3 rounded-2xl shadow-xl flex items-center gap-3">
+          <CloudUpload className="w-4 h-4 text-blue-400 shrink-0" />
+          <p className="text-xs font-bold">
+            {pendingCount} {pendingCount === 1 ? 'alteração aguardando' : 'alterações aguardando'} sincronização
+          </p>
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="bg-white border border-amber-200 rounded-2xl shadow-xl overflow-hidden">
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="w-full px-4 py-3 flex items-center justify-between bg-amber-50 text-amber-700"
+          >
+            <span className="text-xs font-black flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" /> {conflicts.length} {conflicts.length === 1 ? 'conflito' : 'conflitos'} de sincronização
+            </span>
+            {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+          </button>
+          {expanded && (
+            <>
+              <div className="max-h-64 overflow-y-auto divide-y divide-slate-100">
+                {conflicts.map(c => (
+                  <div key={c.id} className="px-4 py-3 flex items-start gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-bold text-slate-800 truncate">{c.label}</p>
+                      <p className="text-[10px] text-slate-500 leading-tight">{RESOLUTION_LABELS[c.resolution]}</p>
+                      <p className="text-[9px] text-slate-400 font-bold mt-1">
+                        {format(parseISO(c.detectedAt), "dd/MM 'às' HH:mm", { locale: ptBR })}
+                      </p>
+                    </div>
+                    <button onClick={() => onDismiss(c.id)} className="p-1 text-slate-300 hover:text-slate-600 rounded-lg" title="Dispensar">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button onClick={onClear} className="w-full py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-slate-700 border-t border-slate-100">
+                Dispensar todos
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncConflicts;
@@ -1,35 +1,67 @@
 
 import React, { useState } from 'react';
-import { Transaction, Category, TransactionType } from '../types';
+import { Transaction, Category, TransactionType, Account } from '../types';
+import { DEFAULT_ACCOUNT_ID } from '../constants';
+import { buildTransferLegs } from '../utils/transfers';
+import { buildInstallments } from '../utils/creditCard';
+import { optionLabel, sortAsTree } from '../utils/categories';
 import { X } from 'lucide-react';
 
 interface TransactionFormProps {
   onClose: () => void;
-  onAdd: (transaction: Transaction) => void;
+  onAdd: (transactions: Transaction[]) => void;
   categories: Category[];
+  accounts: Account[];
 }
 
-const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onAdd, categories }) => {
+const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onAdd, categories, accounts }) => {
   const [formData, setFormData] = useState({
     date: new Date().toISOString().split('T')[0],
     description: '',
     amount: '',
     categoryId: 'cat-unassigned',
+    accountId: DEFAULT_ACCOUNT_ID,
+    toAccountId: accounts.find(a => a.id !== DEFAULT_ACCOUNT_ID)?.id || DEFAULT_ACCOUNT_ID,
+    installments: '1',
     type: 'expense' as TransactionType
   });
 
+  const isTransfer = formData.type === 'transfer';
+  const isSameAccount = isTransfer && formData.accountId === formData.toAccountId;
+  const installmentCount = formData.type === 'expense' ? Math.max(1, parseInt(formData.installments) || 1) : 1;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.description || !formData.amount) return;
+    if (!formData.description || !formData.amount || isSameAccount) return;
 
-    onAdd({
-      id: Date.now().toString(),
-      date: formData.date,
-      description: formData.description,
-      amount: formData.type === 'expense' ? -Math.abs(parseFloat(formData.amount)) : Math.abs(parseFloat(formData.amount)),
-      categoryId: formData.categoryId,
-      type: formData.type
-    });
+    if (isTransfer) {
+      onAdd(buildTransferLegs(`trf-${Date.now()}`, {
+        date: formData.date,
+        description: formData.description,
+        amount: parseFloat(formData.amount),
+        fromAccountId: formData.accountId,
+        toAccountId: formData.toAccountId
+      }));
+    } else if (installmentCount > 1) {
+      onAdd(buildInstallments(`inst-${Date.now()}`, {
+        date: formData.date,
+        description: formData.description,
+        totalAmount: parseFloat(formData.amount),
+        count: installmentCount,
+        categoryId: formData.categoryId,
+        accountId: formData.accountId
+      }));
+    } else {
+      onAdd([{
+        id: Date.now().toString(),
+        date: formData.date,
+        description: formData.description,
+        amount: formData.type === 'expense' ? -Math.abs(parseFloat(formData.amount)) : Math.abs(parseFloat(formData.amount)),
+        categoryId: formData.categoryId,
+        accountId: formData.accountId,
+        type: formData.type
+      }]);
+    }
     onClose();
   };
 
@@ -57,6 +89,13 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onAdd, categ
             >
               Receita
             </button>
+            <button
+              type="button"
+              onClick={() => setFormData({ ...formData, type: 'transfer' })}
+              className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${formData.type === 'transfer' ? 'bg-white text-sky-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              Transferência
+            </button>
           </div>
 
           <div className="space-y-2">
@@ -65,7 +104,7 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onAdd, categ
               autoFocus
               required
               type="text"
-              placeholder="Ex: Padaria, Salário, Uber..."
+              placeholder={isTransfer ? 'Ex: Pagamento da fatura, Reserva...' : 'Ex: Padaria, Salário, Uber...'}
               className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
               value={formData.description}
               onChange={(e) => setFormData({ ...formData, description: e.target.value })}
@@ -100,22 +139,90 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onAdd, categ
             </div>
           </div>
 
-          <div className="space-y-2">
-            <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Categoria</label>
-            <select
-              className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
-              value={formData.categoryId}
-              onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
-            >
-              {categories.map(cat => (
-                <option key={cat.id} value={cat.id}>{cat.name}</option>
-              ))}
-            </select>
-          </div>
+          {isTransfer ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">De</label>
+                <select
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                  value={formData.accountId}
+                  onChange={(e) => setFormData({ ...formData, accountId: e.target.value })}
+                >
+                  {accounts.map(acc => (
+                    <option key={acc.id} value={acc.id}>{acc.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Para</label>
+                <select
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                  value={formData.toAccountId}
+                  onChange={(e) => setFormData({ ...formData, toAccountId: e.target.value })}
+                >
+                  {accounts.map(acc => (
+                    <option key={acc.id} value={acc.id}>{acc.name}</option>
+                  ))}
+                </select>
+              </div>
+              {isSameAccount && (
+                <p className="col-span-2 text-xs font-bold text-rose-500">Escolha contas diferentes para a transferência.</p>
+              )}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Categoria</label>
+                <select
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                  value={formData.categoryId}
+                  onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
+                >
+                  {sortAsTree(categories).map(cat => (
+                    <option key={cat.id} value={cat.id}>{optionLabel(categories, cat)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Conta</label>
+                <select
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                  value={formData.accountId}
+                  onChange={(e) => setFormData({ ...formData, accountId: e.target.value })}
+                >
+                  {accounts.map(acc => (
+                    <option key={acc.id} value={acc.id}>{acc.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {formData.type === 'expense' && (
+            <div className="space-y-2">
+              <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Parcelas</label>
+              <div className="flex items-center gap-3">
+                <input
+                  type="number"
+                  min="1"
+                  max="48"
+                  className="w-24 bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                  value={formData.installments}
+                  onChange={(e) => setFormData({ ...formData, installments: e.target.value })}
+                />
+                <span className="text-xs font-bold text-slate-400">
+                  {installmentCount > 1 && formData.amount
+                    ? `${installmentCount}x de ${new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Math.abs(parseFloat(formData.amount)) / installmentCount)}`
+                    : 'À vista'}
+                </span>
+              </div>
+            </div>
+          )}
 
           <button
             type="submit"
-            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 rounded-xl shadow-lg shadow-blue-200 transition-all mt-4"
+            disabled={isSameAccount}
+            className="w-full disabled:opacity-50 bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 rounded-xl shadow-lg shadow-blue-200 transition-all mt-4"
           >
             Salvar Transação
           </button>
@@ -1,40 +1,78 @@
 
 import React, { useMemo, useState } from 'react';
-import { Transaction, Category } from '../types';
+import { Transaction, Category, Account, Attachment } from '../types';
 import { 
   Search, Filter, Plus, FileUp, Trash2, Edit3, ChevronLeft, ChevronRight, 
-  ArrowUpRight, ArrowDownLeft, X, Check, Download, Repeat, Calendar, ListFilter
+  ArrowUpRight, ArrowDownLeft, X, Check, Download, Repeat, Calendar, ListFilter, ArrowRightLeft, Wand2, Split, CheckSquare, Tag, StickyNote, Paperclip, FileWarning
 } from 'lucide-react';
 import { format, parseISO, isWithinInterval, startOfMonth, endOfMonth } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { TransferInput, getTransferInput } from '../utils/transfers';
+import { categoryParts, isSplit, primaryCategory, splitsMatchTotal } from '../utils/splits';
+import { optionLabel, rootIdOf, sortAsTree } from '../utils/categories';
+import { allTags, formatTags, normalizeTag, parseTags, withTag } from '../utils/tags';
+import AttachmentPanel from './AttachmentPanel';
 
 interface TransactionGridProps {
   transactions: Transaction[];
   categories: Category[];
+  accounts: Account[];
   onAdd: () => void;
   onImport: () => void;
   onUpdate: (id: string, updates: Partial<Transaction>) => void;
   onDelete: (id: string) => void;
+  onUpdateTransfer: (transferId: string, input: TransferInput) => void;
+  onDeleteTransfer: (transferId: string) => void;
+  onCreateRule: (transaction: Transaction) => void;
+  onBulkUpdate: (transactions: Transaction[]) => void;
+  onBulkDelete: (ids: string[]) => void;
+  onListAttachments: (transactionId: string) => Promise<Attachment[]>;
+  onUploadAttachment: (transactionId: string, file: File) => Promise<Attachment>;
+  onDownloadAttachment: (attachment: Attachment) => Promise<void>;
+  onDeleteAttachment: (attachment: Attachment) => Promise<void>;
 }
 
 const TransactionGrid: React.FC<TransactionGridProps> = ({ 
-  transactions, categories, onAdd, onImport, onUpdate, onDelete 
+  transactions, categories, accounts, onAdd, onImport, onUpdate, onDelete, onUpdateTransfer, onDeleteTransfer, onCreateRule, onBulkUpdate, onBulkDelete,
+  onListAttachments, onUploadAttachment, onDownloadAttachment, onDeleteAttachment
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [typeFilter, setTypeFilter] = useState<'all' | 'income' | 'expense'>('all');
+  const [typeFilter, setTypeFilter] = useState<'all' | 'income' | 'expense' | 'transfer'>('all');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [accountFilter, setAccountFilter] = useState<string>('all');
+  const [tagFilter, setTagFilter] = useState<string>('all');
+  const [missingReceiptOnly, setMissingReceiptOnly] = useState(false);
   const [recurrenceFilter, setRecurrenceFilter] = useState<'all' | 'fixed' | 'variable'>('all');
   const [dateRange, setDateRange] = useState({
     start: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
     end: format(endOfMonth(new Date()), 'yyyy-MM-dd')
   });
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [transferDraft, setTransferDraft] = useState<{ transferId: string; input: TransferInput } | null>(null);
+  const [splitDraft, setSplitDraft] = useState<{ id: string; parts: { categoryId: string; amount: string }[] } | null>(null);
+  const [attachmentsId, setAttachmentsId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState<{ id: string; tags: string; notes: string } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkTag, setBulkTag] = useState('');
+
+  const tagOptions = useMemo(() => allTags(transactions), [transactions]);
+
+  // Despesa em categoria que exige comprovante (em qualquer parte, se dividida) e sem nenhum anexo
+  const receiptCategoryIds = useMemo(() => new Set(categories.filter(c => c.requiresReceipt).map(c => c.id)), [categories]);
+  const missesReceipt = (t: Transaction) =>
+    t.type === 'expense' && !t.attachmentCount && categoryParts(t).some(p => receiptCategoryIds.has(p.categoryId));
+  const missingReceiptCount = useMemo(() => transactions.filter(missesReceipt).length, [transactions, receiptCategoryIds]);
 
   const filteredTransactions = useMemo(() => {
     return transactions.filter(t => {
-      const matchesSearch = t.description.toLowerCase().includes(searchTerm.toLowerCase());
+      const term = searchTerm.toLowerCase();
+      const matchesSearch = t.description.toLowerCase().includes(term) || !!t.notes?.toLowerCase().includes(term);
       const matchesType = typeFilter === 'all' || t.type === typeFilter;
-      const matchesCategory = categoryFilter === 'all' || t.categoryId === categoryFilter;
+      // Filtrar por uma principal inclui as subcategorias dela
+      const matchesCategory = categoryFilter === 'all' || categoryParts(t).some(p => rootIdOf(categories, p.categoryId) === categoryFilter || p.categoryId === categoryFilter);
+      const matchesAccount = accountFilter === 'all' || t.accountId === accountFilter;
+      const matchesTag = tagFilter === 'all' || !!t.tags?.includes(tagFilter);
+      const matchesReceipt = !missingReceiptOnly || missesReceipt(t);
       const matchesRecurrence = recurrenceFilter === 'all' || 
         (recurrenceFilter === 'fixed' && t.isRecurring) || 
         (recurrenceFilter === 'variable' && !t.isRecurring);
@@ -45,12 +83,127 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
         end: parseISO(dateRange.end) 
       });
 
-      return matchesSearch && matchesType && matchesCategory && matchesRecurrence && matchesDate;
+      return matchesSearch && matchesType && matchesCategory && matchesAccount && matchesTag && matchesReceipt && matchesRecurrence && matchesDate;
+    });
+  }, [transactions, categories, searchTerm, typeFilter, categoryFilter, accountFilter, tagFilter, missingReceiptOnly, receiptCategoryIds, recurrenceFilter, dateRange]);
+
+  // Saldo corrente por conta: acumulado em ordem cronológica sobre todo o histórico,
+  // independente dos filtros, para que cada linha mostre o saldo real após o lançamento
+  const runningBalances = useMemo(() => {
+    const totals = new Map<string, number>();
+    accounts.forEach(a => totals.set(a.id, a.openingBalance));
+
+    const result = new Map<string, number>();
+    [...transactions]
+      .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id))
+      .forEach(t => {
+        const next = (totals.get(t.accountId) || 0) + t.amount;
+        totals.set(t.accountId, next);
+        result.set(t.id, next);
+      });
+    return result;
+  }, [transactions, accounts]);
+
+  const formatCurrency = (value: number, currency = 'BRL') => {
+    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency }).format(value);
+  };
+
+  const transferLegs = useMemo(() => {
+    const map = new Map<string, Transaction[]>();
+    transactions.forEach(t => {
+      if (!t.transferId) return;
+      map.set(t.transferId, [...(map.get(t.transferId) || []), t]);
+    });
+    return map;
+  }, [transactions]);
+
+  const startTransferEdit = (transferId: string) => {
+    const input = getTransferInput(transferLegs.get(transferId) || []);
+    if (input) setTransferDraft({ transferId, input });
+  };
+
+  const saveTransferEdit = () => {
+    if (!transferDraft) return;
+    const { input } = transferDraft;
+    if (!input.description || !input.amount || input.fromAccountId === input.toAccountId) return;
+    onUpdateTransfer(transferDraft.transferId, input);
+    setTransferDraft(null);
+  };
+
+  // No rascunho os valores ficam positivos; o sinal do lançamento é reaplicado ao salvar
+  const startSplitEdit = (t: Transaction) => {
+    const parts = isSplit(t)
+      ? t.splits!.map(s => ({ categoryId: s.categoryId, amount: Math.abs(s.amount).toFixed(2) }))
+      : [{ categoryId: t.categoryId, amount: Math.abs(t.amount).toFixed(2) }, { categoryId: 'cat-unassigned', amount: '' }];
+    setSplitDraft({ id: t.id, parts });
+  };
+
+  const saveSplitEdit = (t: Transaction) => {
+    if (!splitDraft) return;
+    const sign = t.amount < 0 ? -1 : 1;
+    const splits = splitDraft.parts
+      .map(p => ({ categoryId: p.categoryId, amount: sign * Math.abs(parseFloat(p.amount) || 0) }))
+      .filter(p => p.amount !== 0);
+
+    if (splits.length < 2) {
+      // Uma parte só desfaz a divisão
+      onUpdate(t.id, { splits: undefined, categoryId: splits[0]?.categoryId ?? t.categoryId });
+    } else {
+      if (!splitsMatchTotal(splits, t.amount)) return;
+      onUpdate(t.id, { splits, categoryId: primaryCategory(splits) });
+    }
+    setSplitDraft(null);
+  };
+
+  // Transferências ficam de fora: as duas pernas precisam mudar juntas e não têm categoria própria
+  const selectableIds = useMemo(
+    () => filteredTransactions.filter(t => !(t.type === 'transfer' && t.transferId)).map(t => t.id),
+    [filteredTransactions]
+  );
+  const selectedVisible = selectableIds.filter(id => selectedIds.has(id));
+  const allSelected = selectableIds.length > 0 && selectedVisible.length === selectableIds.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
     });
-  }, [transactions, searchTerm, typeFilter, categoryFilter, recurrenceFilter, dateRange]);
+  };
+
+  const toggleAll = () => setSelectedIds(allSelected ? new Set() : new Set(selectableIds));
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+  const handleBulkCategory = (categoryId: string) => {
+    if (!categoryId) return;
+    const selected = new Set(selectedVisible);
+    onBulkUpdate(transactions
+      .filter(t => selected.has(t.id))
+      .map(t => ({ ...t, categoryId, splits: undefined })));
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkTag = () => {
+    const tag = normalizeTag(bulkTag);
+    if (!tag) return;
+    const selected = new Set(selectedVisible);
+    const tagged = transactions
+      .filter(t => selected.has(t.id) && !t.tags?.includes(tag))
+      .map(t => withTag(t, tag));
+    if (tagged.length > 0) onBulkUpdate(tagged);
+    setBulkTag('');
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkDelete = () => {
+    if (!confirm(`Excluir ${selectedVisible.length} lançamento(s)?`)) return;
+    onBulkDelete(selectedVisible);
+    setSelectedIds(new Set());
+  };
+
+  const saveNoteEdit = () => {
+    if (!noteDraft) return;
+    onUpdate(noteDraft.id, { tags: parseTags(noteDraft.tags), notes: noteDraft.notes.trim() || undefined });
+    setNoteDraft(null);
   };
 
   const handleInlineCategoryChange = (id: string, categoryId: string) => {
@@ -59,16 +212,21 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
   };
 
   const exportToCSV = () => {
-    const headers = ['Data', 'Descrição', 'Categoria', 'Tipo', 'Recorrência', 'Valor'];
+    const headers = ['Data', 'Descrição', 'Categoria', 'Conta', 'Tipo', 'Recorrência', 'Valor', 'Tags', 'Notas'];
     const rows = filteredTransactions.map(t => {
-      const cat = categories.find(c => c.id === t.categoryId)?.name || 'Sem Categoria';
+      const categoryName = (id: string) => categories.find(c => c.id === id)?.name || 'Sem Categoria';
+      const cat = categoryParts(t).map(p => categoryName(p.categoryId)).join(' + ');
+      const acc = accounts.find(a => a.id === t.accountId)?.name || '';
       return [
         format(parseISO(t.date), 'dd/MM/yyyy'),
         t.description.replace(/,/g, ''),
         cat,
-        t.type === 'income' ? 'Receita' : 'Despesa',
+        acc.replace(/,/g, ''),
+        t.type === 'income' ? 'Receita' : t.type === 'transfer' ? 'Transferência' : 'Despesa',
         t.isRecurring ? 'Fixo' : 'Variável',
-        t.amount.toString().replace('.', ',')
+        t.amount.toString().replace('.', ','),
+        (t.tags || []).join(' | ').replace(/,/g, ''),
+        (t.notes || '').replace(/[,\n]/g, ' ')
       ];
     });
 
@@ -93,7 +251,7 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
             <input
               type="text"
-              placeholder="Pesquisar por descrição..."
+              placeholder="Pesquisar por descrição ou nota..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full pl-12 pr-4 py-3 bg-slate-50 border-none rounded-2xl text-sm font-medium focus:ring-2 focus:ring-blue-500/20 transition-all"
@@ -101,6 +259,16 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
           </div>
 
           <div className="flex flex-wrap items-center gap-2">
+            {receiptCategoryIds.size > 0 && (
+              <button
+                onClick={() => setMissingReceiptOnly(!missingReceiptOnly)}
+                className={`flex items-center gap-2 px-4 py-3 rounded-xl text-xs font-bold transition-all ${missingReceiptOnly ? 'bg-amber-500 text-white' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'}`}
+                title="Despesas em categorias que exigem comprovante e ainda sem anexo"
+              >
+                <FileWarning className="w-4 h-4" />
+                Sem comprovante · {missingReceiptCount}
+              </button>
+            )}
             <button onClick={onImport} className="p-3 bg-slate-50 text-slate-600 rounded-xl hover:bg-slate-100 transition-all" title="Importar">
               <FileUp className="w-5 h-5" />
             </button>
@@ -117,7 +285,7 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
           </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 pt-4 border-t border-slate-100">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4 pt-4 border-t border-slate-100">
           <div className="space-y-1.5">
             <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Período</label>
             <div className="flex items-center gap-2">
@@ -145,7 +313,31 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
               className="w-full bg-slate-50 border-none rounded-xl px-3 py-2 text-xs font-bold focus:ring-2 focus:ring-blue-500"
             >
               <option value="all">Todas Categorias</option>
-              {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              {sortAsTree(categories).map(c => <option key={c.id} value={c.id}>{optionLabel(categories, c)}</option>)}
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Conta</label>
+            <select
+              value={accountFilter}
+              onChange={(e) => setAccountFilter(e.target.value)}
+              className="w-full bg-slate-50 border-none rounded-xl px-3 py-2 text-xs font-bold focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">Todas Contas</option>
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Tag</label>
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="w-full bg-slate-50 border-none rounded-xl px-3 py-2 text-xs font-bold focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">Todas Tags</option>
+              {tagOptions.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
             </select>
           </div>
 
@@ -155,6 +347,7 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
               <button onClick={() => setTypeFilter('all')} className={`flex-1 py-1.5 text-[10px] font-bold rounded-lg transition-all ${typeFilter === 'all' ? 'bg-white shadow-sm text-blue-600' : 'text-slate-500'}`}>Tudo</button>
               <button onClick={() => setTypeFilter('income')} className={`flex-1 py-1.5 text-[10px] font-bold rounded-lg transition-all ${typeFilter === 'income' ? 'bg-white shadow-sm text-emerald-600' : 'text-slate-500'}`}>Entradas</button>
               <button onClick={() => setTypeFilter('expense')} className={`flex-1 py-1.5 text-[10px] font-bold rounded-lg transition-all ${typeFilter === 'expense' ? 'bg-white shadow-sm text-rose-600' : 'text-slate-500'}`}>Saídas</button>
+              <button onClick={() => setTypeFilter('transfer')} className={`flex-1 py-1.5 text-[10px] font-bold rounded-lg transition-all ${typeFilter === 'transfer' ? 'bg-white shadow-sm text-sky-600' : 'text-slate-500'}`}>Transf.</button>
             </div>
           </div>
 
@@ -169,17 +362,71 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
         </div>
       </div>
 
+      {selectedVisible.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 bg-slate-900 text-white rounded-2xl px-5 py-3 shadow-lg">
+          <CheckSquare className="w-4 h-4 text-blue-400" />
+          <span className="text-xs font-black">{selectedVisible.length} selecionado(s)</span>
+          <select
+            value=""
+            onChange={(e) => handleBulkCategory(e.target.value)}
+            className="bg-slate-800 border-none rounded-xl px-3 py-1.5 text-xs font-bold text-white focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Mover para…</option>
+            {sortAsTree(categories).filter(c => c.id !== 'cat-transferencia').map(c => <option key={c.id} value={c.id}>{optionLabel(categories, c)}</option>)}
+          </select>
+          <button
+            onClick={handleBulkDelete}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-rose-600 hover:bg-rose-700 rounded-xl text-xs font-bold transition-all"
+          >
+            <Trash2 className="w-3.5 h-3.5" /> Excluir
+          </button>
+          <div className="flex items-center bg-slate-800 rounded-xl">
+            <input
+              type="text"
+              list="grid-tag-options"
+              placeholder="Adicionar tag"
+              value={bulkTag}
+              onChange={(e) => setBulkTag(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleBulkTag()}
+              className="bg-transparent border-none px-3 py-1.5 text-xs font-bold text-white placeholder:text-slate-500 focus:ring-0 w-36"
+            />
+            <button onClick={handleBulkTag} className="p-1.5 text-slate-400 hover:text-white transition-all" title="Adicionar tag aos selecionados">
+              <Tag className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <button
+            onClick={() => setSelectedIds(new Set())}
+            className="ml-auto p-1.5 text-slate-400 hover:text-white rounded-lg transition-all"
+            title="Limpar seleção"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Tabela de Transações */}
       <div className="bg-white border border-slate-200 rounded-[2rem] overflow-hidden shadow-sm">
         <div className="overflow-x-auto">
-          <table className="w-full text-left border-collapse min-w-[900px]">
+          <table className="w-full text-left border-collapse min-w-[1200px]">
             <thead>
               <tr className="bg-slate-50/50 border-b border-slate-100">
+                <th className="pl-6 py-4 w-4">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    disabled={selectableIds.length === 0}
+                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                </th>
                 <th className="px-6 py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Data</th>
                 <th className="px-6 py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Descrição</th>
                 <th className="px-6 py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Categoria</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Conta</th>
                 <th className="px-6 py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">Tipo</th>
                 <th className="px-6 py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Valor</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">Saldo</th>
+                <th className="px-6 py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">Anexos</th>
                 <th className="px-6 py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">Ações</th>
               </tr>
             </thead>
@@ -187,29 +434,292 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
               {filteredTransactions.length > 0 ? (
                 filteredTransactions.map((t) => {
                   const cat = categories.find(c => c.id === t.categoryId) || categories.find(c => c.id === 'cat-unassigned');
+                  const acc = accounts.find(a => a.id === t.accountId);
+                  const balance = runningBalances.get(t.id) || 0;
+                  const isTransfer = t.type === 'transfer' && !!t.transferId;
+                  const counterpart = isTransfer
+                    ? transferLegs.get(t.transferId!)?.find(l => l.id !== t.id)
+                    : undefined;
+                  const counterpartAcc = accounts.find(a => a.id === counterpart?.accountId);
+
+                  if (isTransfer && transferDraft && transferDraft.transferId === t.transferId) {
+                    const draft = transferDraft.input;
+                    const setDraft = (updates: Partial<TransferInput>) => setTransferDraft({ transferId: transferDraft.transferId, input: { ...draft, ...updates } });
+                    return (
+                      <tr key={t.id} className="bg-sky-50/40">
+                        <td colSpan={10} className="px-6 py-4">
+                          <div className="flex flex-wrap items-center gap-3">
+                            <input
+                              type="date"
+                              value={draft.date}
+                              onChange={(e) => setDraft({ date: e.target.value })}
+                              className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold focus:ring-2 focus:ring-blue-500"
+                            />
+                            <input
+                              type="text"
+                              value={draft.description}
+                              onChange={(e) => setDraft({ description: e.target.value })}
+                              className="flex-1 min-w-[160px] bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold focus:ring-2 focus:ring-blue-500"
+                            />
+                            <select
+                              value={draft.fromAccountId}
+                              onChange={(e) => setDraft({ fromAccountId: e.target.value })}
+                              className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold focus:ring-2 focus:ring-blue-500"
+                            >
+                              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                            </select>
+                            <ArrowRightLeft className="w-4 h-4 text-sky-500" />
+                            <select
+                              value={draft.toAccountId}
+                              onChange={(e) => setDraft({ toAccountId: e.target.value })}
+                              className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold focus:ring-2 focus:ring-blue-500"
+                            >
+                              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                            </select>
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={draft.amount}
+                              onChange={(e) => setDraft({ amount: parseFloat(e.target.value) || 0 })}
+                              className="w-28 bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold text-right focus:ring-2 focus:ring-blue-500"
+                            />
+                            <button
+                              onClick={saveTransferEdit}
+                              disabled={draft.fromAccountId === draft.toAccountId}
+                              className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all disabled:opacity-30"
+                            >
+                              <Check className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setTransferDraft(null)}
+                              className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  }
+
+                  if (attachmentsId === t.id) {
+                    return (
+                      <tr key={t.id} className="bg-teal-50/40">
+                        <td colSpan={10} className="px-6 py-4">
+                          <AttachmentPanel
+                            transaction={t}
+                            onList={onListAttachments}
+                            onUpload={onUploadAttachment}
+                            onDownload={onDownloadAttachment}
+                            onDelete={onDeleteAttachment}
+                            onClose={() => setAttachmentsId(null)}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  }
+
+                  if (noteDraft && noteDraft.id === t.id) {
+                    return (
+                      <tr key={t.id} className="bg-violet-50/40">
+                        <td colSpan={10} className="px-6 py-4 space-y-3">
+                          <span className="text-sm font-bold text-slate-900">{t.description}</span>
+                          <div className="flex flex-wrap items-start gap-3">
+                            <div className="relative flex-1 min-w-[200px]">
+                              <Tag className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400" />
+                              <input
+                                autoFocus
+                                type="text"
+                                list="grid-tag-options"
+                                placeholder="Tags separadas por vírgula (ex: viagem-lisboa-2026, reembolsável)"
+                                value={noteDraft.tags}
+                                onChange={(e) => setNoteDraft({ ...noteDraft, tags: e.target.value })}
+                                className="w-full pl-9 pr-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold focus:ring-2 focus:ring-blue-500"
+                              />
+                            </div>
+                            <textarea
+                              placeholder="Notas"
+                              rows={2}
+                              value={noteDraft.notes}
+                              onChange={(e) => setNoteDraft({ ...noteDraft, notes: e.target.value })}
+                              className="flex-[2] min-w-[260px] px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-medium focus:ring-2 focus:ring-blue-500"
+                            />
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={saveNoteEdit}
+                                className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all"
+                              >
+                                <Check className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => setNoteDraft(null)}
+                                className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  }
+
+                  if (splitDraft && splitDraft.id === t.id) {
+                    const total = Math.abs(t.amount);
+                    const allocated = splitDraft.parts.reduce((sum, p) => sum + Math.abs(parseFloat(p.amount) || 0), 0);
+                    const remaining = Math.round((total - allocated) * 100) / 100;
+                    const setPart = (index: number, updates: Partial<{ categoryId: string; amount: string }>) => setSplitDraft({
+                      id: splitDraft.id,
+                      parts: splitDraft.parts.map((p, i) => i === index ? { ...p, ...updates } : p)
+                    });
+                    return (
+                      <tr key={t.id} className="bg-amber-50/40">
+                        <td colSpan={10} className="px-6 py-4 space-y-3">
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm font-bold text-slate-900">{t.description}</span>
+                            <span className="text-xs font-bold text-slate-500">
+                              Total {formatCurrency(total, acc?.currency)} ·{' '}
+                              <span className={remaining === 0 ? 'text-emerald-600' : 'text-rose-600'}>
+                                {remaining === 0 ? 'tudo distribuído' : `falta ${formatCurrency(remaining, acc?.currency)}`}
+                              </span>
+                            </span>
+                          </div>
+                          {splitDraft.parts.map((part, index) => (
+                            <div key={index} className="flex items-center gap-3">
+                              <select
+                                value={part.categoryId}
+                                onChange={(e) => setPart(index, { categoryId: e.target.value })}
+                                className="flex-1 bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold focus:ring-2 focus:ring-blue-500"
+                              >
+                                {sortAsTree(categories).map(c => <option key={c.id} value={c.id}>{optionLabel(categories, c)}</option>)}
+                              </select>
+                              <input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                placeholder={remaining > 0 ? remaining.toFixed(2) : '0,00'}
+                                value={part.amount}
+                                onChange={(e) => setPart(index, { amount: e.target.value })}
+                                className="w-28 bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold text-right focus:ring-2 focus:ring-blue-500"
+                              />
+                              <button
+                                onClick={() => setSplitDraft({ id: splitDraft.id, parts: splitDraft.parts.filter((_, i) => i !== index) })}
+                                className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          ))}
+                          <div className="flex items-center justify-between">
+                            <button
+                              onClick={() => setSplitDraft({
+                                id: splitDraft.id,
+                                parts: [...splitDraft.parts, { categoryId: 'cat-unassigned', amount: remaining > 0 ? remaining.toFixed(2) : '' }]
+                              })}
+                              className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700"
+                            >
+                              <Plus className="w-3 h-3" />
+                              Adicionar parte
+                            </button>
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => saveSplitEdit(t)}
+                                disabled={remaining !== 0 && splitDraft.parts.filter(p => parseFloat(p.amount) > 0).length > 1}
+                                className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all disabled:opacity-30"
+                              >
+                                <Check className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => setSplitDraft(null)}
+                                className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  }
+
                   return (
-                    <tr key={t.id} className="hover:bg-slate-50/50 transition-colors group">
+                    <tr key={t.id} className={`${selectedIds.has(t.id) ? 'bg-blue-50/40' : 'hover:bg-slate-50/50'} transition-colors group`}>
+                      <td className="pl-6 py-4 w-4">
+                        {!isTransfer && (
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(t.id)}
+                            onChange={() => toggleSelected(t.id)}
+                            className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                          />
+                        )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-xs font-bold text-slate-500">
                         {format(parseISO(t.date), 'dd MMM yyyy', { locale: ptBR })}
                       </td>
                       <td className="px-6 py-4">
                         <div className="flex items-center gap-3">
-                          <div className={`p-2 rounded-xl ${t.type === 'income' ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>
-                            {t.type === 'income' ? <ArrowUpRight className="w-4 h-4" /> : <ArrowDownLeft className="w-4 h-4" />}
+                          <div className={`p-2 rounded-xl ${isTransfer ? 'bg-sky-50 text-sky-600' : t.type === 'income' ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>
+                            {isTransfer ? <ArrowRightLeft className="w-4 h-4" /> : t.type === 'income' ? <ArrowUpRight className="w-4 h-4" /> : <ArrowDownLeft className="w-4 h-4" />}
                           </div>
                           <div>
                             <span className="text-sm font-bold text-slate-900">{t.description}</span>
+                            {isTransfer && (
+                              <p className="text-[9px] font-black text-sky-500 uppercase tracking-tighter mt-0.5">
+                                {t.amount < 0 ? `Para ${counterpartAcc?.name || '—'}` : `De ${counterpartAcc?.name || '—'}`}
+                              </p>
+                            )}
                             {t.isRecurring && (
                               <div className="flex items-center gap-1 mt-0.5">
                                 <Repeat className="w-3 h-3 text-indigo-500" />
                                 <span className="text-[9px] font-black text-indigo-500 uppercase tracking-tighter">Custo Fixo</span>
                               </div>
                             )}
+                            {!!t.tags?.length && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {t.tags.map(tag => (
+                                  <button
+                                    key={tag}
+                                    onClick={() => setTagFilter(tag)}
+                                    className="text-[9px] font-black text-violet-600 bg-violet-50 px-1.5 py-0.5 rounded hover:bg-violet-100 transition-all"
+                                  >
+                                    #{tag}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                            {t.notes && (
+                              <p className="flex items-center gap-1 mt-1 text-[10px] text-slate-500 italic max-w-xs truncate" title={t.notes}>
+                                <StickyNote className="w-3 h-3 shrink-0" />
+                                {t.notes}
+                              </p>
+                            )}
                           </div>
                         </div>
                       </td>
                       <td className="px-6 py-4">
-                        {editingId === t.id ? (
+                        {isTransfer ? (
+                          <span
+                            className="inline-flex items-center gap-2 text-[10px] px-3 py-1.5 rounded-full font-black uppercase tracking-tighter"
+                            style={{ backgroundColor: `${cat?.color}15`, color: cat?.color }}
+                          >
+                            <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: cat?.color }} />
+                            {cat?.name}
+                          </span>
+                        ) : isSplit(t) ? (
+                          <button
+                            onClick={() => startSplitEdit(t)}
+                            title={t.splits!.map(s => `${categories.find(c => c.id === s.categoryId)?.name || 'Sem Categoria'}: ${formatCurrency(Math.abs(s.amount), acc?.currency)}`).join('\n')}
+                            className="flex items-center gap-2 text-[10px] px-3 py-1.5 rounded-full font-black uppercase tracking-tighter bg-slate-100 text-slate-600 transition-all hover:scale-105"
+                          >
+                            <span className="flex -space-x-0.5">
+                              {t.splits!.map((s, i) => (
+                                <span key={i} className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: categories.find(c => c.id === s.categoryId)?.color || '#94a3b8' }} />
+                              ))}
+                            </span>
+                            Dividido · {t.splits!.length}
+                          </button>
+                        ) : editingId === t.id ? (
                           <select
                             autoFocus
                             onBlur={() => setEditingId(null)}
@@ -217,8 +727,8 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
                             className="text-xs font-bold bg-white border border-slate-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500"
                             defaultValue={t.categoryId}
                           >
-                            {categories.map(c => (
-                              <option key={c.id} value={c.id}>{c.name}</option>
+                            {sortAsTree(categories).map(c => (
+                              <option key={c.id} value={c.id}>{optionLabel(categories, c)}</option>
                             ))}
                           </select>
                         ) : (
@@ -232,6 +742,9 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
                           </button>
                         )}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-xs font-bold text-slate-500">
+                        {acc?.name || '—'}
+                      </td>
                       <td className="px-6 py-4 text-center">
                          {t.isRecurring ? (
                            <span className="inline-flex items-center justify-center p-1.5 bg-indigo-50 text-indigo-600 rounded-lg" title="Transação Recorrente">
@@ -244,14 +757,68 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
                          )}
                       </td>
                       <td className="px-6 py-4 text-sm font-black text-right">
-                        <span className={t.type === 'income' ? 'text-emerald-600' : 'text-rose-600'}>
-                          {t.type === 'income' ? '+' : '-'} {formatCurrency(Math.abs(t.amount))}
+                        <span className={isTransfer ? 'text-sky-600' : t.type === 'income' ? 'text-emerald-600' : 'text-rose-600'}>
+                          {(isTransfer ? t.amount >= 0 : t.type === 'income') ? '+' : '-'} {formatCurrency(Math.abs(t.amount), acc?.currency)}
                         </span>
                       </td>
+                      <td className={`px-6 py-4 text-xs font-bold text-right whitespace-nowrap ${balance >= 0 ? 'text-slate-500' : 'text-rose-500'}`}>
+                        {formatCurrency(balance, acc?.currency)}
+                      </td>
+                      <td className="px-6 py-4 text-center">
+                        {!isTransfer && (
+                          <button
+                            onClick={() => setAttachmentsId(t.id)}
+                            title={missesReceipt(t) ? 'Comprovante obrigatório nesta categoria' : 'Comprovantes'}
+                            className={`inline-flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-black transition-all ${
+                              t.attachmentCount ? 'bg-teal-50 text-teal-600 hover:bg-teal-100'
+                                : missesReceipt(t) ? 'bg-amber-50 text-amber-600 hover:bg-amber-100'
+                                : 'text-slate-300 hover:text-slate-500 hover:bg-slate-50'
+                            }`}
+                          >
+                            {missesReceipt(t) ? <FileWarning className="w-3.5 h-3.5" /> : <Paperclip className="w-3.5 h-3.5" />}
+                            {t.attachmentCount || 0}
+                          </button>
+                        )}
+                      </td>
                       <td className="px-6 py-4">
                         <div className="flex items-center justify-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                          {isTransfer && (
+                            <button 
+                              onClick={() => startTransferEdit(t.transferId!)}
+                              className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all"
+                            >
+                              <Edit3 className="w-4 h-4" />
+                            </button>
+                          )}
+                          {!isTransfer && (
+                            <button 
+                              onClick={() => startSplitEdit(t)}
+                              title="Dividir entre categorias"
+                              className="p-2 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-xl transition-all"
+                            >
+                              <Split className="w-4 h-4" />
+                            </button>
+                          )}
+                          {!isTransfer && (
+                            <button 
+                              onClick={() => setNoteDraft({ id: t.id, tags: formatTags(t.tags), notes: t.notes || '' })}
+                              title="Tags e notas"
+                              className="p-2 text-slate-400 hover:text-violet-600 hover:bg-violet-50 rounded-xl transition-all"
+                            >
+                              <Tag className="w-4 h-4" />
+                            </button>
+                          )}
+                          {!isTransfer && (
+                            <button 
+                              onClick={() => onCreateRule(t)}
+                              title="Criar regra a partir deste lançamento"
+                              className="p-2 text-slate-400 hover:text-violet-600 hover:bg-violet-50 rounded-xl transition-all"
+                            >
+                              <Wand2 className="w-4 h-4" />
+                            </button>
+                          )}
                           <button 
-                            onClick={() => onDelete(t.id)}
+                            onClick={() => isTransfer ? onDeleteTransfer(t.transferId!) : onDelete(t.id)}
                             className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"
                           >
                             <Trash2 className="w-4 h-4" />
@@ -263,7 +830,7 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
                 })
               ) : (
                 <tr>
-                  <td colSpan={6} className="px-6 py-20 text-center">
+                  <td colSpan={10} className="px-6 py-20 text-center">
                     <div className="flex flex-col items-center gap-2 opacity-30">
                        <ListFilter className="w-12 h-12" />
                        <p className="text-sm font-bold italic">Nenhum resultado para os filtros aplicados.</p>
@@ -273,6 +840,9 @@ const TransactionGrid: React.FC<TransactionGridProps> = ({
               )}
             </tbody>
           </table>
+          <datalist id="grid-tag-options">
+            {tagOptions.map(tag => <option key={tag} value={tag} />)}
+          </datalist>
         </div>
       </div>
     </div>
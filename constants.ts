@@ -1,5 +1,5 @@
 
-import { Category } from './types';
+import { Account, AccountKind, Category, HouseholdRole } from './types';
 
 export const DEFAULT_CATEGORIES: Category[] = [
   { id: 'cat-salario', name: 'Salário', color: '#10b981' },
@@ -16,12 +16,50 @@ export const DEFAULT_CATEGORIES: Category[] = [
   { id: 'cat-investimento', name: 'Investimento', color: '#14b8a6' },
   { id: 'cat-outras-despesas', name: 'Outras Despesas', color: '#64748b' },
   { id: 'cat-outras-receitas', name: 'Outras Receitas', color: '#22c55e' },
+  { id: 'cat-transferencia', name: 'Transferências', color: '#0ea5e9' },
   { id: 'cat-unassigned', name: 'Sem Categoria', color: '#94a3b8' },
 ];
 
+export const TRANSFER_CATEGORY_ID = 'cat-transferencia';
+
+export const DEFAULT_ACCOUNT_ID = 'acc-principal';
+
+export const DEFAULT_ACCOUNTS: Account[] = [
+  { id: DEFAULT_ACCOUNT_ID, name: 'Conta Principal', kind: 'checking', currency: 'BRL', openingBalance: 0 },
+];
+
+export const ACCOUNT_KIND_LABELS: Record<AccountKind, string> = {
+  checking: 'Conta Corrente',
+  savings: 'Poupança',
+  credit_card: 'Cartão de Crédito',
+  cash: 'Dinheiro',
+};
+
 export const STORAGE_KEYS = {
   TRANSACTIONS: 'ff_transactions',
   CATEGORIES: 'ff_categories',
   BUDGETS: 'ff_budgets',
   RECURRING: 'ff_recurring',
+  ACCOUNTS: 'ff_accounts',
+  SESSION: 'ff_session',
+  HOUSEHOLD: 'ff_household',
+  OUTBOX: 'ff_outbox',
+  CONFLICTS: 'ff_conflicts',
+  SYNC_CURSOR: 'ff_sync_cursor',
+  IMPORT_PROFILES: 'ff_import_profiles',
+  RULES: 'ff_rules',
+  GOALS: 'ff_goals',
+  PLANNING_MODE: 'ff_planning_mode',
+  // Filas offline de sessões que expiraram, por usuário; sobrevive ao logout para ser reenviada no próximo login
+  PARKED_OUTBOX: 'ff_parked_outbox',
+};
+
+// Mesmo limite de api/_lib/attachments.js
+export const MAX_ATTACHMENT_BYTES = 3 * 1024 * 1024;
+export const ATTACHMENT_ACCEPT = 'application/pdf,image/jpeg,image/png,image/webp,image/heic';
+
+export const HOUSEHOLD_ROLE_LABELS: Record<HouseholdRole, string> = {
+  owner: 'Proprietário',
+  editor: 'Editor',
+  viewer: 'Leitor',
 };
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AlertSettings, BudgetNotification } from '../types';
+
+export const useAlerts = (token: string | null, householdId?: string | null, onUnauthorized?: () => void) => {
+  const [notifications, setNotifications] = useState<BudgetNotification[]>([]);
+  const [settings, setSettings] = useState<AlertSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (method: 'GET' | 'POST', query: string, body?: any) => {
+    if (!token) return null;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    if (householdId) headers['X-Household-Id'] = householdId;
+    try {
+      const response = await fetch(`/api/alerts?${query}`, {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (response.status === 401) {
+        onUnauthorized?.();
+        return null;
+      }
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || `Erro no servidor (Status ${response.status})`);
+        return null;
+      }
+      setError(null);
+      return data;
+    } catch (err) {
+      // Alertas dependem do servidor; offline a caixa só fica como estava
+      return null;
+    }
+  }, [token, householdId, onUnauthorized]);
+
+  const refresh = useCallback(async () => {
+    const data = await request('GET', 'action=list');
+    if (!data) return;
+    setNotifications(data.notifications || []);
+    setSettings(data.settings || null);
+  }, [request]);
+
+  useEffect(() => {
+    setNotifications([]);
+    refresh();
+  }, [refresh]);
+
+  const markRead = useCallback(async (ids?: number[]) => {
+    const data = await request('POST', 'action=markRead', { ids });
+    if (!data) return;
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => !n.readAt && (!ids || ids.includes(n.id)) ? { ...n, readAt } : n));
+  }, [request]);
+
+  const saveSettings = useCallback(async (next: AlertSettings) => {
+    const data = await request('POST', 'action=saveSettings', next);
+    if (data?.settings) setSettings(data.settings);
+    return !!data;
+  }, [request]);
+
+  const unreadCount = notifications.filter(n => !n.readAt).length;
+
+  return { notifications, settings, unreadCount, error, refresh, markRead, saveSettings };
+};
@@ -1,54 +1,249 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Transaction, Category, Budget, RecurringTransaction } from '../types';
-import { DEFAULT_CATEGORIES, STORAGE_KEYS } from '../constants';
+import { Transaction, Category, Budget, RecurringTransaction, Account, ImportProfile, CategoryRule, Goal, SyncMeta, PendingMutation, SyncConflict, Attachment, CategorySuggestions } from '../types';
+import { DEFAULT_CATEGORIES, DEFAULT_ACCOUNTS, DEFAULT_ACCOUNT_ID, MAX_ATTACHMENT_BYTES, STORAGE_KEYS } from '../constants';
+import { buildTransferLegs, TransferInput } from '../utils/transfers';
+import { reassignCategory } from '../utils/splits';
+import { BUDGET_BASE_MONTH, budgetAt, budgetKey, budgetsForMonth, mergeBudgetHistory, previousMonth } from '../utils/budgets';
 
-export const useFinanceData = (userId: string | null) => {
+const mergeWithDefaults = <T extends { id: string }>(defaults: T[], stored: T[]): T[] => {
+  const merged = [...defaults];
+  stored.forEach(item => {
+    const index = merged.findIndex(d => d.id === item.id);
+    if (index > -1) merged[index] = item;
+    else merged.push(item);
+  });
+  return merged;
+};
+
+// Transações antigas (anteriores às contas) caem na conta principal
+const withAccount = (items: Transaction[]): Transaction[] =>
+  items.map(t => t.accountId ? t : { ...t, accountId: DEFAULT_ACCOUNT_ID });
+
+// Orçamentos em cache de antes do histórico mensal valem desde sempre
+const withMonth = (items: Budget[]): Budget[] =>
+  items.map(b => b.month ? b : { ...b, month: BUDGET_BASE_MONTH });
+
+// Categorias padrão só vão para o cache depois de editadas (quando ganham version do servidor)
+const isStoredCategory = (c: Category) => c.version !== undefined || !DEFAULT_CATEGORIES.some(dc => dc.id === c.id);
+
+// Caches por lar; null é o lar pessoal de quem ainda não escolheu nenhum (chave sem sufixo)
+const cacheKeyFor = (key: string, householdId?: string | null): string => householdId ? `${key}:${householdId}` : key;
+
+const readCache = <T,>(key: string): T[] => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+// Aplica o delta do servidor sobre a cópia em cache: primeiro as exclusões, depois as alterações
+const applyDelta = <T,>(cached: T[], changed: T[], deletedIds: string[] = [], keyOf: (item: T) => string = (item: any) => item.id): T[] => {
+  const removed = new Set(deletedIds);
+  const byKey = new Map(cached.filter(item => !removed.has(keyOf(item))).map(item => [keyOf(item), item] as [string, T]));
+  changed.forEach(item => byKey.set(keyOf(item), item));
+  return Array.from(byKey.values());
+};
+
+// O cursor só vale para o lar em que foi gerado; trocar de lar força a carga completa
+const loadCursor = (householdId?: string | null): string | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEYS.SYNC_CURSOR) || 'null');
+    return stored && stored.householdId === (householdId ?? null) ? stored.cursor : null;
+  } catch {
+    return null;
+  }
+};
+
+// Edição local: updatedAt marca a hora da mudança e version segue sendo a última vista no servidor
+const stamp = <T extends SyncMeta>(item: T): T => ({ ...item, updatedAt: new Date().toISOString() });
+
+// Depois de gravado o servidor incrementa a versão; espelhamos isso no estado local
+const bump = <T extends SyncMeta>(item: T): T => ({ ...item, version: (item.version ?? 0) + 1 });
+
+// Intervalo entre novas tentativas de envio da fila quando o servidor falhou
+const OUTBOX_RETRY_MS = 30000;
+
+const loadOutbox = (): PendingMutation[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.OUTBOX) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveOutbox = (items: PendingMutation[]) => localStorage.setItem(STORAGE_KEYS.OUTBOX, JSON.stringify(items));
+
+// Nome legível do registro afetado, para a lista de conflitos
+const describeRecord = (body: any, recordId: string): string => {
+  const items: any[] = Array.isArray(body) ? body : body?.legs || [body];
+  const item = items.find(i => i && (i.id === recordId || i.transferId === recordId || i.categoryId === recordId)) || items[0];
+  return item?.description || item?.name || recordId;
+};
+
+const recordIdOf = (body: any): string =>
+  (Array.isArray(body) ? body[0]?.id || body[0]?.categoryId : body?.id || body?.transferId || body?.categoryId) || '';
+
+type ServerConflict = { recordId: string; resolution: SyncConflict['resolution'] };
+type PostResult = { status: 'ok' | 'offline' | 'unauthorized' | 'rejected'; conflicts?: ServerConflict[] };
+
+// householdId undefined: o lar ativo ainda não foi resolvido e nada é carregado nem gravado
+export const useFinanceData = (token: string | null, onUnauthorized?: () => void, householdId?: string | null) => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [categories, setCategories] = useState<Category[]>(DEFAULT_CATEGORIES);
   const [budgets, setBudgets] = useState<Budget[]>([]);
   const [recurring, setRecurring] = useState<RecurringTransaction[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>(DEFAULT_ACCOUNTS);
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>([]);
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pendingCount, setPendingCount] = useState(() => loadOutbox().length);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEYS.CONFLICTS) || '[]');
+    } catch {
+      return [];
+    }
+  });
   
   // Ref para rastrear se estamos em modo Offline (LocalStorage)
   const isOfflineMode = useRef<boolean>(false);
+  const flushing = useRef<Promise<boolean> | null>(null);
 
+  const authHeaders = useCallback((forHousehold: string | null | undefined = householdId): Record<string, string> => {
+    const headers: Record<string, string> = { Authorization: `Bearer ${token}` };
+    if (forHousehold) headers['X-Household-Id'] = forHousehold;
+    return headers;
+  }, [token, householdId]);
+
+  // Cada lar tem o próprio cache, para o modo offline nunca mostrar os dados de outro lar
+  const cacheKey = useCallback((key: string) => cacheKeyFor(key, householdId), [householdId]);
+
+  // Sem cache do lar os dados voltam ao estado inicial, em vez de ficarem os do lar anterior
   const loadFromLocalStorage = useCallback(() => {
-    const localT = localStorage.getItem(STORAGE_KEYS.TRANSACTIONS);
-    const localC = localStorage.getItem(STORAGE_KEYS.CATEGORIES);
-    const localB = localStorage.getItem(STORAGE_KEYS.BUDGETS);
-    const localR = localStorage.getItem(STORAGE_KEYS.RECURRING);
-
-    if (localT) setTransactions(JSON.parse(localT));
-    if (localC) {
-      const dbCategories = JSON.parse(localC);
-      const merged = [...DEFAULT_CATEGORIES];
-      dbCategories.forEach((dbCat: Category) => {
-        const index = merged.findIndex(c => c.id === dbCat.id);
-        if (index > -1) merged[index] = dbCat;
-        else merged.push(dbCat);
-      });
-      setCategories(merged);
-    }
-    if (localB) setBudgets(JSON.parse(localB));
-    if (localR) setRecurring(JSON.parse(localR));
-  }, []);
+    setTransactions(withAccount(readCache<Transaction>(cacheKey(STORAGE_KEYS.TRANSACTIONS))));
+    setCategories(mergeWithDefaults(DEFAULT_CATEGORIES, readCache<Category>(cacheKey(STORAGE_KEYS.CATEGORIES))));
+    setBudgets(withMonth(readCache<Budget>(cacheKey(STORAGE_KEYS.BUDGETS))));
+    setRecurring(readCache<RecurringTransaction>(cacheKey(STORAGE_KEYS.RECURRING)));
+    setAccounts(mergeWithDefaults(DEFAULT_ACCOUNTS, readCache<Account>(cacheKey(STORAGE_KEYS.ACCOUNTS))));
+    setImportProfiles(readCache<ImportProfile>(cacheKey(STORAGE_KEYS.IMPORT_PROFILES)));
+    setRules(readCache<CategoryRule>(cacheKey(STORAGE_KEYS.RULES)));
+    setGoals(readCache<Goal>(cacheKey(STORAGE_KEYS.GOALS)));
+  }, [cacheKey]);
 
-  const saveToLocalStorage = useCallback((type: 'T' | 'C' | 'B' | 'R', data: any) => {
+  const saveToLocalStorage = useCallback((type: 'T' | 'C' | 'B' | 'R' | 'A' | 'P' | 'L' | 'G', data: any) => {
     const keys = {
       T: STORAGE_KEYS.TRANSACTIONS,
       C: STORAGE_KEYS.CATEGORIES,
       B: STORAGE_KEYS.BUDGETS,
-      R: STORAGE_KEYS.RECURRING
+      R: STORAGE_KEYS.RECURRING,
+      A: STORAGE_KEYS.ACCOUNTS,
+      P: STORAGE_KEYS.IMPORT_PROFILES,
+      L: STORAGE_KEYS.RULES,
+      G: STORAGE_KEYS.GOALS
     };
-    localStorage.setItem(keys[type], JSON.stringify(data));
+    localStorage.setItem(cacheKey(keys[type]), JSON.stringify(data));
+  }, [cacheKey]);
+
+  const recordConflicts = useCallback((action: string, body: any, found: ServerConflict[]) => {
+    const detectedAt = new Date().toISOString();
+    setConflicts(prev => {
+      const updated = found.map((c, i) => ({
+        id: `conf-${Date.now()}-${i}`,
+        action,
+        recordId: c.recordId,
+        label: describeRecord(body, c.recordId),
+        resolution: c.resolution,
+        detectedAt
+      })).concat(prev);
+      localStorage.setItem(STORAGE_KEYS.CONFLICTS, JSON.stringify(updated));
+      return updated;
+    });
   }, []);
 
+  const enqueue = useCallback((action: string, body: any) => {
+    const outbox = loadOutbox();
+    outbox.push({ id: `mut-${Date.now()}-${outbox.length}`, action, body, householdId, queuedAt: new Date().toISOString() });
+    saveOutbox(outbox);
+    setPendingCount(outbox.length);
+  }, [householdId]);
+
+  const postMutation = useCallback(async (action: string, body: any, forHousehold?: string | null): Promise<PostResult> => {
+    try {
+      const response = await fetch(`/api/finance?action=${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(forHousehold) },
+        body: JSON.stringify(body),
+      });
+      if (response.status === 401) return { status: 'unauthorized' };
+      if (response.status === 404) return { status: 'offline' };
+      // Falha do servidor (banco fora, timeout) é passageira: a edição fica na fila para nova tentativa.
+      // Só 4xx significa que o servidor recusou a gravação.
+      if (response.status >= 500) return { status: 'offline' };
+      if (!response.ok) return { status: 'rejected' };
+      const data = await response.json().catch(() => ({}));
+      return { status: 'ok', conflicts: data.conflicts || [] };
+    } catch (err) {
+      return { status: 'offline' };
+    }
+  }, [authHeaders]);
+
+  // Reenvia a fila na ordem em que as edições foram feitas; para no primeiro sinal de rede fora.
+  // Gravações recusadas pelo servidor saem da fila, mas ficam registradas como conflito.
+  const flushOutbox = useCallback((): Promise<boolean> => {
+    if (flushing.current) return flushing.current;
+    const run = async () => {
+      let outbox = loadOutbox();
+      while (outbox.length > 0) {
+        const next = outbox[0];
+        const result = await postMutation(next.action, next.body, next.householdId);
+        if (result.status === 'offline') return false;
+        if (result.status === 'unauthorized') {
+          onUnauthorized?.();
+          return false;
+        }
+        if (result.status === 'rejected') {
+          recordConflicts(next.action, next.body, [{ recordId: recordIdOf(next.body), resolution: 'rejected' }]);
+        } else if (result.conflicts?.length) {
+          recordConflicts(next.action, next.body, result.conflicts);
+        }
+        outbox = loadOutbox().filter(m => m.id !== next.id);
+        saveOutbox(outbox);
+        setPendingCount(outbox.length);
+      }
+      return true;
+    };
+    flushing.current = run().finally(() => { flushing.current = null; });
+    return flushing.current;
+  }, [postMutation, onUnauthorized, recordConflicts]);
+
+  // Um novo login pode trazer de volta a fila guardada quando a sessão anterior expirou
+  useEffect(() => {
+    setPendingCount(loadOutbox().length);
+  }, [token]);
+
   const fetchData = useCallback(async () => {
-    if (!userId) return;
+    // Enquanto o lar ativo não é conhecido não há o que carregar; evita uma carga extra do lar pessoal
+    if (!token || householdId === undefined) return;
     setLoading(true);
     try {
-      const response = await fetch(`/api/finance?userId=${userId}`);
+      // Edições offline sobem antes da leitura; senão o estado do servidor as sobrescreveria
+      if (!(await flushOutbox())) {
+        isOfflineMode.current = true;
+        loadFromLocalStorage();
+        return;
+      }
+
+      const cursor = loadCursor(householdId);
+      const url = cursor ? `/api/finance?since=${encodeURIComponent(cursor)}` : '/api/finance';
+      const response = await fetch(url, { headers: authHeaders() });
+
+      if (response.status === 401) {
+        onUnauthorized?.();
+        return;
+      }
       
       // Se 404, entramos em modo offline silenciosamente
       if (response.status === 404) {
@@ -71,28 +266,46 @@ export const useFinanceData = (userId: string | null) => {
         amount: typeof item.amount === 'string' ? parseFloat(item.amount) : item.amount
       }));
 
-      const newTransactions = sanitizeAmount(data.transactions || []);
-      const dbCategories = data.categories || [];
-      const newBudgets = sanitizeAmount(data.budgets || []);
-      const newRecurring = sanitizeAmount(data.recurring || []);
+      // Resposta incremental é mesclada com o cache local; a completa o substitui
+      const isDelta = data.full === false;
+      const deleted = data.deleted || {};
+      const merge = <T,>(key: string, changed: T[], deletedIds?: string[], keyOf?: (item: T) => string) =>
+        isDelta ? applyDelta(readCache<T>(cacheKey(key)), changed, deletedIds, keyOf) : changed;
+
+      const newTransactions = withAccount(merge<Transaction>(STORAGE_KEYS.TRANSACTIONS, sanitizeAmount(data.transactions || []), deleted.transactions))
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      const dbCategories = merge<Category>(STORAGE_KEYS.CATEGORIES, data.categories || [], deleted.categories);
+      const newBudgets = withMonth(merge<Budget>(STORAGE_KEYS.BUDGETS, sanitizeAmount(data.budgets || []), deleted.budgets, b => budgetKey({ categoryId: b.categoryId, month: b.month || BUDGET_BASE_MONTH })));
+      const newRecurring = merge<RecurringTransaction>(STORAGE_KEYS.RECURRING, sanitizeAmount(data.recurring || []), deleted.recurring);
+      const dbAccounts = merge<Account>(STORAGE_KEYS.ACCOUNTS, (data.accounts || []).map((a: any) => ({
+        ...a,
+        openingBalance: typeof a.openingBalance === 'string' ? parseFloat(a.openingBalance) : a.openingBalance
+      })), deleted.accounts);
+      const newProfiles = merge<ImportProfile>(STORAGE_KEYS.IMPORT_PROFILES, data.importProfiles || [], deleted.importProfiles);
+      const newRules = merge<CategoryRule>(STORAGE_KEYS.RULES, data.rules || [], deleted.rules);
+      const newGoals = merge<Goal>(STORAGE_KEYS.GOALS, data.goals || [], deleted.goals);
 
       setTransactions(newTransactions);
-      
-      const mergedCategories = [...DEFAULT_CATEGORIES];
-      dbCategories.forEach((dbCat: Category) => {
-        const index = mergedCategories.findIndex(c => c.id === dbCat.id);
-        if (index > -1) mergedCategories[index] = dbCat;
-        else mergedCategories.push(dbCat);
-      });
-      setCategories(mergedCategories);
+      setCategories(mergeWithDefaults(DEFAULT_CATEGORIES, dbCategories));
       setBudgets(newBudgets);
       setRecurring(newRecurring);
+      setAccounts(mergeWithDefaults(DEFAULT_ACCOUNTS, dbAccounts));
+      setImportProfiles(newProfiles);
+      setRules(newRules);
+      setGoals(newGoals);
 
       // Sincroniza localmente para backup
       saveToLocalStorage('T', newTransactions);
       saveToLocalStorage('C', dbCategories);
       saveToLocalStorage('B', newBudgets);
       saveToLocalStorage('R', newRecurring);
+      saveToLocalStorage('A', dbAccounts);
+      saveToLocalStorage('P', newProfiles);
+      saveToLocalStorage('L', newRules);
+      saveToLocalStorage('G', newGoals);
+      if (data.cursor) {
+        localStorage.setItem(STORAGE_KEYS.SYNC_CURSOR, JSON.stringify({ householdId: householdId ?? null, cursor: data.cursor }));
+      }
 
       setError(null);
     } catch (err: any) {
@@ -104,65 +317,129 @@ export const useFinanceData = (userId: string | null) => {
     } finally {
       setLoading(false);
     }
-  }, [userId, loadFromLocalStorage, saveToLocalStorage]);
+  }, [token, householdId, authHeaders, onUnauthorized, flushOutbox, loadFromLocalStorage, saveToLocalStorage, cacheKey]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
-  const apiPost = async (action: string, body: any) => {
-    if (isOfflineMode.current) return true; // Simula sucesso se estiver offline
+  // Ao reconectar, a fila é reenviada e os dados recarregados
+  useEffect(() => {
+    const handleOnline = () => fetchData();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [fetchData]);
 
-    try {
-      const response = await fetch(`/api/finance?userId=${userId}&action=${action}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-      });
+  // Erro do servidor não gera evento de rede: com fila pendente, tentamos reenviar de tempos em tempos
+  useEffect(() => {
+    if (!token || pendingCount === 0) return;
+    const timer = setInterval(async () => {
+      if (await flushOutbox()) fetchData();
+    }, OUTBOX_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [token, pendingCount, flushOutbox, fetchData]);
 
-      if (!response.ok) {
-        if (response.status === 404) {
-          isOfflineMode.current = true;
-          return true;
-        }
-        return false;
-      }
-      return true;
-    } catch (err) {
-      isOfflineMode.current = true;
+  // Offline (ou com fila pendente, para preservar a ordem) a gravação vai para o outbox
+  const apiPost = async (action: string, body: any) => {
+    // Sem lar definido a gravação iria para o lar pessoal; melhor recusar do que gravar no lugar errado
+    if (householdId === undefined) return false;
+    if (isOfflineMode.current || loadOutbox().length > 0) {
+      enqueue(action, body);
       return true;
     }
+
+    const result = await postMutation(action, body);
+    switch (result.status) {
+      case 'offline':
+        isOfflineMode.current = true;
+        enqueue(action, body);
+        return true;
+      case 'unauthorized':
+        onUnauthorized?.();
+        return false;
+      case 'rejected':
+        return false;
+    }
+    if (result.conflicts?.length) {
+      recordConflicts(action, body, result.conflicts);
+      fetchData();
+    }
+    return true;
   };
 
+  const dismissConflict = useCallback((id: string) => {
+    setConflicts(prev => {
+      const updated = prev.filter(c => c.id !== id);
+      localStorage.setItem(STORAGE_KEYS.CONFLICTS, JSON.stringify(updated));
+      return updated;
+    });
+  }, []);
+
+  const clearConflicts = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEYS.CONFLICTS);
+    setConflicts([]);
+  }, []);
+
   const addTransactions = useCallback(async (newItems: Transaction[]) => {
-    const success = await apiPost('addTransactions', newItems);
+    const stamped = newItems.map(stamp);
+    const success = await apiPost('addTransactions', stamped);
     if (success) {
       setTransactions(prev => {
         const existingIds = new Set(prev.map(t => t.id));
-        const filtered = newItems.filter(item => !existingIds.has(item.id));
+        const filtered = stamped.filter(item => !existingIds.has(item.id)).map(bump);
         const updated = prev.concat(filtered).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
         saveToLocalStorage('T', updated);
         return updated;
       });
     }
-  }, [userId, saveToLocalStorage]);
+  }, [authHeaders, saveToLocalStorage]);
 
   const updateTransaction = useCallback(async (id: string, updates: Partial<Transaction>) => {
     const fullItem = transactions.find(t => t.id === id);
     if (!fullItem) return;
-    const item = { ...fullItem, ...updates };
+    const item = stamp({ ...fullItem, ...updates });
     const success = await apiPost('updateTransaction', item);
     if (success) {
       setTransactions(prev => {
-        const updated = prev.map(t => t.id === id ? item : t);
+        const updated = prev.map(t => t.id === id ? bump(item) : t);
         saveToLocalStorage('T', updated);
         return updated;
       });
     }
-  }, [transactions, userId, saveToLocalStorage]);
+  }, [transactions, authHeaders, saveToLocalStorage]);
+
+  // Atualização em lote (ex: aplicar regras ao histórico) numa única chamada de upsert
+  const updateTransactions = useCallback(async (items: Transaction[]) => {
+    if (items.length === 0) return;
+    const stamped = items.map(stamp);
+    const success = await apiPost('addTransactions', stamped);
+    if (success) {
+      const byId = new Map(stamped.map(t => [t.id, bump(t)]));
+      setTransactions(prev => {
+        const updated = prev.map(t => byId.get(t.id) || t);
+        saveToLocalStorage('T', updated);
+        return updated;
+      });
+    }
+  }, [authHeaders, saveToLocalStorage]);
+
+  const deleteTransactions = useCallback(async (ids: string[]) => {
+    const selected = new Set(ids);
+    const items = transactions.filter(t => selected.has(t.id)).map(t => stamp({ id: t.id, description: t.description, version: t.version }));
+    if (items.length === 0) return;
+    const success = await apiPost('deleteTransactions', items);
+    if (success) {
+      setTransactions(prev => {
+        const updated = prev.filter(t => !selected.has(t.id));
+        saveToLocalStorage('T', updated);
+        return updated;
+      });
+    }
+  }, [transactions, authHeaders, saveToLocalStorage]);
 
   const deleteTransaction = useCallback(async (id: string) => {
-    const success = await apiPost('deleteTransaction', { id });
+    const item = transactions.find(t => t.id === id);
+    const success = await apiPost('deleteTransaction', stamp({ id, version: item?.version }));
     if (success) {
       setTransactions(prev => {
         const updated = prev.filter(t => t.id !== id);
@@ -170,93 +447,425 @@ export const useFinanceData = (userId: string | null) => {
         return updated;
       });
     }
-  }, [userId, saveToLocalStorage]);
+  }, [transactions, authHeaders, saveToLocalStorage]);
+
+  const updateTransfer = useCallback(async (transferId: string, input: TransferInput) => {
+    const current = transactions.find(t => t.transferId === transferId && t.amount < 0);
+    const legs = buildTransferLegs(transferId, input).map(leg => stamp({ ...leg, version: current?.version }));
+    const success = await apiPost('saveTransfer', { transferId, legs });
+    if (success) {
+      setTransactions(prev => {
+        const updated = prev
+          .filter(t => t.transferId !== transferId)
+          .concat(legs.map(bump))
+          .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+        saveToLocalStorage('T', updated);
+        return updated;
+      });
+    }
+  }, [transactions, authHeaders, saveToLocalStorage]);
+
+  const deleteTransfer = useCallback(async (transferId: string) => {
+    const current = transactions.find(t => t.transferId === transferId && t.amount < 0);
+    const success = await apiPost('deleteTransfer', stamp({ transferId, version: current?.version }));
+    if (success) {
+      setTransactions(prev => {
+        const updated = prev.filter(t => t.transferId !== transferId);
+        saveToLocalStorage('T', updated);
+        return updated;
+      });
+    }
+  }, [transactions, authHeaders, saveToLocalStorage]);
 
   const addCategory = useCallback(async (cat: Category) => {
-    const success = await apiPost('saveCategory', cat);
+    const item = stamp(cat);
+    const success = await apiPost('saveCategory', item);
     if (success) {
       setCategories(prev => {
-        const updated = [...prev, cat];
-        saveToLocalStorage('C', updated.filter(c => !DEFAULT_CATEGORIES.some(dc => dc.id === c.id)));
+        const updated = [...prev, bump(item)];
+        saveToLocalStorage('C', updated.filter(isStoredCategory));
         return updated;
       });
     }
-  }, [userId, saveToLocalStorage]);
+  }, [authHeaders, saveToLocalStorage]);
 
   const updateCategory = useCallback(async (id: string, updates: Partial<Category>) => {
     const cat = categories.find(c => c.id === id);
     if (!cat) return;
-    const updated = { ...cat, ...updates };
+    const updated = stamp({ ...cat, ...updates });
     const success = await apiPost('saveCategory', updated);
     if (success) {
       setCategories(prev => {
-        const newList = prev.map(c => c.id === id ? updated : c);
-        saveToLocalStorage('C', newList.filter(c => !DEFAULT_CATEGORIES.some(dc => dc.id === c.id)));
+        const newList = prev.map(c => c.id === id ? bump(updated) : c);
+        saveToLocalStorage('C', newList.filter(isStoredCategory));
         return newList;
       });
     }
-  }, [categories, userId, saveToLocalStorage]);
+  }, [categories, authHeaders, saveToLocalStorage]);
 
   const deleteCategory = useCallback(async (id: string) => {
-    const success = await apiPost('deleteCategory', { id });
+    const cat = categories.find(c => c.id === id);
+    const success = await apiPost('deleteCategory', stamp({ id, version: cat?.version }));
     if (success) {
       setCategories(prev => {
-        const updated = prev.filter(c => c.id !== id);
-        saveToLocalStorage('C', updated.filter(c => !DEFAULT_CATEGORIES.some(dc => dc.id === c.id)));
+        const updated = prev
+          .filter(c => c.id !== id)
+          .map(c => c.parentId === id ? bump({ ...c, parentId: undefined }) : c);
+        saveToLocalStorage('C', updated.filter(isStoredCategory));
         return updated;
       });
-      setTransactions(prev => prev.map(t => t.categoryId === id ? { ...t, categoryId: 'cat-unassigned' } : t));
-    }
-  }, [userId, saveToLocalStorage]);
-
-  const updateBudget = useCallback(async (categoryId: string, amount: number) => {
-    const success = await apiPost('updateBudget', { categoryId, amount });
-    if (success) {
-      setBudgets(prev => {
-        const exists = prev.find(b => b.categoryId === categoryId);
-        const updated = exists 
-          ? prev.map(b => b.categoryId === categoryId ? { ...b, amount } : b)
-          : [...prev, { categoryId, amount }];
-        saveToLocalStorage('B', updated);
+      setTransactions(prev => {
+        const updated = prev.map(t => {
+          const next = reassignCategory(t, id, 'cat-unassigned');
+          return next === t ? t : bump(next);
+        });
+        saveToLocalStorage('T', updated);
         return updated;
       });
     }
-  }, [userId, saveToLocalStorage]);
+  }, [categories, authHeaders, saveToLocalStorage]);
 
-  const addRecurring = useCallback(async (item: RecurringTransaction) => {
-    const success = await apiPost('saveRecurring', item);
-    if (success) setRecurring(prev => {
-      const updated = [...prev, item];
+  // O servidor mescla tudo numa transação; aqui espelhamos o mesmo resultado no estado local
+  const mergeCategories = useCallback(async (fromId: string, targetId: string) => {
+    const from = categories.find(c => c.id === fromId);
+    const target = categories.find(c => c.id === targetId);
+    if (!from || !target || fromId === targetId) return;
+    const success = await apiPost('mergeCategories', stamp({ id: fromId, targetId, name: from.name, version: from.version }));
+    if (!success) return;
+
+    const childParentId = target.parentId || targetId;
+    setCategories(prev => {
+      const updated = prev
+        .filter(c => c.id !== fromId)
+        .map(c => c.parentId === fromId ? bump({ ...c, parentId: childParentId }) : c);
+      saveToLocalStorage('C', updated.filter(isStoredCategory));
+      return updated;
+    });
+    setTransactions(prev => {
+      const updated = prev.map(t => {
+        const next = reassignCategory(t, fromId, targetId);
+        return next === t ? t : bump(next);
+      });
+      saveToLocalStorage('T', updated);
+      return updated;
+    });
+    setRecurring(prev => {
+      const updated = prev.map(r => r.categoryId === fromId ? bump({ ...r, categoryId: targetId }) : r);
       saveToLocalStorage('R', updated);
       return updated;
     });
-  }, [userId, saveToLocalStorage]);
+    setRules(prev => {
+      const updated = prev.map(r => r.actions.categoryId === fromId ? bump({ ...r, actions: { ...r.actions, categoryId: targetId } }) : r);
+      saveToLocalStorage('L', updated);
+      return updated;
+    });
+    setGoals(prev => {
+      const updated = prev.map(g => g.sourceType === 'category' && g.sourceId === fromId ? bump({ ...g, sourceId: targetId }) : g);
+      saveToLocalStorage('G', updated);
+      return updated;
+    });
+    setBudgets(prev => {
+      if (!prev.some(b => b.categoryId === fromId)) return prev;
+      const merged = mergeBudgetHistory(prev, fromId, targetId).map(({ month, amount }) => {
+        const existing = prev.find(b => b.categoryId === targetId && b.month === month);
+        return existing ? bump({ ...existing, amount }) : { categoryId: targetId, month, amount, version: 1 };
+      });
+      const updated = [...prev.filter(b => b.categoryId !== fromId && b.categoryId !== targetId), ...merged];
+      saveToLocalStorage('B', updated);
+      return updated;
+    });
+  }, [categories, authHeaders, saveToLocalStorage]);
 
-  const removeRecurring = useCallback(async (id: string) => {
-    const success = await apiPost('deleteRecurring', { id });
-    if (success) setRecurring(prev => {
-      const updated = prev.filter(r => r.id !== id);
-      saveToLocalStorage('R', updated);
+  const storeBudgets = (items: Budget[]) => {
+    setBudgets(prev => {
+      const incoming = new Map(items.map(b => [budgetKey(b), bump(b)] as [string, Budget]));
+      const updated = [...prev.filter(b => !incoming.has(budgetKey(b))), ...incoming.values()];
+      saveToLocalStorage('B', updated);
       return updated;
     });
-  }, [userId, saveToLocalStorage]);
+  };
+
+  // Grava o valor do mês; os meses anteriores continuam com o orçamento que estava em vigor
+  const updateBudget = useCallback(async (categoryId: string, month: string, amount: number) => {
+    const current = budgets.find(b => b.categoryId === categoryId && b.month === month);
+    const item = stamp({ categoryId, month, amount, version: current?.version });
+    const success = await apiPost('updateBudget', item);
+    if (success) storeBudgets([item]);
+  }, [budgets, authHeaders, saveToLocalStorage]);
+
+  // O mês passa a ter exatamente os valores em vigor no mês anterior
+  const copyBudgetsFromPreviousMonth = useCallback(async (month: string) => {
+    const source = budgetsForMonth(budgets, previousMonth(month));
+    const categoryIds = new Set([...source.map(b => b.categoryId), ...budgets.filter(b => b.month === month).map(b => b.categoryId)]);
+    const items = Array.from(categoryIds)
+      .map(categoryId => ({ categoryId, amount: source.find(b => b.categoryId === categoryId)?.amount || 0 }))
+      .filter(({ categoryId, amount }) => (budgetAt(budgets, categoryId, month)?.amount || 0) !== amount)
+      .map(({ categoryId, amount }) => stamp({
+        categoryId, month, amount,
+        version: budgets.find(b => b.categoryId === categoryId && b.month === month)?.version
+      }));
+    if (items.length === 0) return;
+    const success = await apiPost('updateBudgets', items);
+    if (success) storeBudgets(items);
+  }, [budgets, authHeaders, saveToLocalStorage]);
+
+  const addRecurring = useCallback(async (newItem: RecurringTransaction) => {
+    const item = stamp(newItem);
+    const success = await apiPost('saveRecurring', item);
+    if (success) {
+      setRecurring(prev => {
+        const updated = [...prev, bump(item)];
+        saveToLocalStorage('R', updated);
+        return updated;
+      });
+      // O servidor gera os lançamentos da recorrência ao gravar; buscamos para que apareçam
+      fetchData();
+    }
+  }, [authHeaders, saveToLocalStorage, fetchData]);
+
+  const removeRecurring = useCallback(async (id: string) => {
+    const item = recurring.find(r => r.id === id);
+    const success = await apiPost('deleteRecurring', stamp({ id, version: item?.version }));
+    if (success) {
+      setRecurring(prev => {
+        const updated = prev.filter(r => r.id !== id);
+        saveToLocalStorage('R', updated);
+        return updated;
+      });
+      // O servidor exclui os lançamentos futuros da recorrência
+      fetchData();
+    }
+  }, [recurring, authHeaders, saveToLocalStorage, fetchData]);
 
   const updateRecurring = useCallback(async (id: string, updates: Partial<RecurringTransaction>) => {
     const item = recurring.find(r => r.id === id);
     if (!item) return;
-    const updated = { ...item, ...updates };
+    const updated = stamp({ ...item, ...updates });
     const success = await apiPost('saveRecurring', updated);
-    if (success) setRecurring(prev => {
-      const newList = prev.map(r => r.id === id ? updated : r);
-      saveToLocalStorage('R', newList);
-      return newList;
+    if (success) {
+      setRecurring(prev => {
+        const newList = prev.map(r => r.id === id ? bump(updated) : r);
+        saveToLocalStorage('R', newList);
+        return newList;
+      });
+      fetchData();
+    }
+  }, [recurring, authHeaders, saveToLocalStorage, fetchData]);
+
+  const saveAccount = useCallback(async (account: Account) => {
+    const item = stamp(account);
+    const success = await apiPost('saveAccount', item);
+    if (success) {
+      setAccounts(prev => {
+        const exists = prev.some(a => a.id === account.id);
+        const updated = exists ? prev.map(a => a.id === account.id ? bump(item) : a) : [...prev, bump(item)];
+        saveToLocalStorage('A', updated);
+        return updated;
+      });
+    }
+  }, [authHeaders, saveToLocalStorage]);
+
+  const deleteAccount = useCallback(async (id: string) => {
+    if (id === DEFAULT_ACCOUNT_ID) return;
+    const account = accounts.find(a => a.id === id);
+    const success = await apiPost('deleteAccount', stamp({ id, version: account?.version }));
+    if (success) {
+      setAccounts(prev => {
+        const updated = prev.filter(a => a.id !== id);
+        saveToLocalStorage('A', updated);
+        return updated;
+      });
+      setTransactions(prev => {
+        const updated = prev.map(t => t.accountId === id ? bump({ ...t, accountId: DEFAULT_ACCOUNT_ID }) : t);
+        saveToLocalStorage('T', updated);
+        return updated;
+      });
+    }
+  }, [accounts, authHeaders, saveToLocalStorage]);
+
+  const saveImportProfile = useCallback(async (profile: ImportProfile) => {
+    const item = stamp(profile);
+    const success = await apiPost('saveImportProfile', item);
+    if (success) {
+      setImportProfiles(prev => {
+        const exists = prev.some(p => p.id === profile.id);
+        const updated = exists ? prev.map(p => p.id === profile.id ? bump(item) : p) : [...prev, bump(item)];
+        saveToLocalStorage('P', updated);
+        return updated;
+      });
+    }
+  }, [authHeaders, saveToLocalStorage]);
+
+  const deleteImportProfile = useCallback(async (id: string) => {
+    const profile = importProfiles.find(p => p.id === id);
+    const success = await apiPost('deleteImportProfile', stamp({ id, version: profile?.version }));
+    if (success) {
+      setImportProfiles(prev => {
+        const updated = prev.filter(p => p.id !== id);
+        saveToLocalStorage('P', updated);
+        return updated;
+      });
+    }
+  }, [importProfiles, authHeaders, saveToLocalStorage]);
+
+  const saveRule = useCallback(async (rule: CategoryRule) => {
+    const item = stamp(rule);
+    const success = await apiPost('saveRule', item);
+    if (success) {
+      setRules(prev => {
+        const exists = prev.some(r => r.id === rule.id);
+        const updated = exists ? prev.map(r => r.id === rule.id ? bump(item) : r) : [...prev, bump(item)];
+        saveToLocalStorage('L', updated);
+        return updated;
+      });
+    }
+  }, [authHeaders, saveToLocalStorage]);
+
+  const deleteRule = useCallback(async (id: string) => {
+    const rule = rules.find(r => r.id === id);
+    const success = await apiPost('deleteRule', stamp({ id, version: rule?.version }));
+    if (success) {
+      setRules(prev => {
+        const updated = prev.filter(r => r.id !== id);
+        saveToLocalStorage('L', updated);
+        return updated;
+      });
+    }
+  }, [rules, authHeaders, saveToLocalStorage]);
+
+  const saveGoal = useCallback(async (goal: Goal) => {
+    const item = stamp(goal);
+    const success = await apiPost('saveGoal', item);
+    if (success) {
+      setGoals(prev => {
+        const exists = prev.some(g => g.id === goal.id);
+        const updated = exists ? prev.map(g => g.id === goal.id ? bump(item) : g) : [...prev, bump(item)];
+        saveToLocalStorage('G', updated);
+        return updated;
+      });
+    }
+  }, [authHeaders, saveToLocalStorage]);
+
+  const deleteGoal = useCallback(async (id: string) => {
+    const goal = goals.find(g => g.id === id);
+    const success = await apiPost('deleteGoal', stamp({ id, version: goal?.version }));
+    if (success) {
+      setGoals(prev => {
+        const updated = prev.filter(g => g.id !== id);
+        saveToLocalStorage('G', updated);
+        return updated;
+      });
+    }
+  }, [goals, authHeaders, saveToLocalStorage]);
+
+  // Classificação por IA no servidor, com as categorias do lar; sem rede ou com erro devolve vazio e a
+  // importação segue sem sugestões. truncated conta as descrições que passaram do teto por requisição.
+  const suggestCategories = useCallback(async (descriptions: string[]): Promise<CategorySuggestions> => {
+    const none = { suggestions: {}, truncated: 0 };
+    if (descriptions.length === 0 || isOfflineMode.current) return none;
+    try {
+      const response = await fetch('/api/categorize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ descriptions }),
+      });
+      if (response.status === 401) {
+        onUnauthorized?.();
+        return none;
+      }
+      if (!response.ok) return none;
+      const data = await response.json();
+      return { suggestions: data.suggestions || {}, truncated: data.truncated || 0 };
+    } catch (err) {
+      console.error(err);
+      return none;
+    }
+  }, [authHeaders, onUnauthorized]);
+
+  // Anexos não passam pelo outbox: precisam de rede e os erros voltam como exceção para a tela mostrar
+  const attachmentRequest = useCallback(async (method: 'GET' | 'POST', query: string, body?: any): Promise<Response> => {
+    if (isOfflineMode.current) throw new Error('Anexos precisam de conexão com o servidor.');
+    const response = await fetch(`/api/attachments?${query}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: body ? JSON.stringify(body) : undefined,
     });
-  }, [recurring, userId, saveToLocalStorage]);
+    if (response.status === 401) {
+      onUnauthorized?.();
+      throw new Error('Sessão inválida ou expirada.');
+    }
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Erro no servidor (Status ${response.status})`);
+    }
+    return response;
+  }, [authHeaders, onUnauthorized]);
+
+  // A contagem é só local: o servidor não muda a versão do lançamento ao anexar
+  const adjustAttachmentCount = useCallback((transactionId: string, delta: number) => {
+    setTransactions(prev => {
+      const updated = prev.map(t => t.id === transactionId ? { ...t, attachmentCount: Math.max(0, (t.attachmentCount || 0) + delta) } : t);
+      saveToLocalStorage('T', updated);
+      return updated;
+    });
+  }, [saveToLocalStorage]);
+
+  const listAttachments = useCallback(async (transactionId: string): Promise<Attachment[]> => {
+    const response = await attachmentRequest('GET', `transactionId=${encodeURIComponent(transactionId)}`);
+    const data = await response.json();
+    return data.attachments || [];
+  }, [attachmentRequest]);
+
+  const uploadAttachment = useCallback(async (transactionId: string, file: File): Promise<Attachment> => {
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      throw new Error(`O arquivo passa do limite de ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`);
+    }
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error('Não foi possível ler o arquivo.'));
+      reader.readAsDataURL(file);
+    });
+    const response = await attachmentRequest('POST', 'action=upload', {
+      transactionId,
+      fileName: file.name,
+      contentType: file.type,
+      data: dataUrl.slice(dataUrl.indexOf(',') + 1)
+    });
+    const data = await response.json();
+    adjustAttachmentCount(transactionId, 1);
+    return data.attachment;
+  }, [attachmentRequest, adjustAttachmentCount]);
+
+  const downloadAttachment = useCallback(async (attachment: Attachment) => {
+    const response = await attachmentRequest('GET', `action=download&id=${encodeURIComponent(attachment.id)}`);
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = attachment.fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, [attachmentRequest]);
+
+  const deleteAttachment = useCallback(async (attachment: Attachment) => {
+    await attachmentRequest('POST', 'action=delete', { id: attachment.id });
+    adjustAttachmentCount(attachment.transactionId, -1);
+  }, [attachmentRequest, adjustAttachmentCount]);
 
   return {
-    transactions, categories, budgets, recurring, loading, error,
-    addTransactions, updateTransaction, deleteTransaction,
-    addCategory, updateCategory, deleteCategory, updateBudget,
-    addRecurring, removeRecurring, updateRecurring
+    transactions, categories, budgets, recurring, accounts, importProfiles, rules, goals, loading, error,
+    pendingCount, conflicts, dismissConflict, clearConflicts,
+    addTransactions, updateTransaction, updateTransactions, deleteTransaction, deleteTransactions,
+    updateTransfer, deleteTransfer,
+    addCategory, updateCategory, deleteCategory, mergeCategories, updateBudget, copyBudgetsFromPreviousMonth,
+    addRecurring, removeRecurring, updateRecurring,
+    saveAccount, deleteAccount,
+    saveImportProfile, deleteImportProfile,
+    saveRule, deleteRule,
+    saveGoal, deleteGoal,
+    suggestCategories,
+    listAttachments, uploadAttachment, downloadAttachment, deleteAttachment
   };
 };
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Household, HouseholdInvite, HouseholdMember, HouseholdRole } from '../types';
+import { STORAGE_KEYS } from '../constants';
+
+export const useHouseholds = (token: string | null, onUnauthorized?: () => void) => {
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [pendingInvites, setPendingInvites] = useState<HouseholdInvite[]>([]);
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [sentInvites, setSentInvites] = useState<HouseholdInvite[]>([]);
+  const [activeHouseholdId, setActiveHouseholdId] = useState<string | null>(
+    () => localStorage.getItem(STORAGE_KEYS.HOUSEHOLD)
+  );
+  const [error, setError] = useState<string | null>(null);
+  // Sessão para a qual a lista de lares já foi consultada (com ou sem resposta do servidor)
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+
+  const request = useCallback(async (method: 'GET' | 'POST', query: string, body?: any) => {
+    if (!token) return null;
+    try {
+      const response = await fetch(`/api/households?${query}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (response.status === 401) {
+        onUnauthorized?.();
+        return null;
+      }
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || `Erro no servidor (Status ${response.status})`);
+        return null;
+      }
+      setError(null);
+      return data;
+    } catch (err) {
+      // Sem backend não há lares compartilhados; o app segue no modo pessoal/offline
+      return null;
+    }
+  }, [token, onUnauthorized]);
+
+  const fetchHouseholds = useCallback(async () => {
+    const data = await request('GET', 'action=list');
+    if (data) {
+      setHouseholds(data.households || []);
+      setPendingInvites(data.pendingInvites || []);
+    }
+    setLoadedFor(token);
+  }, [request, token]);
+
+  const fetchMembers = useCallback(async (householdId: string) => {
+    const data = await request('GET', `action=members&householdId=${encodeURIComponent(householdId)}`);
+    if (!data) return;
+    setMembers(data.members || []);
+    setSentInvites(data.invites || []);
+  }, [request]);
+
+  useEffect(() => {
+    fetchHouseholds();
+  }, [fetchHouseholds]);
+
+  // Se o lar salvo deixou de existir (ex: fomos removidos), voltamos ao primeiro disponível
+  const activeHousehold = households.find(h => h.id === activeHouseholdId) || households[0] || null;
+
+  useEffect(() => {
+    if (!activeHousehold) return;
+    // Guardado para que, offline, o app abra o cache do último lar usado
+    localStorage.setItem(STORAGE_KEYS.HOUSEHOLD, activeHousehold.id);
+    fetchMembers(activeHousehold.id);
+  }, [activeHousehold?.id, fetchMembers]);
+
+  // Lar cujos dados devem ser carregados. undefined enquanto a lista não chegou, para nada ser lido,
+  // gravado ou enfileirado no lar errado; sem servidor vale o último lar usado (null: o pessoal).
+  const dataHouseholdId = loadedFor !== token || !token ? undefined : activeHousehold?.id ?? activeHouseholdId;
+
+  const selectHousehold = useCallback((id: string) => {
+    localStorage.setItem(STORAGE_KEYS.HOUSEHOLD, id);
+    setActiveHouseholdId(id);
+  }, []);
+
+  const invite = useCallback(async (email: string, role: HouseholdRole) => {
+    if (!activeHousehold) return;
+    const data = await request('POST', 'action=invite', { householdId: activeHousehold.id, email, role });
+    if (data?.invite) setSentInvites(prev => [...prev, data.invite]);
+  }, [activeHousehold, request]);
+
+  const revokeInvite = useCallback(async (inviteId: string) => {
+    if (!activeHousehold) return;
+    const data = await request('POST', 'action=revokeInvite', { householdId: activeHousehold.id, inviteId });
+    if (data) setSentInvites(prev => prev.filter(i => i.id !== inviteId));
+  }, [activeHousehold, request]);
+
+  const respondToInvite = useCallback(async (inviteId: string, accept: boolean) => {
+    const data = await request('POST', `action=${accept ? 'acceptInvite' : 'declineInvite'}`, { inviteId });
+    if (data) await fetchHouseholds();
+  }, [request, fetchHouseholds]);
+
+  const updateMemberRole = useCallback(async (userId: string, role: HouseholdRole) => {
+    if (!activeHousehold) return;
+    const data = await request('POST', 'action=updateRole', { householdId: activeHousehold.id, userId, role });
+    if (data) setMembers(prev => prev.map(m => m.userId === userId ? { ...m, role } : m));
+  }, [activeHousehold, request]);
+
+  const removeMember = useCallback(async (userId: string) => {
+    if (!activeHousehold) return;
+    const data = await request('POST', 'action=removeMember', { householdId: activeHousehold.id, userId });
+    if (data) {
+      setMembers(prev => prev.filter(m => m.userId !== userId));
+      await fetchHouseholds();
+    }
+  }, [activeHousehold, request, fetchHouseholds]);
+
+  const renameHousehold = useCallback(async (name: string) => {
+    if (!activeHousehold) return;
+    const data = await request('POST', 'action=rename', { householdId: activeHousehold.id, name });
+    if (data) setHouseholds(prev => prev.map(h => h.id === activeHousehold.id ? { ...h, name } : h));
+  }, [activeHousehold, request]);
+
+  return {
+    households, activeHousehold, dataHouseholdId, pendingInvites, members, sentInvites, error,
+    selectHousehold, invite, revokeInvite, respondToInvite,
+    updateMemberRole, removeMember, renameHousehold
+  };
+};
@@ -0,0 +1,25 @@
+// Gera os lançamentos de recorrências de todos os lares, para rodar via cron fora da Vercel.
+// Uso: DATABASE_URL=... node scripts/materialize-recurring.js [YYYY-MM-DD]
+import { getPool } from '../api/_lib/db.js';
+import { materializeAllHouseholds } from '../api/_lib/materialize.js';
+
+const arg = process.argv[2];
+if (arg && !/^\d{4}-\d{2}-\d{2}$/.test(arg)) {
+  console.error('Data inválida; use YYYY-MM-DD.');
+  process.exit(1);
+}
+const now = arg ? new Date(`${arg}T12:00:00Z`) : new Date();
+
+const pool = getPool();
+const client = await pool.connect();
+try {
+  const summary = await materializeAllHouseholds(client, now);
+  console.log(`${summary.created} lançamento(s) criado(s) em ${summary.households} lar(es)${summary.failed ? `, ${summary.failed} com erro` : ''}.`);
+  if (summary.failed) process.exitCode = 1;
+} catch (error) {
+  console.error('DATABASE CRITICAL ERROR:', error);
+  process.exitCode = 1;
+} finally {
+  client.release();
+  await pool.end();
+}
@@ -1,5 +1,7 @@
 
-export type TransactionType = 'income' | 'expense';
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+export type AccountKind = 'checking' | 'savings' | 'credit_card' | 'cash';
 
 export interface User {
   id: string;
@@ -8,40 +10,199 @@ export interface User {
   avatar?: string;
 }
 
-export interface Category {
+export interface Session {
+  token: string;
+  user: User;
+}
+
+export type HouseholdRole = 'owner' | 'editor' | 'viewer';
+
+export interface Household {
+  id: string;
+  name: string;
+  role: HouseholdRole; // Papel do usuário logado neste lar
+}
+
+export interface HouseholdMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: HouseholdRole;
+}
+
+export interface HouseholdInvite {
+  id: string;
+  householdId: string;
+  householdName?: string;
+  email: string;
+  role: HouseholdRole;
+}
+
+// Controle de concorrência: o servidor incrementa version a cada gravação
+export interface SyncMeta {
+  version?: number;
+  updatedAt?: string; // ISO datetime da última edição
+}
+
+export interface Category extends SyncMeta {
   id: string;
   name: string;
   color: string;
+  parentId?: string; // Apenas dois níveis: categoria principal e subcategoria
+  requiresReceipt?: boolean; // Ex: saúde e educação, dedutíveis no IR
+  rolloverFrom?: string; // YYYY-MM em que a sobra/estouro passou a acumular; sem valor, cada mês começa do zero
+}
+
+export interface Account extends SyncMeta {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  currency: string; // ISO 4217, ex: BRL
+  openingBalance: number;
+  closingDay?: number; // Apenas cartões: dia de fechamento da fatura
+  dueDay?: number; // Apenas cartões: dia de vencimento da fatura
+  externalId?: string; // Conta no banco vinculada na importação OFX, ex: "0341/12345-6"
 }
 
-export interface Transaction {
+export interface Transaction extends SyncMeta {
   id: string;
   date: string; // ISO string YYYY-MM-DD
   description: string;
   amount: number;
   categoryId: string;
+  accountId: string;
   type: TransactionType;
   isRecurring?: boolean;
   recurringId?: string; // Link para o template original
+  transferId?: string; // Liga as duas pernas de uma transferência entre contas
+  installmentId?: string; // Liga as parcelas de uma mesma compra parcelada
+  installmentNumber?: number;
+  installmentCount?: number;
+  splits?: TransactionSplit[]; // Partes por categoria; quando presente, categoryId é a da maior parte
+  tags?: string[]; // Normalizadas em minúsculas (ver utils/tags)
+  notes?: string;
+  attachmentCount?: number; // Calculado pelo servidor; não é gravado junto com o lançamento
 }
 
-export interface RecurringTransaction {
+export interface Attachment {
+  id: string;
+  transactionId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  createdAt: string;
+}
+
+// Aviso gerado pelo servidor quando uma categoria passa de um limite do orçamento (ou caminha para isso)
+export interface BudgetNotification {
+  id: number;
+  categoryId: string;
+  month: string;
+  kind: 'threshold' | 'pace';
+  threshold: number;
+  message: string;
+  spent: number;
+  budget: number;
+  createdAt: string;
+  readAt: string | null;
+}
+
+export interface AlertSettings {
+  thresholds: number[]; // percentuais do orçamento, ex: [80, 100]
+  pace: boolean;
+  email: boolean;
+  webhookUrl: string | null;
+}
+
+// Parte de um lançamento dividido; o valor tem o mesmo sinal do lançamento
+export interface TransactionSplit {
+  categoryId: string;
+  amount: number;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'yearly';
+// Quando a data cai em fim de semana ou feriado: manter, antecipar ou adiar para um dia útil
+export type BusinessDayAdjustment = 'none' | 'previous' | 'next';
+
+export interface RecurringTransaction extends SyncMeta {
   id: string;
   description: string;
   amount: number;
   categoryId: string;
+  accountId?: string;
   type: TransactionType;
-  dayOfMonth: number;
+  dayOfMonth: number; // Mensal e anual; dias além do fim do mês caem no último dia
+  frequency?: RecurrenceFrequency; // Sem valor é mensal, como os templates antigos
+  interval?: number; // A cada N semanas/meses/anos; quinzenal é semanal com intervalo 2
+  dayOfWeek?: number; // Semanal: 0 = domingo
+  monthOfYear?: number; // Anual: 1 a 12
+  businessDay?: BusinessDayAdjustment;
   active: boolean;
   startDate?: string;
   endDate?: string;
 }
 
-export interface Budget {
+export interface Budget extends SyncMeta {
   categoryId: string;
+  month: string; // YYYY-MM a partir do qual o valor vale (ver utils/budgets)
   amount: number;
 }
 
+// Gravação feita offline, aguardando reenvio para /api/finance
+export interface PendingMutation {
+  id: string;
+  action: string;
+  body: any;
+  householdId?: string | null;
+  queuedAt: string;
+}
+
+export interface SyncConflict {
+  id: string;
+  action: string;
+  recordId: string;
+  label: string;
+  resolution: 'local' | 'server' | 'rejected'; // Qual versão prevaleceu
+  detectedAt: string;
+}
+
+export interface RuleConditions {
+  descriptionContains?: string;
+  descriptionRegex?: string;
+  minAmount?: number; // Valor absoluto
+  maxAmount?: number;
+  accountId?: string;
+  type?: 'income' | 'expense';
+}
+
+export interface RuleActions {
+  categoryId?: string;
+  isRecurring?: boolean;
+  renameTo?: string;
+}
+
+export interface CategoryRule extends SyncMeta {
+  id: string;
+  name: string;
+  priority: number; // Menor número é aplicado primeiro
+  active: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+// Meta de economia: o progresso vem dos lançamentos da conta ou categoria vinculada a partir de startDate
+export interface Goal extends SyncMeta {
+  id: string;
+  name: string;
+  targetAmount: number;
+  targetDate: string; // YYYY-MM-DD
+  startDate: string; // YYYY-MM-DD
+  initialAmount: number; // Já guardado antes de startDate
+  sourceType: 'account' | 'category';
+  sourceId: string;
+  color: string;
+}
+
 export interface ImportMapping {
   dateCol: number;
   descriptionCol: number;
@@ -49,7 +210,27 @@ export interface ImportMapping {
   categoryCol: number;
 }
 
+export type ImportDateFormat = 'auto' | 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'yyyy-MM-dd';
+
+export interface ImportProfile extends SyncMeta {
+  id: string;
+  name: string;
+  headerSignature: string; // Cabeçalhos normalizados; reconhece o arquivo do mesmo banco
+  headerRow: number; // Linhas ignoradas antes do cabeçalho
+  mapping: ImportMapping;
+  dateFormat: ImportDateFormat;
+  decimalSeparator: 'auto' | ',' | '.';
+  invertSign: boolean; // Ex: faturas que trazem compras como valores positivos
+  accountId?: string;
+}
+
 export interface ParseResult {
   headers: string[];
   rows: string[][];
 }
+
+// Resposta de /api/categorize: descrição -> id da categoria; truncated conta o que passou do teto
+export interface CategorySuggestions {
+  suggestions: Record<string, string>;
+  truncated: number;
+}
@@ -0,0 +1,90 @@
+import { addMonths, endOfMonth, format, isWithinInterval, parse, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { Budget, Category, Transaction } from '../types';
+import { sumByCategory } from './splits';
+import { effectiveBudget, isRoot, rollUp } from './categories';
+
+// Orçamentos gravados antes do histórico mensal valem desde sempre (mesmo default do banco)
+export const BUDGET_BASE_MONTH = '0000-01';
+
+export const monthKey = (date: Date): string => format(date, 'yyyy-MM');
+
+export const previousMonth = (month: string): string =>
+  monthKey(subMonths(parse(month, 'yyyy-MM', new Date()), 1));
+
+export const nextMonth = (month: string): string =>
+  monthKey(addMonths(parse(month, 'yyyy-MM', new Date()), 1));
+
+export const budgetKey = (b: Pick<Budget, 'categoryId' | 'month'>): string => `${b.categoryId}|${b.month}`;
+
+// Cada valor vale a partir do seu mês até o próximo registro da mesma categoria,
+// então mudar o orçamento de dezembro não reescreve os meses anteriores
+export const budgetAt = (budgets: Budget[], categoryId: string, month: string): Budget | undefined =>
+  budgets
+    .filter(b => b.categoryId === categoryId && b.month <= month)
+    .reduce<Budget | undefined>((latest, b) => (!latest || b.month > latest.month ? b : latest), undefined);
+
+// Orçamentos em vigor no mês, um por categoria; o resultado serve para effectiveBudget e afins
+export const budgetsForMonth = (budgets: Budget[], month: string): Budget[] =>
+  Array.from(new Set(budgets.map(b => b.categoryId)))
+    .map(categoryId => budgetAt(budgets, categoryId, month))
+    .filter((b): b is Budget => !!b && b.amount > 0);
+
+// Ao mesclar categorias, o destino passa a valer a soma das duas em cada mês em que alguma mudou
+export const mergeBudgetHistory = (budgets: Budget[], fromId: string, targetId: string): { month: string; amount: number }[] => {
+  const months = Array.from(new Set(
+    budgets.filter(b => b.categoryId === fromId || b.categoryId === targetId).map(b => b.month)
+  )).sort();
+  return months.map(month => ({
+    month,
+    amount: (budgetAt(budgets, fromId, month)?.amount || 0) + (budgetAt(budgets, targetId, month)?.amount || 0)
+  }));
+};
+
+// Despesas por mês (YYYY-MM) e categoria, com as subcategorias somadas nas principais
+export const monthlySpending = (transactions: Transaction[], categories: Category[]): Map<string, Map<string, number>> => {
+  const byMonth = new Map<string, Transaction[]>();
+  transactions.forEach(t => {
+    if (t.type !== 'expense') return;
+    const month = t.date.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) || []), t]);
+  });
+  return new Map(Array.from(byMonth, ([month, items]) => [month, rollUp(sumByCategory(items), categories)] as [string, Map<string, number>]));
+};
+
+// Média mensal por categoria nos 12 meses fechados antes de `now` (até o mês passado, para referência estável).
+// `include` restringe os lançamentos, ex: só o gasto variável na projeção de caixa.
+export const category12MonthAverage = (
+  transactions: Transaction[],
+  categories: Category[],
+  now: Date,
+  include: (t: Transaction) => boolean = () => true
+): Map<string, number> => {
+  const start = startOfMonth(subMonths(now, 12));
+  const end = endOfMonth(subMonths(now, 1));
+  const relevant = transactions.filter(t =>
+    t.type === 'expense' && include(t) && isWithinInterval(parseISO(t.date), { start, end })
+  );
+  const averages = new Map<string, number>();
+  rollUp(sumByCategory(relevant), categories).forEach((total, id) => averages.set(id, total / 12));
+  return averages;
+};
+
+// Rollover: o que sobrou (ou estourou) em cada mês desde rolloverFrom soma (ou desconta) no mês pedido
+export const rolloverCarry = (
+  categories: Category[],
+  budgets: Budget[],
+  spending: Map<string, Map<string, number>>,
+  category: Category,
+  month: string
+): number => {
+  if (!category.rolloverFrom) return 0;
+  let carry = 0;
+  for (let m = category.rolloverFrom; m < month; m = nextMonth(m)) {
+    carry += effectiveBudget(categories, budgetsForMonth(budgets, m), category.id) - (spending.get(m)?.get(category.id) || 0);
+  }
+  return carry;
+};
+
+// Envelope: a receita do mês precisa ser toda distribuída; sem dupla contagem entre principal e subcategorias
+export const toBeBudgeted = (categories: Category[], monthBudgets: Budget[], income: number): number =>
+  income - categories.filter(c => isRoot(categories, c)).reduce((sum, c) => sum + effectiveBudget(categories, monthBudgets, c.id), 0);
@@ -0,0 +1,54 @@
+import { Budget, Category } from '../types';
+
+// Categoria principal: sem pai, ou com um pai que não existe mais (ex: removido em outro aparelho)
+export const isRoot = (categories: Category[], category: Category): boolean =>
+  !category.parentId || !categories.some(c => c.id === category.parentId);
+
+export const childrenOf = (categories: Category[], parentId: string): Category[] =>
+  categories.filter(c => c.parentId === parentId && c.id !== parentId);
+
+export const rootIdOf = (categories: Category[], id: string): string => {
+  const category = categories.find(c => c.id === id);
+  return category && !isRoot(categories, category) ? category.parentId! : id;
+};
+
+// Cada principal seguida das suas subcategorias, preservando a ordem original
+export const sortAsTree = (categories: Category[]): Category[] =>
+  categories
+    .filter(c => isRoot(categories, c))
+    .flatMap(root => [root, ...childrenOf(categories, root.id)]);
+
+// Só dois níveis: o novo pai precisa ser principal e quem tem subcategorias não pode virar uma
+export const canBeParent = (categories: Category[], childId: string, parentId: string): boolean => {
+  const parent = categories.find(c => c.id === parentId);
+  return !!parent && parentId !== childId && isRoot(categories, parent) && childrenOf(categories, childId).length === 0;
+};
+
+// "Transporte › Uber" para subcategorias
+export const categoryLabel = (categories: Category[], id: string): string => {
+  const category = categories.find(c => c.id === id);
+  if (!category) return 'Sem Categoria';
+  if (isRoot(categories, category)) return category.name;
+  return `${categories.find(c => c.id === category.parentId)!.name} › ${category.name}`;
+};
+
+// Soma o valor das subcategorias no pai; subcategorias mantêm o próprio valor
+export const rollUp = (amounts: Map<string, number>, categories: Category[]): Map<string, number> => {
+  const rolled = new Map(amounts);
+  amounts.forEach((value, id) => {
+    const rootId = rootIdOf(categories, id);
+    if (rootId !== id) rolled.set(rootId, (rolled.get(rootId) || 0) + value);
+  });
+  return rolled;
+};
+
+// Orçamento da principal: o definido nela ou, se não houver, a soma dos orçamentos das subcategorias
+export const effectiveBudget = (categories: Category[], budgets: Budget[], id: string): number => {
+  const own = budgets.find(b => b.categoryId === id)?.amount || 0;
+  if (own > 0) return own;
+  return childrenOf(categories, id).reduce((sum, child) => sum + (budgets.find(b => b.categoryId === child.id)?.amount || 0), 0);
+};
+
+// Rótulo para <option>: subcategorias recuadas logo abaixo da principal (usar com sortAsTree)
+export const optionLabel = (categories: Category[], category: Category): string =>
+  isRoot(categories, category) ? category.name : `\u00a0\u00a0↳ ${category.name}`;
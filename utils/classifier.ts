@@ -0,0 +1,106 @@
+import { Transaction } from '../types';
+import { normalizeDescription } from './duplicates';
+
+// Abaixo disso a sugestão local não é aplicada sozinha e a descrição segue para a IA
+export const CONFIDENCE_THRESHOLD = 0.75;
+
+export interface CategorySuggestion {
+  categoryId: string;
+  confidence?: number; // 0 a 1; a IA não informa confiança
+  source: 'history' | 'ai';
+}
+
+export interface ClassifierModel {
+  exact: Map<string, Map<string, number>>; // descrição normalizada -> categoria -> ocorrências
+  tokenCounts: Map<string, Map<string, number>>; // categoria -> token -> ocorrências
+  tokenTotals: Map<string, number>;
+  docCounts: Map<string, number>;
+  vocabulary: Set<string>;
+  totalDocs: number;
+}
+
+// O tipo entra como token para separar, por exemplo, "PIX FULANO" recebido de enviado
+const tokenize = (description: string, type: Transaction['type']): string[] => [
+  ...normalizeDescription(description).split(' ').filter(t => t.length > 1),
+  `__${type}`
+];
+
+const increment = <K>(map: Map<K, number>, key: K, by = 1) => map.set(key, (map.get(key) || 0) + by);
+
+export const trainClassifier = (transactions: Transaction[]): ClassifierModel => {
+  const model: ClassifierModel = {
+    exact: new Map(),
+    tokenCounts: new Map(),
+    tokenTotals: new Map(),
+    docCounts: new Map(),
+    vocabulary: new Set(),
+    totalDocs: 0
+  };
+
+  transactions.forEach(t => {
+    if (t.type === 'transfer' || t.categoryId === 'cat-unassigned') return;
+    const key = `${normalizeDescription(t.description)}|${t.type}`;
+    if (!model.exact.has(key)) model.exact.set(key, new Map());
+    increment(model.exact.get(key)!, t.categoryId);
+
+    if (!model.tokenCounts.has(t.categoryId)) model.tokenCounts.set(t.categoryId, new Map());
+    const counts = model.tokenCounts.get(t.categoryId)!;
+    tokenize(t.description, t.type).forEach(token => {
+      increment(counts, token);
+      increment(model.tokenTotals, t.categoryId);
+      model.vocabulary.add(token);
+    });
+    increment(model.docCounts, t.categoryId);
+    model.totalDocs++;
+  });
+
+  return model;
+};
+
+// Primeiro procura a mesma descrição já categorizada (confiança = fatia da categoria mais usada);
+// sem histórico exato, usa naive Bayes multinomial sobre os tokens, com suavização de Laplace.
+export const classify = (model: ClassifierModel, description: string, type: Transaction['type']): CategorySuggestion | null => {
+  if (model.totalDocs === 0) return null;
+
+  const exact = model.exact.get(`${normalizeDescription(description)}|${type}`);
+  if (exact) {
+    let best = '';
+    let bestCount = 0;
+    let total = 0;
+    exact.forEach((count, categoryId) => {
+      total += count;
+      if (count > bestCount) {
+        best = categoryId;
+        bestCount = count;
+      }
+    });
+    return { categoryId: best, confidence: bestCount / total, source: 'history' };
+  }
+
+  const tokens = tokenize(description, type);
+  const known = tokens.filter(t => model.vocabulary.has(t));
+  // Só o token de tipo é conhecido: não há base para sugerir nada
+  if (known.length <= 1) return null;
+
+  const vocabularySize = model.vocabulary.size;
+  const scores: [string, number][] = [];
+  model.docCounts.forEach((docs, categoryId) => {
+    const counts = model.tokenCounts.get(categoryId)!;
+    const total = model.tokenTotals.get(categoryId) || 0;
+    let score = Math.log(docs / model.totalDocs);
+    known.forEach(token => {
+      score += Math.log(((counts.get(token) || 0) + 1) / (total + vocabularySize));
+    });
+    scores.push([categoryId, score]);
+  });
+
+  // Softmax em escala logarítmica para evitar underflow
+  const max = Math.max(...scores.map(([, s]) => s));
+  const weights = scores.map(([id, s]) => [id, Math.exp(s - max)] as [string, number]);
+  const sum = weights.reduce((acc, [, w]) => acc + w, 0);
+  const [best, weight] = weights.reduce((a, b) => (b[1] > a[1] ? b : a));
+
+  // Tokens nunca vistos não entram no cálculo, então reduzem a confiança proporcionalmente
+  const coverage = known.length / tokens.length;
+  return { categoryId: best, confidence: (weight / sum) * coverage, source: 'history' };
+};
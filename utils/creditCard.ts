@@ -0,0 +1,88 @@
+import { addMonths, format, getDaysInMonth, parseISO } from 'date-fns';
+import { Account, Transaction } from '../types';
+
+export interface StatementCycle {
+  key: string; // yyyy-MM do vencimento, ex: "fatura de março"
+  closingDate: string;
+  dueDate: string;
+  total: number;
+  transactions: Transaction[];
+}
+
+const clampDay = (year: number, month: number, day: number) =>
+  new Date(year, month, Math.min(day, getDaysInMonth(new Date(year, month, 1))));
+
+// Compras feitas até o dia do fechamento entram na fatura do mês; depois disso, na do mês seguinte.
+// O vencimento cai no mesmo mês do fechamento quando o dia de vencimento é posterior a ele.
+export const getStatementDates = (date: string, account: Account) => {
+  const closingDay = account.closingDay || 1;
+  const dueDay = account.dueDay || closingDay;
+  const d = parseISO(date);
+
+  let closing = clampDay(d.getFullYear(), d.getMonth(), closingDay);
+  if (d > closing) {
+    const next = addMonths(new Date(d.getFullYear(), d.getMonth(), 1), 1);
+    closing = clampDay(next.getFullYear(), next.getMonth(), closingDay);
+  }
+
+  const dueMonth = dueDay > closingDay ? closing : addMonths(new Date(closing.getFullYear(), closing.getMonth(), 1), 1);
+  const due = clampDay(dueMonth.getFullYear(), dueMonth.getMonth(), dueDay);
+
+  return {
+    key: format(due, 'yyyy-MM'),
+    closingDate: format(closing, 'yyyy-MM-dd'),
+    dueDate: format(due, 'yyyy-MM-dd')
+  };
+};
+
+// Agrupa os lançamentos do cartão por fatura. Pagamentos (transferências) ficam de fora:
+// eles quitam a fatura, não fazem parte dela.
+export const groupIntoStatements = (transactions: Transaction[], account: Account): StatementCycle[] => {
+  const cycles = new Map<string, StatementCycle>();
+
+  transactions
+    .filter(t => t.accountId === account.id && t.type !== 'transfer')
+    .forEach(t => {
+      const dates = getStatementDates(t.date, account);
+      const cycle = cycles.get(dates.key) || { ...dates, total: 0, transactions: [] };
+      cycle.total += -t.amount;
+      cycle.transactions.push(t);
+      cycles.set(dates.key, cycle);
+    });
+
+  return Array.from(cycles.values()).sort((a, b) => a.key.localeCompare(b.key));
+};
+
+interface InstallmentInput {
+  date: string;
+  description: string;
+  totalAmount: number;
+  count: number;
+  categoryId: string;
+  accountId: string;
+}
+
+// Gera as N parcelas de uma compra parcelada, uma por mês a partir da data da compra.
+// Os centavos que sobram da divisão vão para a primeira parcela, como fazem as operadoras.
+export const buildInstallments = (installmentId: string, input: InstallmentInput): Transaction[] => {
+  const totalCents = Math.round(Math.abs(input.totalAmount) * 100);
+  const baseCents = Math.floor(totalCents / input.count);
+  const remainder = totalCents - baseCents * input.count;
+  const purchaseDate = parseISO(input.date);
+
+  return Array.from({ length: input.count }, (_, i) => {
+    const cents = baseCents + (i === 0 ? remainder : 0);
+    return {
+      id: `${installmentId}-${i + 1}`,
+      date: format(addMonths(purchaseDate, i), 'yyyy-MM-dd'),
+      description: `${input.description} (${i + 1}/${input.count})`,
+      amount: -cents / 100,
+      categoryId: input.categoryId,
+      accountId: input.accountId,
+      type: 'expense' as const,
+      installmentId,
+      installmentNumber: i + 1,
+      installmentCount: input.count
+    };
+  });
+};
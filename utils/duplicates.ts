@@ -0,0 +1,84 @@
+import { Transaction } from '../types';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+export interface DuplicateMatch {
+  transaction: Transaction; // Linha do arquivo importado
+  match: Transaction; // Lançamento já existente parecido com ela
+}
+
+// Remove acentos, números (datas e códigos de autorização variam entre extratos) e pontuação
+export const normalizeDescription = (description: string): string =>
+  description
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\d+/g, ' ')
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+
+// cyrb53: hash de 53 bits, suficiente para ids estáveis sem depender de crypto assíncrono
+const hashString = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+type ImportRow = Omit<Transaction, 'id'> & { id?: string };
+
+// Linhas sem id ganham um id derivado do conteúdo; reimportar o mesmo extrato gera os mesmos ids.
+// Lançamentos idênticos no mesmo arquivo (dois cafés iguais no mesmo dia) são diferenciados pela ordem.
+export const assignContentIds = (rows: ImportRow[]): Transaction[] => {
+  const occurrences: Record<string, number> = {};
+  return rows.map(row => {
+    if (row.id) return row as Transaction;
+    const key = [row.accountId, row.date, row.amount.toFixed(2), normalizeDescription(row.description)].join('|');
+    const occurrence = occurrences[key] = (occurrences[key] || 0) + 1;
+    return { ...row, id: `import-${hashString(key)}-${occurrence}` };
+  });
+};
+
+const tokens = (description: string) => new Set(normalizeDescription(description).split(' ').filter(Boolean));
+
+const similarDescriptions = (a: string, b: string): boolean => {
+  const na = normalizeDescription(a);
+  const nb = normalizeDescription(b);
+  if (!na || !nb) return na === nb;
+  if (na === nb || na.includes(nb) || nb.includes(na)) return true;
+
+  const ta = tokens(a);
+  const tb = tokens(b);
+  const shared = Array.from(ta).filter(t => tb.has(t)).length;
+  return shared / (ta.size + tb.size - shared) >= 0.5;
+};
+
+// Mesmo valor, datas a até `windowDays` dias e descrição parecida. Cada lançamento existente
+// casa com no máximo uma linha importada, para não esconder compras repetidas legítimas.
+export const findDuplicates = (imported: Transaction[], existing: Transaction[], windowDays = 3): DuplicateMatch[] => {
+  const used = new Set<string>();
+  const matches: DuplicateMatch[] = [];
+
+  imported.forEach(transaction => {
+    const cents = Math.round(transaction.amount * 100);
+    const date = parseISO(transaction.date);
+    const match = existing.find(e =>
+      !used.has(e.id) &&
+      e.type !== 'transfer' &&
+      Math.round(e.amount * 100) === cents &&
+      Math.abs(differenceInCalendarDays(parseISO(e.date), date)) <= windowDays &&
+      similarDescriptions(e.description, transaction.description)
+    );
+    if (match) {
+      used.add(match.id);
+      matches.push({ transaction, match });
+    }
+  });
+
+  return matches;
+};
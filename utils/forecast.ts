@@ -0,0 +1,65 @@
+import { addMonths, endOfMonth, format, getDaysInMonth, startOfMonth } from 'date-fns';
+import { Account, Category, RecurringTransaction, Transaction } from '../types';
+import { isRoot } from './categories';
+import { category12MonthAverage, monthKey } from './budgets';
+import { occurrenceId, occurrencesBetween } from './recurrence';
+
+export const FORECAST_MONTHS = 12;
+
+export interface ForecastMonth {
+  month: string; // YYYY-MM
+  scheduled: number; // Lançamentos futuros já gravados: parcelas e recorrências materializadas
+  recurring: number; // Recorrências ativas que ainda não viraram lançamento
+  variable: number; // Gasto variável estimado, como valor positivo
+  net: number;
+  balance: number; // Saldo projetado no fim do mês, somando todas as contas
+}
+
+// Gasto variável é o que não vem de recorrência nem de parcelamento; esses já entram pela agenda
+const isVariable = (t: Transaction) => !t.recurringId && !t.isRecurring && !t.installmentId;
+
+// Parte do saldo de hoje e soma, mês a mês, a agenda já gravada, as recorrências pendentes e a média
+// de gasto variável dos últimos 12 meses. No mês corrente só entra a fração de gasto variável que falta.
+export const projectCashFlow = (
+  transactions: Transaction[],
+  recurring: RecurringTransaction[],
+  categories: Category[],
+  accounts: Account[],
+  today = new Date(),
+  months = FORECAST_MONTHS
+): ForecastMonth[] => {
+  const todayStr = format(today, 'yyyy-MM-dd');
+  const launched = new Set(transactions.filter(t => t.recurringId).map(t => t.id));
+  let balance = accounts.reduce((sum, a) => sum + a.openingBalance, 0)
+    + transactions.filter(t => t.date.slice(0, 10) <= todayStr).reduce((sum, t) => sum + t.amount, 0);
+
+  const averages = category12MonthAverage(transactions, categories, today, isVariable);
+  const variableMonthly = categories
+    .filter(c => isRoot(categories, c))
+    .reduce((sum, c) => sum + (averages.get(c.id) || 0), 0);
+
+  return Array.from({ length: months }, (_, i) => {
+    const monthDate = addMonths(startOfMonth(today), i);
+    const month = monthKey(monthDate);
+    const inMonth = transactions.filter(t => t.date.startsWith(month));
+
+    const scheduled = inMonth
+      .filter(t => t.type !== 'transfer' && t.date.slice(0, 10) > todayStr)
+      .reduce((sum, t) => sum + t.amount, 0);
+
+    const pendingRecurring = recurring
+      .filter(item => item.active)
+      .reduce((sum, item) => {
+        const pending = occurrencesBetween(item, monthDate, endOfMonth(monthDate))
+          .filter(o => o.date > todayStr && !launched.has(occurrenceId(item, o)));
+        return sum + pending.length * (item.type === 'expense' ? -Math.abs(item.amount) : Math.abs(item.amount));
+      }, 0);
+
+    const daysInMonth = getDaysInMonth(monthDate);
+    const variable = i === 0 ? variableMonthly * ((daysInMonth - today.getDate()) / daysInMonth) : variableMonthly;
+
+    const net = scheduled + pendingRecurring - variable;
+    balance += net;
+    return { month, scheduled, recurring: pendingRecurring, variable, net, balance };
+  });
+};
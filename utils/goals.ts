@@ -0,0 +1,65 @@
+import { differenceInCalendarDays, differenceInCalendarMonths, format, parseISO } from 'date-fns';
+import { Category, Goal, Transaction } from '../types';
+import { categoryParts } from './splits';
+import { rootIdOf } from './categories';
+
+export type GoalStatus = 'done' | 'on_track' | 'behind' | 'overdue';
+
+export interface GoalProgress {
+  saved: number;
+  remaining: number;
+  percent: number;
+  monthsLeft: number;
+  monthlyNeeded: number;
+  status: GoalStatus;
+}
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  done: 'Concluída',
+  on_track: 'No ritmo',
+  behind: 'Atrasada',
+  overdue: 'Prazo vencido'
+};
+
+// Só conta o que já aconteceu: parcelas e recorrências futuras ainda não foram guardadas.
+// Conta vinculada: o saldo líquido do período (depósitos menos retiradas).
+// Categoria vinculada: cada parte na categoria ou em uma subcategoria dela. O aporte sai do caixa (valor
+// negativo) e conta a favor; um resgate lançado na mesma categoria (valor positivo) desconta.
+export const goalSaved = (goal: Goal, transactions: Transaction[], categories: Category[], today = new Date()): number => {
+  const todayStr = format(today, 'yyyy-MM-dd');
+  const inPeriod = transactions.filter(t => t.date.slice(0, 10) >= goal.startDate && t.date.slice(0, 10) <= todayStr);
+  const contributed = goal.sourceType === 'account'
+    ? inPeriod.filter(t => t.accountId === goal.sourceId).reduce((sum, t) => sum + t.amount, 0)
+    : inPeriod.flatMap(categoryParts)
+        .filter(part => rootIdOf(categories, part.categoryId) === goal.sourceId || part.categoryId === goal.sourceId)
+        .reduce((sum, part) => sum - part.amount, 0);
+  return goal.initialAmount + contributed;
+};
+
+// O aporte mensal conta o mês corrente; "no ritmo" compara com uma linha reta entre o início e o prazo
+export const goalProgress = (goal: Goal, transactions: Transaction[], categories: Category[], today = new Date()): GoalProgress => {
+  const saved = goalSaved(goal, transactions, categories, today);
+  const remaining = Math.max(0, goal.targetAmount - saved);
+  const target = parseISO(goal.targetDate);
+  const monthsLeft = Math.max(0, differenceInCalendarMonths(target, today) + 1);
+  const monthlyNeeded = remaining > 0 ? remaining / Math.max(1, monthsLeft) : 0;
+
+  const totalDays = differenceInCalendarDays(target, parseISO(goal.startDate));
+  const elapsed = Math.min(1, Math.max(0, differenceInCalendarDays(today, parseISO(goal.startDate)) / Math.max(1, totalDays)));
+  const expected = goal.initialAmount + (goal.targetAmount - goal.initialAmount) * elapsed;
+
+  const status: GoalStatus = remaining === 0
+    ? 'done'
+    : differenceInCalendarDays(target, today) < 0
+      ? 'overdue'
+      : saved >= expected ? 'on_track' : 'behind';
+
+  return {
+    saved,
+    remaining,
+    percent: goal.targetAmount > 0 ? Math.min(100, (saved / goal.targetAmount) * 100) : 0,
+    monthsLeft,
+    monthlyNeeded,
+    status
+  };
+};
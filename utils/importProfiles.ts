@@ -0,0 +1,30 @@
+import { ImportDateFormat, ImportProfile } from '../types';
+import { parse, isValid, format } from 'date-fns';
+import { parseAmount } from './statements';
+
+// Assinatura do cabeçalho: células normalizadas, na ordem, ignorando colunas vazias no fim
+export const headerSignature = (headers: any[]): string =>
+  headers
+    .map(h => String(h ?? '').trim().toLowerCase())
+    .join('|')
+    .replace(/\|+$/, '');
+
+// Procura um perfil cujo cabeçalho bata com a linha indicada pelo próprio perfil
+export const findProfile = (rows: any[][], profiles: ImportProfile[]): ImportProfile | undefined =>
+  profiles.find(p => rows[p.headerRow] && headerSignature(rows[p.headerRow]) === p.headerSignature);
+
+// Retorna YYYY-MM-DD ou null, para o chamador cair na detecção automática
+export const parseDateWithFormat = (raw: any, dateFormat: ImportDateFormat): string | null => {
+  if (dateFormat === 'auto' || raw === null || raw === undefined) return null;
+  const parsed = parse(String(raw).trim(), dateFormat, new Date());
+  return isValid(parsed) ? format(parsed, 'yyyy-MM-dd') : null;
+};
+
+export const parseDecimal = (raw: string, separator: ImportProfile['decimalSeparator']): number => {
+  if (separator === 'auto') return parseAmount(raw);
+  const clean = raw.replace(/[^\d.,-]/g, '');
+  const normalized = separator === ','
+    ? clean.replace(/\./g, '').replace(',', '.')
+    : clean.replace(/,/g, '');
+  return parseFloat(normalized) || 0;
+};
@@ -0,0 +1,146 @@
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths, format, getDaysInMonth, parseISO, startOfMonth } from 'date-fns';
+import { BusinessDayAdjustment, RecurringTransaction, Transaction } from '../types';
+import { DEFAULT_ACCOUNT_ID } from '../constants';
+
+export interface Occurrence {
+  key: string; // Período nominal: yyyy-MM (mensal/anual) ou yyyy-MM-dd (semanal); identifica o lançamento
+  date: string; // Data efetiva, já ajustada para dia útil
+}
+
+export const WEEKDAY_LABELS = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'];
+
+const iso = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Sem data de início, intervalos maiores que 1 contam a partir de uma segunda-feira fixa
+const DEFAULT_ANCHOR = new Date(2000, 0, 3);
+
+// Algoritmo de Meeus/Jones/Butcher para o domingo de Páscoa (calendário gregoriano)
+export const easterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+const holidayCache = new Map<number, Set<string>>();
+
+// Calendário bancário nacional: feriados fixos, Sexta-feira Santa e os dias móveis em que os bancos não
+// abrem (segunda e terça de carnaval, Corpus Christi). Feriados estaduais e municipais ficam de fora.
+export const brazilianHolidays = (year: number): Set<string> => {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+  const fixed = ['01-01', '04-21', '05-01', '09-07', '10-12', '11-02', '11-15', '12-25'];
+  if (year >= 2024) fixed.push('11-20'); // Consciência Negra, nacional desde a Lei 14.759/2023
+  const easter = easterSunday(year);
+  const holidays = new Set([
+    ...fixed.map(day => `${year}-${day}`),
+    ...[-48, -47, -2, 60].map(offset => iso(addDays(easter, offset)))
+  ]);
+  holidayCache.set(year, holidays);
+  return holidays;
+};
+
+export const isBusinessDay = (date: Date): boolean =>
+  date.getDay() !== 0 && date.getDay() !== 6 && !brazilianHolidays(date.getFullYear()).has(iso(date));
+
+export const adjustToBusinessDay = (date: Date, adjustment: BusinessDayAdjustment = 'none'): Date => {
+  if (adjustment === 'none') return date;
+  const step = adjustment === 'previous' ? -1 : 1;
+  let adjusted = date;
+  while (!isBusinessDay(adjusted)) adjusted = addDays(adjusted, step);
+  return adjusted;
+};
+
+// Dia 31 vira 30 em abril e 28/29 em fevereiro
+const clampToMonth = (month: Date, day: number): Date =>
+  new Date(month.getFullYear(), month.getMonth(), Math.min(Math.max(1, day), getDaysInMonth(month)));
+
+// Ocorrências cuja data efetiva cai entre from e to (inclusive). As datas nominais respeitam início e fim
+// do template; a busca vai uma semana além das pontas porque o ajuste de dia útil pode cruzá-las.
+export const occurrencesBetween = (item: RecurringTransaction, from: Date, to: Date): Occurrence[] => {
+  const frequency = item.frequency || 'monthly';
+  const interval = Math.max(1, item.interval || 1);
+  const startDate = item.startDate?.slice(0, 10);
+  const endDate = item.endDate?.slice(0, 10);
+  const anchor = startDate ? parseISO(startDate) : DEFAULT_ANCHOR;
+  const scanFrom = addDays(from, -7);
+  const scanTo = addDays(to, 7);
+  const nominal: Date[] = [];
+
+  if (frequency === 'weekly') {
+    const dayOfWeek = item.dayOfWeek ?? anchor.getDay();
+    const first = addDays(anchor, (dayOfWeek - anchor.getDay() + 7) % 7);
+    const step = 7 * interval;
+    const skip = Math.max(0, Math.ceil(differenceInCalendarDays(scanFrom, first) / step));
+    for (let d = addDays(first, skip * step); d <= scanTo; d = addDays(d, step)) nominal.push(d);
+  } else {
+    const step = frequency === 'yearly' ? 12 * interval : interval;
+    const first = frequency === 'yearly'
+      ? new Date(anchor.getFullYear(), (item.monthOfYear || anchor.getMonth() + 1) - 1, 1)
+      : startOfMonth(anchor);
+    const skip = Math.max(0, Math.ceil(differenceInCalendarMonths(startOfMonth(scanFrom), first) / step));
+    for (let m = addMonths(first, skip * step); m <= scanTo; m = addMonths(m, step)) nominal.push(clampToMonth(m, item.dayOfMonth));
+  }
+
+  const fromStr = iso(from);
+  const toStr = iso(to);
+  return nominal
+    .filter(d => (!startDate || iso(d) >= startDate) && (!endDate || iso(d) <= endDate))
+    .map(d => ({
+      key: frequency === 'weekly' ? iso(d) : format(d, 'yyyy-MM'),
+      date: iso(adjustToBusinessDay(d, item.businessDay))
+    }))
+    .filter(o => o.date >= fromStr && o.date <= toStr);
+};
+
+// O id segue o período nominal: o mês (yyyy-MM, o formato dos lançamentos mensais já gravados) nas
+// recorrências mensais e anuais e a data nominal (yyyy-MM-dd) nas semanais. Só o ajuste de dia útil e, nas
+// mensais e anuais, o dia do mês mantêm os ids; frequência, intervalo, dia da semana, mês do ano ou início
+// geram ids novos. Por isso o servidor refaz os lançamentos ainda não vencidos ao gravar a recorrência.
+export const occurrenceId = (item: RecurringTransaction, occurrence: Occurrence): string =>
+  `rec-commit-${item.id}-${occurrence.key}`;
+
+export const buildRecurringTransaction = (item: RecurringTransaction, occurrence: Occurrence): Transaction => ({
+  id: occurrenceId(item, occurrence),
+  date: occurrence.date,
+  description: item.description,
+  amount: item.type === 'expense' ? -Math.abs(item.amount) : Math.abs(item.amount),
+  categoryId: item.categoryId,
+  accountId: item.accountId || DEFAULT_ACCOUNT_ID,
+  type: item.type,
+  isRecurring: true,
+  recurringId: item.id
+});
+
+export const describeRecurrence = (item: RecurringTransaction): string => {
+  const interval = Math.max(1, item.interval || 1);
+  const frequency = item.frequency || 'monthly';
+  let text: string;
+  if (frequency === 'weekly') {
+    const dayOfWeek = item.dayOfWeek ?? 1;
+    const weekday = WEEKDAY_LABELS[dayOfWeek];
+    text = interval === 1 ? `${dayOfWeek === 0 || dayOfWeek === 6 ? 'Todo' : 'Toda'} ${weekday}` : interval === 2 ? `Quinzenal, ${weekday}` : `A cada ${interval} semanas, ${weekday}`;
+  } else if (frequency === 'yearly') {
+    const date = `${String(item.dayOfMonth).padStart(2, '0')}/${String(item.monthOfYear || 1).padStart(2, '0')}`;
+    text = `${interval === 1 ? 'Todo ano' : `A cada ${interval} anos`} em ${date}`;
+  } else if (item.dayOfMonth >= 31 && item.businessDay === 'previous') {
+    return interval === 1 ? 'Último dia útil do mês' : `A cada ${interval} meses, último dia útil`;
+  } else {
+    const day = item.dayOfMonth >= 31 ? 'último dia' : `dia ${item.dayOfMonth}`;
+    text = interval === 1 ? `Todo ${day}` : `A cada ${interval} meses, ${day}`;
+  }
+  if (item.businessDay === 'previous') return `${text} · dia útil anterior`;
+  if (item.businessDay === 'next') return `${text} · próximo dia útil`;
+  return text;
+};
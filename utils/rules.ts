@@ -0,0 +1,68 @@
+import { CategoryRule, Transaction } from '../types';
+import { isSplit } from './splits';
+
+const matchesRegex = (pattern: string, text: string): boolean => {
+  try {
+    return new RegExp(pattern, 'i').test(text);
+  } catch {
+    return false; // Regex inválida nunca casa, em vez de quebrar a importação
+  }
+};
+
+export const ruleMatches = (rule: CategoryRule, t: Transaction): boolean => {
+  const c = rule.conditions;
+  if (!rule.active || t.type === 'transfer') return false;
+  if (c.descriptionContains && !t.description.toLowerCase().includes(c.descriptionContains.toLowerCase())) return false;
+  if (c.descriptionRegex && !matchesRegex(c.descriptionRegex, t.description)) return false;
+  if (c.minAmount !== undefined && Math.abs(t.amount) < c.minAmount) return false;
+  if (c.maxAmount !== undefined && Math.abs(t.amount) > c.maxAmount) return false;
+  if (c.accountId && t.accountId !== c.accountId) return false;
+  if (c.type && t.type !== c.type) return false;
+  return true;
+};
+
+export const sortRules = (rules: CategoryRule[]) => [...rules].sort((a, b) => a.priority - b.priority);
+
+// As regras rodam em ordem de prioridade e cada ação é definida pela primeira regra que a traz;
+// as condições sempre olham a descrição original. A categoria só é preenchida se ainda estiver
+// em "Não Categorizado", para não sobrescrever uma escolha feita pelo usuário; lançamentos
+// divididos nunca têm a categoria trocada.
+export const applyRules = (t: Transaction, rules: CategoryRule[]): Transaction => {
+  let categorySet = t.categoryId !== 'cat-unassigned' || isSplit(t);
+  let recurringSet = false;
+  let renamed = false;
+  const result = { ...t };
+
+  sortRules(rules).forEach(rule => {
+    if (!ruleMatches(rule, t)) return;
+    const { categoryId, isRecurring, renameTo } = rule.actions;
+    if (categoryId && !categorySet) {
+      result.categoryId = categoryId;
+      categorySet = true;
+    }
+    if (isRecurring !== undefined && !recurringSet) {
+      result.isRecurring = isRecurring;
+      recurringSet = true;
+    }
+    if (renameTo && !renamed) {
+      result.description = renameTo;
+      renamed = true;
+    }
+  });
+
+  return result;
+};
+
+// No histórico a regra reclassifica também lançamentos já categorizados; devolve só os que mudaram
+export const applyRulesToHistory = (transactions: Transaction[], rules: CategoryRule[]): Transaction[] =>
+  transactions
+    .map(t => {
+      const updated = applyRules({ ...t, categoryId: 'cat-unassigned' }, rules);
+      return updated.categoryId === 'cat-unassigned' ? { ...updated, categoryId: t.categoryId } : updated;
+    })
+    .filter((updated, i) => {
+      const original = transactions[i];
+      return updated.categoryId !== original.categoryId ||
+        updated.description !== original.description ||
+        !!updated.isRecurring !== !!original.isRecurring;
+    });
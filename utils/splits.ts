@@ -0,0 +1,39 @@
+import { Transaction, TransactionSplit } from '../types';
+
+const toCents = (value: number) => Math.round(value * 100);
+
+export const isSplit = (t: Transaction): boolean => !!t.splits && t.splits.length > 1;
+
+// Partes por categoria usadas nos relatórios; um lançamento comum vira uma parte só
+export const categoryParts = (t: Transaction): TransactionSplit[] =>
+  isSplit(t) ? t.splits! : [{ categoryId: t.categoryId, amount: t.amount }];
+
+// Comparação em centavos para não tropeçar em 0.1 + 0.2
+export const splitsMatchTotal = (splits: TransactionSplit[], total: number): boolean =>
+  splits.reduce((sum, s) => sum + toCents(s.amount), 0) === toCents(total);
+
+// A categoria "principal" mantém filtros e telas antigas funcionando com lançamentos divididos
+export const primaryCategory = (splits: TransactionSplit[]): string =>
+  splits.reduce((a, b) => (Math.abs(b.amount) > Math.abs(a.amount) ? b : a)).categoryId;
+
+// Soma os valores absolutos por categoria, já contando cada parte na sua categoria
+export const sumByCategory = (transactions: Transaction[]): Map<string, number> => {
+  const map = new Map<string, number>();
+  transactions.forEach(t => {
+    categoryParts(t).forEach(part => {
+      map.set(part.categoryId, (map.get(part.categoryId) || 0) + Math.abs(part.amount));
+    });
+  });
+  return map;
+};
+
+// Troca uma categoria por outra no lançamento e nas partes; devolve o mesmo objeto se nada mudou
+export const reassignCategory = (t: Transaction, from: string, to: string): Transaction => {
+  const touchesSplits = !!t.splits?.some(s => s.categoryId === from);
+  if (t.categoryId !== from && !touchesSplits) return t;
+  return {
+    ...t,
+    categoryId: t.categoryId === from ? to : t.categoryId,
+    splits: touchesSplits ? t.splits!.map(s => (s.categoryId === from ? { ...s, categoryId: to } : s)) : t.splits
+  };
+};
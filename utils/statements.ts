@@ -0,0 +1,127 @@
+export interface StatementEntry {
+  fitId?: string; // Identificador único do lançamento no banco (apenas OFX)
+  date: string; // YYYY-MM-DD
+  amount: number;
+  description: string;
+  category?: string; // Categoria exportada pelo software de origem (apenas QIF)
+}
+
+export interface ParsedStatement {
+  format: 'ofx' | 'qif';
+  accountRef?: string; // Conta de origem no banco, ex: "0341/12345-6"
+  currency?: string;
+  entries: StatementEntry[];
+}
+
+// Bancos brasileiros costumam exportar em Windows-1252; se o conteúdo não for UTF-8 válido, caímos nele
+export const decodeStatementFile = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+const decodeEntities = (value: string) => value
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// Aceita "1234.56", "1.234,56", "1,234.56" e "-10,00"; o último separador é o decimal
+export const parseAmount = (raw: string): number => {
+  const clean = raw.replace(/[^\d.,-]/g, '');
+  const lastComma = clean.lastIndexOf(',');
+  const lastDot = clean.lastIndexOf('.');
+  const normalized = lastComma > lastDot
+    ? clean.replace(/\./g, '').replace(',', '.')
+    : clean.replace(/,/g, '');
+  return parseFloat(normalized) || 0;
+};
+
+// No SGML as tags de valor não são fechadas e no XML são; ler até o próximo "<" ou quebra de linha cobre os dois
+const ofxValue = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+};
+
+const ofxDate = (raw?: string): string | null => {
+  const match = raw?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+export const parseOFX = (text: string): ParsedStatement => {
+  const entries: StatementEntry[] = [];
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  blocks.forEach(block => {
+    const date = ofxDate(ofxValue(block, 'DTPOSTED'));
+    const amount = ofxValue(block, 'TRNAMT');
+    if (!date || amount === undefined) return;
+
+    const name = ofxValue(block, 'NAME');
+    const memo = ofxValue(block, 'MEMO');
+    entries.push({
+      fitId: ofxValue(block, 'FITID'),
+      date,
+      amount: parseAmount(amount),
+      description: memo || name || 'Lançamento sem descrição'
+    });
+  });
+
+  // Conta corrente vem em BANKACCTFROM (com o código do banco); cartão de crédito em CCACCTFROM
+  const bankBlock = text.match(/<BANKACCTFROM>[\s\S]*?<\/BANKACCTFROM>/i)?.[0];
+  const cardBlock = text.match(/<CCACCTFROM>[\s\S]*?<\/CCACCTFROM>/i)?.[0];
+  const accountBlock = bankBlock || cardBlock;
+  let accountRef: string | undefined;
+  if (accountBlock) {
+    const bankId = ofxValue(accountBlock, 'BANKID');
+    const acctId = ofxValue(accountBlock, 'ACCTID');
+    accountRef = bankId && acctId ? `${bankId}/${acctId}` : acctId;
+  }
+
+  return { format: 'ofx', accountRef, currency: ofxValue(text, 'CURDEF'), entries };
+};
+
+// QIF usa datas como 31/12/2024, 12/31'24 ou 31.12.24; seguimos o padrão brasileiro (dia primeiro)
+const qifDate = (raw: string): string | null => {
+  const match = raw.replace(/\s/g, '').match(/^(\d{1,2})[\/\-.'](\d{1,2})[\/\-.'](\d{2,4})$/);
+  if (!match) return null;
+  let [, d, m, y] = match;
+  if (parseInt(m) > 12 && parseInt(d) <= 12) [d, m] = [m, d];
+  if (y.length === 2) y = (parseInt(y) <= 40 ? '20' : '19') + y;
+  return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+};
+
+export const parseQIF = (text: string): ParsedStatement => {
+  const entries: StatementEntry[] = [];
+  let current: Record<string, string> = {};
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) return;
+
+    if (line === '^') {
+      const date = current.D ? qifDate(current.D) : null;
+      const amount = current.T ?? current.U;
+      if (date && amount !== undefined) {
+        entries.push({
+          date,
+          amount: parseAmount(amount),
+          description: current.P || current.M || 'Lançamento sem descrição',
+          category: current.L?.replace(/^\[|\]$/g, '') || undefined
+        });
+      }
+      current = {};
+      return;
+    }
+
+    const code = line[0];
+    // Campos de split (S, E, $) se repetem; mantemos apenas o primeiro valor de cada código
+    if (current[code] === undefined) current[code] = line.slice(1).trim();
+  });
+
+  return { format: 'qif', entries };
+};
@@ -0,0 +1,31 @@
+import { Transaction } from '../types';
+
+// "#Viagem  Lisboa" e "viagem lisboa" viram a mesma tag
+export const normalizeTag = (raw: string): string =>
+  raw.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase();
+
+// Tags digitadas separadas por vírgula, sem repetidas nem vazias
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(normalizeTag).filter(Boolean)));
+
+export const formatTags = (tags: string[] | undefined): string => (tags || []).join(', ');
+
+export const allTags = (transactions: Transaction[]): string[] =>
+  Array.from(new Set(transactions.flatMap(t => t.tags || []))).sort((a, b) => a.localeCompare(b));
+
+export const withTag = (t: Transaction, tag: string): Transaction => {
+  const normalized = normalizeTag(tag);
+  if (!normalized || t.tags?.includes(normalized)) return t;
+  return { ...t, tags: [...(t.tags || []), normalized] };
+};
+
+// Um lançamento com várias tags conta inteiro em cada uma, então os totais não somam o gasto do período
+export const sumByTag = (transactions: Transaction[]): Map<string, number> => {
+  const map = new Map<string, number>();
+  transactions.forEach(t => {
+    (t.tags || []).forEach(tag => {
+      map.set(tag, (map.get(tag) || 0) + Math.abs(t.amount));
+    });
+  });
+  return map;
+};
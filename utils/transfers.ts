@@ -0,0 +1,40 @@
+import { Transaction } from '../types';
+import { TRANSFER_CATEGORY_ID } from '../constants';
+
+export interface TransferInput {
+  date: string;
+  description: string;
+  amount: number;
+  fromAccountId: string;
+  toAccountId: string;
+}
+
+// Uma transferência é gravada como duas pernas ligadas pelo mesmo transferId:
+// a saída (negativa) na conta de origem e a entrada (positiva) na conta de destino.
+export const buildTransferLegs = (transferId: string, input: TransferInput): Transaction[] => {
+  const amount = Math.abs(input.amount);
+  const base = {
+    date: input.date,
+    description: input.description,
+    categoryId: TRANSFER_CATEGORY_ID,
+    type: 'transfer' as const,
+    transferId
+  };
+  return [
+    { ...base, id: `${transferId}-out`, amount: -amount, accountId: input.fromAccountId },
+    { ...base, id: `${transferId}-in`, amount, accountId: input.toAccountId }
+  ];
+};
+
+export const getTransferInput = (legs: Transaction[]): TransferInput | null => {
+  const out = legs.find(l => l.amount < 0);
+  const inn = legs.find(l => l.amount >= 0);
+  if (!out || !inn) return null;
+  return {
+    date: out.date,
+    description: out.description,
+    amount: Math.abs(out.amount),
+    fromAccountId: out.accountId,
+    toAccountId: inn.accountId
+  };
+};